@@ -2,12 +2,23 @@ import api from '@actual-app/api';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
-import { BudgetFile, TransactionData, UpdateTransactionData, NewRuleArgs, UpdateRuleArgs } from './types.js';
+import { randomUUID } from 'node:crypto';
+import {
+  BudgetFile,
+  BudgetMonth,
+  CreateAccountArgs,
+  UpdateAccountData,
+  TransactionData,
+  UpdateTransactionData,
+  NewRuleArgs,
+  UpdateRuleArgs,
+} from './types.js';
 import {
   APIAccountEntity,
   APICategoryEntity,
   APICategoryGroupEntity,
   APIPayeeEntity,
+  APIScheduleEntity,
 } from '@actual-app/api/@types/loot-core/src/server/api-models.js';
 import {
   NewRuleEntity,
@@ -17,72 +28,399 @@ import {
 
 const DEFAULT_DATA_DIR: string = path.resolve(os.homedir() || '.', '.actual');
 
-// API initialization state
+// ----------------------------
+// SESSION
+// ----------------------------
+
+// How often a loaded budget is synced with the server, and how long it may sit unused before it is closed.
+// Both are configurable in milliseconds; 0 disables the behaviour.
+const DEFAULT_SYNC_INTERVAL_MS = 5 * 60 * 1000;
+const DEFAULT_IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+
+function readDurationEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    console.error(`Ignoring invalid ${name}="${raw}", using ${fallback}ms`);
+    return fallback;
+  }
+  return value;
+}
+
+// Session state: the API stays open across requests with one budget loaded at a time,
+// until the session goes idle or a sync fails
 let initialized = false;
-let initializing = false;
-let initializationError: Error | null = null;
+let initPromise: Promise<void> | null = null;
+let syncPromise: Promise<void> | null = null;
+let syncTimer: NodeJS.Timeout | null = null;
+let idleTimer: NodeJS.Timeout | null = null;
+let lastSyncAt: Date | null = null;
+
+// The budget currently loaded in the API, the default for calls without a budgetId,
+// and the budget requested by the call currently holding the session
+let activeBudget: BudgetFile | null = null;
+let defaultBudgetRef: string | undefined = process.env.ACTUAL_BUDGET_SYNC_ID || undefined;
+let scopedBudgetRef: string | undefined;
+let sessionQueue: Promise<unknown> = Promise.resolve();
+
+const canSync = (): boolean => Boolean(process.env.ACTUAL_SERVER_URL);
+
+const budgetKey = (budget: BudgetFile): string => budget.cloudFileId || budget.id || budget.name;
 
 /**
- * Initialize the Actual Budget API
+ * Find a budget by sync ID, local ID or (case-insensitive) name
  */
-export async function initActualApi(): Promise<void> {
-  if (initialized) return;
-  if (initializing) {
-    // Wait for initialization to complete if already in progress
-    while (initializing) {
-      await new Promise((resolve) => setTimeout(resolve, 100));
+function findBudget(budgets: BudgetFile[], ref: string): BudgetFile | undefined {
+  return (
+    budgets.find((b) => b.cloudFileId === ref || b.id === ref) ??
+    budgets.find((b) => b.name.toLowerCase() === ref.toLowerCase())
+  );
+}
+
+/**
+ * Encryption password for a budget. ACTUAL_BUDGET_ENCRYPTION_PASSWORDS holds a JSON object keyed by
+ * sync ID, local ID or budget name; ACTUAL_BUDGET_ENCRYPTION_PASSWORD is the fallback for every budget.
+ */
+function getEncryptionPassword(budget: BudgetFile): string | undefined {
+  const raw = process.env.ACTUAL_BUDGET_ENCRYPTION_PASSWORDS;
+  if (raw) {
+    try {
+      const passwords = JSON.parse(raw) as Record<string, string>;
+      const password = [budget.cloudFileId, budget.id, budget.name]
+        .filter((key): key is string => Boolean(key))
+        .map((key) => passwords[key])
+        .find(Boolean);
+      if (password) return password;
+    } catch {
+      console.error('Ignoring ACTUAL_BUDGET_ENCRYPTION_PASSWORDS: it must be a JSON object of budget ID to password');
     }
-    if (initializationError) throw initializationError;
-    return;
   }
+  return process.env.ACTUAL_BUDGET_ENCRYPTION_PASSWORD || undefined;
+}
+
+/**
+ * Directory holding the local budget files (and other server data such as the audit log)
+ */
+export function getDataDir(): string {
+  return process.env.ACTUAL_DATA_DIR || DEFAULT_DATA_DIR;
+}
 
+/**
+ * Open the API (without loading a budget)
+ */
+async function connect(): Promise<void> {
+  console.error('Initializing Actual Budget API...');
+  const dataDir = getDataDir();
+  if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true });
+  }
+  await api.init({
+    dataDir,
+    serverURL: process.env.ACTUAL_SERVER_URL,
+    password: process.env.ACTUAL_PASSWORD,
+  });
+
+  initialized = true;
+  startSyncTimer();
+  console.error('Actual Budget API initialized successfully');
+}
+
+/**
+ * Make sure the requested budget (or the default one) is the budget loaded in the API
+ */
+async function ensureBudgetLoaded(ref: string | undefined): Promise<void> {
+  if (activeBudget && (!ref || findBudget([activeBudget], ref))) return;
+
+  const budgets: BudgetFile[] = await api.getBudgets();
+  if (!budgets || budgets.length === 0) {
+    throw new Error('No budgets found. Please create a budget in Actual first.');
+  }
+
+  // Use the requested budget or the first one
+  const budget = ref ? findBudget(budgets, ref) : budgets[0];
+  if (!budget) {
+    throw new Error(`Unknown budget: ${ref}. Use list-budgets to see the available budgets.`);
+  }
+  if (activeBudget && budgetKey(activeBudget) === budgetKey(budget)) return;
+
+  // Push pending changes of the budget being replaced before loading another one
+  if (activeBudget && canSync()) {
+    await api.sync();
+  }
+  activeBudget = null;
+
+  console.error(`Loading budget: ${budget.name} (${budgetKey(budget)})`);
+  if (budget.cloudFileId && canSync()) {
+    const password = getEncryptionPassword(budget);
+    await api.downloadBudget(budget.cloudFileId, password ? { password } : undefined);
+  } else if (budget.id) {
+    await api.loadBudget(budget.id);
+  } else {
+    throw new Error(`Budget ${budget.name} is only available on the server; set ACTUAL_SERVER_URL to download it.`);
+  }
+
+  activeBudget = budget;
+  lastSyncAt = new Date();
+}
+
+function startSyncTimer(): void {
+  const interval = readDurationEnv('ACTUAL_SYNC_INTERVAL_MS', DEFAULT_SYNC_INTERVAL_MS);
+  if (!canSync() || interval === 0 || syncTimer) return;
+  syncTimer = setInterval(() => {
+    enqueue(() => trackAccountChanges(syncActualApi)).catch((error) => {
+      console.error('Periodic sync failed, the session will reconnect on next use:', error);
+    });
+  }, interval);
+  syncTimer.unref();
+}
+
+function touchSession(): void {
+  const timeout = readDurationEnv('ACTUAL_IDLE_TIMEOUT_MS', DEFAULT_IDLE_TIMEOUT_MS);
+  if (idleTimer) clearTimeout(idleTimer);
+  if (timeout === 0) return;
+  idleTimer = setTimeout(() => {
+    console.error('Actual Budget session idle, closing budget');
+    // Queued like any other session work, so a call arriving mid-shutdown waits instead of racing api.init
+    enqueue(() => shutdownActualApi()).catch((error) => console.error('Failed to close idle session:', error));
+  }, timeout);
+  idleTimer.unref();
+}
+
+/**
+ * Drop the current session so the next call reconnects from scratch
+ */
+async function resetSession(): Promise<void> {
+  if (syncTimer) clearInterval(syncTimer);
+  syncTimer = null;
+  activeBudget = null;
+  if (!initialized) return;
+  initialized = false;
+  await api.shutdown().catch((error) => console.error('Failed to close broken session:', error));
+}
+
+/**
+ * Initialize the Actual Budget API and load the budget for the current call, reusing the open session.
+ * Concurrent callers share one initialization; a failed attempt is retried on the next call.
+ */
+export async function initActualApi(): Promise<void> {
+  touchSession();
+  if (!initialized) {
+    if (!initPromise) {
+      initPromise = connect()
+        .catch((error) => {
+          console.error('Failed to initialize Actual Budget API:', error);
+          throw error instanceof Error ? error : new Error(String(error));
+        })
+        .finally(() => {
+          initPromise = null;
+        });
+    }
+    await initPromise;
+  }
   try {
-    console.error('Initializing Actual Budget API...');
-    const dataDir = process.env.ACTUAL_DATA_DIR || DEFAULT_DATA_DIR;
-    if (!fs.existsSync(dataDir)) {
-      fs.mkdirSync(dataDir, { recursive: true });
+    await ensureBudgetLoaded(scopedBudgetRef ?? defaultBudgetRef);
+  } catch (error) {
+    console.error('Failed to load budget:', error);
+    throw error instanceof Error ? error : new Error(String(error));
+  }
+}
+
+/**
+ * Run work against a specific budget (or the default one when budgetId is omitted).
+ * Calls are serialized because the API can only hold one loaded budget at a time.
+ */
+export function withBudget<T>(budgetId: string | undefined, work: () => Promise<T>): Promise<T> {
+  return enqueue(async () => {
+    scopedBudgetRef = budgetId;
+    try {
+      await initActualApi();
+      return await work();
+    } finally {
+      scopedBudgetRef = undefined;
     }
-    await api.init({
-      dataDir,
-      serverURL: process.env.ACTUAL_SERVER_URL,
-      password: process.env.ACTUAL_PASSWORD,
-    });
+  });
+}
+
+// Run session work one at a time, in call order
+function enqueue<T>(work: () => Promise<T>): Promise<T> {
+  const result = sessionQueue.then(work, work);
+  sessionQueue = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Make a budget the default for calls that don't pass a budgetId
+ */
+export async function setDefaultBudget(budgetId: string): Promise<BudgetFile> {
+  await initActualApi();
+  const budget = findBudget(await api.getBudgets(), budgetId);
+  if (!budget) {
+    throw new Error(`Unknown budget: ${budgetId}. Use list-budgets to see the available budgets.`);
+  }
+  const changed = defaultBudgetRef === undefined || !findBudget([budget], defaultBudgetRef);
+  defaultBudgetRef = budgetKey(budget);
+  if (changed) {
+    defaultBudgetListeners.forEach((listener) => listener(budget));
+  }
+  return budget;
+}
+
+/**
+ * List the budgets available locally and on the server, flagging the loaded and default budgets
+ */
+export async function listBudgets(): Promise<Array<BudgetFile & { loaded: boolean; isDefault: boolean }>> {
+  await initActualApi();
+  const budgets: BudgetFile[] = await api.getBudgets();
+  const defaultBudget = defaultBudgetRef ? findBudget(budgets, defaultBudgetRef) : budgets[0];
+  return budgets.map((budget) => ({
+    ...budget,
+    loaded: activeBudget !== null && budgetKey(activeBudget) === budgetKey(budget),
+    isDefault: defaultBudget !== undefined && budgetKey(defaultBudget) === budgetKey(budget),
+  }));
+}
+
+/**
+ * Sync the loaded budget with the server. On failure the session is dropped so the next call reconnects.
+ */
+export async function syncActualApi(): Promise<void> {
+  if (!initialized || !activeBudget || !canSync()) return;
+  if (!syncPromise) {
+    syncPromise = api
+      .sync()
+      .then(() => {
+        lastSyncAt = new Date();
+      })
+      .catch(async (error) => {
+        await resetSession();
+        throw error;
+      })
+      .finally(() => {
+        syncPromise = null;
+      });
+  }
+  return syncPromise;
+}
 
-    const budgets: BudgetFile[] = await api.getBudgets();
-    if (!budgets || budgets.length === 0) {
-      throw new Error('No budgets found. Please create a budget in Actual first.');
+/**
+ * Explicitly refresh the session: sync if a budget is loaded (reconnecting if that fails), otherwise connect.
+ * Runs in the session queue so it never overlaps a tool call.
+ */
+export function refreshActualApi(): Promise<void> {
+  return enqueue(async () => {
+    if (initialized && activeBudget) {
+      try {
+        await syncActualApi();
+        return;
+      } catch (error) {
+        console.error('Refresh sync failed, reconnecting:', error);
+      }
     }
+    // Outside withBudget no budget is scoped, so this loads the default budget
+    await initActualApi();
+  });
+}
 
-    // Use specified budget or the first one
-    const budgetId: string = process.env.ACTUAL_BUDGET_SYNC_ID || budgets[0].cloudFileId || budgets[0].id || '';
-    console.error(`Loading budget: ${budgetId}`);
-    await api.downloadBudget(
-      budgetId,
-      process.env.ACTUAL_BUDGET_ENCRYPTION_PASSWORD
-        ? {
-            password: process.env.ACTUAL_BUDGET_ENCRYPTION_PASSWORD,
-          }
-        : undefined
-    );
-
-    initialized = true;
-    console.error('Actual Budget API initialized successfully');
-  } catch (error) {
-    console.error('Failed to initialize Actual Budget API:', error);
-    initializationError = error instanceof Error ? error : new Error(String(error));
-    throw initializationError;
-  } finally {
-    initializing = false;
+// ----------------------------
+// CHANGE TRACKING
+// ----------------------------
+
+type AccountsChangedListener = (accountIds: string[]) => void;
+type DefaultBudgetListener = (budget: BudgetFile) => void;
+
+const accountsChangedListeners = new Set<AccountsChangedListener>();
+const defaultBudgetListeners = new Set<DefaultBudgetListener>();
+
+/**
+ * Listen for accounts of the default budget whose data changed through a sync or tracked write.
+ * Returns a function that removes the listener.
+ */
+export function onAccountsChanged(listener: AccountsChangedListener): () => void {
+  accountsChangedListeners.add(listener);
+  return () => accountsChangedListeners.delete(listener);
+}
+
+/**
+ * Listen for a different budget becoming the default. Returns a function that removes the listener.
+ */
+export function onDefaultBudgetChanged(listener: DefaultBudgetListener): () => void {
+  defaultBudgetListeners.add(listener);
+  return () => defaultBudgetListeners.delete(listener);
+}
+
+// Listeners only care about the default budget, which resources read
+const isDefaultBudgetLoaded = (): boolean =>
+  activeBudget !== null &&
+  (defaultBudgetRef === undefined || findBudget([activeBudget], defaultBudgetRef) !== undefined);
+
+/**
+ * Transaction count and total per account of the loaded budget, to see which accounts a sync or write changed
+ */
+async function fetchAccountFingerprints(): Promise<Map<string, string>> {
+  const query = api
+    .q('transactions')
+    .groupBy('account')
+    .select(['account', { count: { $count: '$id' } }, { total: { $sum: '$amount' } }]);
+  const { data } = (await api.aqlQuery(query as unknown as Parameters<typeof api.aqlQuery>[0])) as {
+    data: Array<{ account: string; count: number; total: number }>;
+  };
+  return new Map(data.map((row) => [row.account, `${row.count}:${row.total}`]));
+}
+
+/**
+ * Run work on the loaded budget and tell the accounts-changed listeners which accounts it changed:
+ * accounts whose transaction count or total moved, plus the ones touchedAccounts names for edits that
+ * keep both (e.g. a recategorized transaction). Does nothing extra without listeners.
+ */
+export async function trackAccountChanges<T>(
+  work: () => Promise<T>,
+  touchedAccounts: (result: T) => string[] = () => []
+): Promise<T> {
+  if (accountsChangedListeners.size === 0 || !initialized || !isDefaultBudgetLoaded()) {
+    return work();
+  }
+  const before = await fetchAccountFingerprints();
+  const result = await work();
+  // A failed sync drops the session, so there is nothing left to compare with
+  if (!initialized || !isDefaultBudgetLoaded()) {
+    return result;
+  }
+  const after = await fetchAccountFingerprints();
+
+  const changed = new Set(touchedAccounts(result));
+  for (const account of new Set([...before.keys(), ...after.keys()])) {
+    if (before.get(account) !== after.get(account)) {
+      changed.add(account);
+    }
+  }
+  if (changed.size > 0) {
+    accountsChangedListeners.forEach((listener) => listener([...changed]));
   }
+  return result;
 }
 
 /**
- * Shutdown the Actual Budget API
+ * Current session state, for diagnostics
+ */
+export function getSessionStatus(): { initialized: boolean; budget: BudgetFile | null; lastSyncAt: Date | null } {
+  return { initialized, budget: activeBudget, lastSyncAt };
+}
+
+/**
+ * Shutdown the Actual Budget API, pushing pending changes to the server first
  */
 export async function shutdownActualApi(): Promise<void> {
+  if (initPromise) {
+    await initPromise.catch(() => undefined);
+  }
+  if (idleTimer) clearTimeout(idleTimer);
+  idleTimer = null;
+  if (syncTimer) clearInterval(syncTimer);
+  syncTimer = null;
+  activeBudget = null;
   if (!initialized) return;
-  await api.shutdown();
   initialized = false;
+  await api.shutdown();
 }
 
 // ----------------------------
@@ -131,6 +469,35 @@ export async function getTransactions(accountId: string, start: string, end: str
   return api.getTransactions(accountId, start, end);
 }
 
+/**
+ * Get the IDs of all transactions (including split children) assigned to any of the given payees (ensures API is initialized)
+ */
+export async function getTransactionIdsForPayees(payeeIds: string[]): Promise<string[]> {
+  await initActualApi();
+  const query = api
+    .q('transactions')
+    .filter({ payee: { $oneof: payeeIds } })
+    .options({ splits: 'all' })
+    .select(['id']);
+  // The API exports `q` and `aqlQuery` with two structurally different Query declarations.
+  const { data } = (await api.aqlQuery(query as unknown as Parameters<typeof api.aqlQuery>[0])) as {
+    data: Array<{ id: string }>;
+  };
+  return data.map((row) => row.id);
+}
+
+/**
+ * Get a single transaction by ID, or null if it does not exist (ensures API is initialized)
+ */
+export async function getTransaction(id: string): Promise<TransactionEntity | null> {
+  await initActualApi();
+  const query = api.q('transactions').filter({ id }).options({ splits: 'all' }).select(['*']);
+  const { data } = (await api.aqlQuery(query as unknown as Parameters<typeof api.aqlQuery>[0])) as {
+    data: TransactionEntity[];
+  };
+  return data[0] ?? null;
+}
+
 /**
  * Get all rules (ensures API is initialized)
  */
@@ -139,10 +506,112 @@ export async function getRules(): Promise<RuleEntity[]> {
   return api.getRules();
 }
 
+/**
+ * Get all schedules (ensures API is initialized)
+ */
+export async function getSchedules(): Promise<APIScheduleEntity[]> {
+  await initActualApi();
+  return api.getSchedules();
+}
+
+/**
+ * Get the current balance of an account (ensures API is initialized)
+ */
+export async function getAccountBalance(id: string): Promise<number> {
+  await initActualApi();
+  return api.getAccountBalance(id);
+}
+
+/**
+ * Get all months that have budget data, as YYYY-MM strings (ensures API is initialized)
+ */
+export async function getBudgetMonths(): Promise<string[]> {
+  await initActualApi();
+  return api.getBudgetMonths();
+}
+
+/**
+ * Get budgeted, spent and balance amounts for a budget month (ensures API is initialized)
+ */
+export async function getBudgetMonth(month: string): Promise<BudgetMonth> {
+  await initActualApi();
+  // The API types category groups as loose records; the runtime shape matches BudgetMonth.
+  return (await api.getBudgetMonth(month)) as unknown as BudgetMonth;
+}
+
+/**
+ * Get the budget's synced preferences (currency, number format, ...) keyed by id (ensures API is initialized)
+ */
+export async function getBudgetPreferences(): Promise<Record<string, string>> {
+  await initActualApi();
+  const query = api.q('preferences').select(['id', 'value']);
+  const { data } = (await api.aqlQuery(query as unknown as Parameters<typeof api.aqlQuery>[0])) as {
+    data: Array<{ id: string; value: string | null }>;
+  };
+  return Object.fromEntries(data.map((row) => [row.id, row.value ?? '']));
+}
+
 // ----------------------------
 // ACTION
 // ----------------------------
 
+/**
+ * Set the budgeted amount of a category for a month (ensures API is initialized)
+ */
+export async function setBudgetAmount(month: string, categoryId: string, amount: number): Promise<void> {
+  await initActualApi();
+  return api.setBudgetAmount(month, categoryId, amount);
+}
+
+/**
+ * Set the carryover (rollover overspending) flag of a category from a month onwards (ensures API is initialized)
+ */
+export async function setBudgetCarryover(month: string, categoryId: string, flag: boolean): Promise<void> {
+  await initActualApi();
+  return api.setBudgetCarryover(month, categoryId, flag);
+}
+
+/**
+ * Create a new account with an optional starting balance (ensures API is initialized)
+ */
+export async function createAccount(args: CreateAccountArgs): Promise<string> {
+  await initActualApi();
+  const { initialBalance, ...account } = args;
+  return api.createAccount(account, initialBalance);
+}
+
+/**
+ * Update an account (ensures API is initialized)
+ */
+export async function updateAccount(id: string, data: UpdateAccountData): Promise<void> {
+  await initActualApi();
+  return api.updateAccount(id, data);
+}
+
+/**
+ * Close an account, optionally transferring its remaining balance (ensures API is initialized)
+ */
+export async function closeAccount(id: string, transferAccountId?: string, transferCategoryId?: string): Promise<void> {
+  await initActualApi();
+  return api.closeAccount(id, transferAccountId, transferCategoryId);
+}
+
+/**
+ * Reopen a closed account (ensures API is initialized)
+ */
+export async function reopenAccount(id: string): Promise<void> {
+  await initActualApi();
+  return api.reopenAccount(id);
+}
+
+/**
+ * Delete an account and all of its transactions (ensures API is initialized)
+ */
+export async function deleteAccount(id: string): Promise<void> {
+  await initActualApi();
+  return api.deleteAccount(id);
+}
+
 /**
  * Create a new payee (ensures API is initialized)
  */
@@ -159,6 +628,14 @@ export async function updatePayee(id: string, args: Record<string, unknown>): Pr
   return api.updatePayee(id, args);
 }
 
+/**
+ * Merge payees into a target payee; transactions of the merged payees are reassigned and the payees deleted (ensures API is initialized)
+ */
+export async function mergePayees(targetId: string, mergeIds: string[]): Promise<void> {
+  await initActualApi();
+  return api.mergePayees(targetId, mergeIds);
+}
+
 /**
  * Delete a payee (ensures API is initialized)
  */
@@ -201,6 +678,34 @@ export async function deleteRule(id: string): Promise<boolean> {
   return api.deleteRule(id);
 }
 
+/**
+ * Create a schedule (ensures API is initialized)
+ */
+export async function createSchedule(schedule: Omit<APIScheduleEntity, 'id'>): Promise<string> {
+  await initActualApi();
+  return api.createSchedule(schedule);
+}
+
+/**
+ * Update a schedule (ensures API is initialized)
+ */
+export async function updateSchedule(
+  id: string,
+  fields: Partial<APIScheduleEntity>,
+  resetNextDate?: boolean
+): Promise<string> {
+  await initActualApi();
+  return api.updateSchedule(id, fields, resetNextDate);
+}
+
+/**
+ * Delete a schedule (ensures API is initialized)
+ */
+export async function deleteSchedule(id: string): Promise<void> {
+  await initActualApi();
+  return api.deleteSchedule(id);
+}
+
 /**
  * Create a new category (ensures API is initialized)
  */
@@ -257,6 +762,90 @@ export async function createTransaction(accountId: string, data: TransactionData
   return api.addTransactions(accountId, [data]);
 }
 
+/**
+ * Create a transaction with Actual's transfer handling, so a transfer payee also creates the linked
+ * transaction in the other account. Returns the ID of the new transaction (ensures API is initialized)
+ */
+export async function createTransferTransaction(accountId: string, data: TransactionData): Promise<string> {
+  await initActualApi();
+  return addTransactionWithId(accountId, data, { runTransfers: true });
+}
+
+/**
+ * Set the cleared and reconciled flags of a transaction; reconciled transactions are locked in Actual
+ * (ensures API is initialized)
+ */
+export async function setReconciliationState(
+  id: string,
+  state: { cleared: boolean; reconciled: boolean }
+): Promise<void> {
+  await initActualApi();
+  await api.updateTransaction(id, state);
+}
+
+/**
+ * Create a cleared and reconciled transaction that makes the account match its statement.
+ * Returns the ID of the new transaction (ensures API is initialized)
+ */
+export async function createReconciliationAdjustment(
+  accountId: string,
+  adjustment: { date: string; amount: number; notes?: string }
+): Promise<string> {
+  await initActualApi();
+  return addTransactionWithId(accountId, {
+    ...adjustment,
+    payee_name: 'Reconciliation balance adjustment',
+    cleared: true,
+    reconciled: true,
+  });
+}
+
+// The API keeps a given ID but does not declare it, and does not return the IDs it creates
+async function addTransactionWithId(
+  accountId: string,
+  data: TransactionData & { reconciled?: boolean },
+  opts: { runTransfers?: boolean } = {}
+): Promise<string> {
+  const id = randomUUID();
+  const transaction = { ...data, id } as Parameters<typeof api.addTransactions>[1][number];
+  await api.addTransactions(accountId, [transaction], opts);
+  return id;
+}
+
+/**
+ * Link a transaction to its counterpart in another account by giving it that account's transfer payee.
+ * Actual then syncs the counterpart's payee, date, notes and amount to it (ensures API is initialized)
+ */
+export async function linkTransfer(
+  id: string,
+  transfer: { transferId: string; payeeId: string; notes?: string }
+): Promise<void> {
+  await initActualApi();
+  await api.updateTransaction(id, {
+    payee: transfer.payeeId,
+    transfer_id: transfer.transferId,
+    ...(transfer.notes !== undefined && { notes: transfer.notes }),
+  });
+}
+
+/**
+ * Import transactions through Actual's reconciliation path, so rules run and
+ * transactions already imported (matched by imported_id) are not duplicated (ensures API is initialized)
+ */
+export async function importTransactions(
+  accountId: string,
+  transactions: TransactionData[],
+  opts: { dryRun?: boolean } = {}
+): Promise<{ added: string[]; updated: string[]; errors: Array<{ message: string }> }> {
+  await initActualApi();
+  const result = await api.importTransactions(
+    accountId,
+    transactions.map((transaction) => ({ ...transaction, account: accountId })),
+    opts
+  );
+  return { added: result.added, updated: result.updated, errors: result.errors ?? [] };
+}
+
 /**
  * Update a transaction (ensures API is initialized)
  */
@@ -266,6 +855,28 @@ export async function updateTransaction(id: string, data: UpdateTransactionData)
   return api.updateTransaction(id, data as Parameters<typeof api.updateTransaction>[1]);
 }
 
+/**
+ * Update several transactions in one batch, so they are synced together (ensures API is initialized).
+ * Each update is attempted on its own; failures are returned per transaction instead of aborting the batch.
+ */
+export async function updateTransactions(
+  updates: { id: string; data: UpdateTransactionData }[]
+): Promise<{ id: string; error: string | null }[]> {
+  await initActualApi();
+  const results: { id: string; error: string | null }[] = [];
+  await api.batchBudgetUpdates(async () => {
+    for (const { id, data } of updates) {
+      try {
+        await api.updateTransaction(id, data as Parameters<typeof api.updateTransaction>[1]);
+        results.push({ id, error: null });
+      } catch (error) {
+        results.push({ id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  });
+  return results;
+}
+
 /**
  * Delete a transaction (ensures API is initialized)
  */
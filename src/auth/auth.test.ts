@@ -166,6 +166,18 @@ describe('auth module', () => {
         expect(context.oauthMetadata).toBeUndefined();
       });
 
+      it('should grant admin to the static bearer token', async () => {
+        mockConfig.MCP_BEARER_TOKEN = 'test-token';
+        const { requireBearerAuth } = await import('@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js');
+
+        await buildAuthContext({ enableBearer: true });
+        const { verifier } = vi.mocked(requireBearerAuth).mock.calls[0][0];
+
+        await expect(verifier.verifyAccessToken('test-token')).resolves.toMatchObject({
+          scopes: ['mcp:tools', 'admin'],
+        });
+      });
+
       it('should throw error when bearer token is not configured', async () => {
         mockConfig.MCP_BEARER_TOKEN = undefined;
 
@@ -196,7 +196,8 @@ const buildBearerAuthContext = (): AuthContext => {
         return {
           token: accessToken,
           clientId: 'local-user',
-          scopes: ['mcp:tools'],
+          // The static token belongs to the server's operator, so it keeps full access
+          scopes: ['mcp:tools', 'admin'],
           expiresAt: Math.floor(Date.now() / 1000) + 24 * 60 * 60,
         };
       },
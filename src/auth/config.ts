@@ -34,6 +34,10 @@ export const MCP_PUBLIC_URL =
 // Bearer token (used in bearer mode)
 export const MCP_BEARER_TOKEN = parseStringEnv(process.env.MCP_BEARER_TOKEN ?? process.env.BEARER_TOKEN);
 
+// Scopes granted to OAuth callers whose token carries none of the server's tool scopes
+// (e.g. a plain OIDC token, or tokens issued before scopes were configured). Space or comma separated.
+export const MCP_DEFAULT_SCOPES = (process.env.MCP_DEFAULT_SCOPES ?? 'budget:read').split(/[\s,]+/).filter(Boolean);
+
 // Auth mode from env var (CLI flags take precedence when used)
 export const MCP_AUTH_MODE = (process.env.MCP_AUTH_MODE ?? 'none').toLowerCase() as AuthMode;
 
@@ -1,2 +1,10 @@
 export { buildAuthContext, resolveAuthMode, type AuthContext, type AuthOptions } from './auth.js';
 export { type AuthMode, MCP_PUBLIC_URL } from './config.js';
+export {
+  hasScope,
+  resolvePrincipalScopes,
+  TOOL_SCOPES,
+  WRITE_SCOPES,
+  type ToolScope,
+  type WriteScope,
+} from './scopes.js';
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { hasScope, resolvePrincipalScopes } from './scopes.js';
+
+const authInfo = (scopes: string[]): { token: string; clientId: string; scopes: string[] } => ({
+  token: 'token',
+  clientId: 'client',
+  scopes,
+});
+
+describe('resolvePrincipalScopes', () => {
+  it('grants admin to unauthenticated local callers', () => {
+    expect(resolvePrincipalScopes(undefined, ['budget:read'])).toEqual(['admin']);
+  });
+
+  it('keeps only tool scopes from the token', () => {
+    expect(resolvePrincipalScopes(authInfo(['openid', 'budget:read', 'rules:write']), ['admin'])).toEqual([
+      'budget:read',
+      'rules:write',
+    ]);
+  });
+
+  it('falls back to the default scopes when the token has no tool scopes', () => {
+    expect(resolvePrincipalScopes(authInfo(['mcp:tools']), ['budget:read', 'bogus'])).toEqual(['budget:read']);
+  });
+
+  it('gives plain OIDC tokens read-only access by default', () => {
+    expect(resolvePrincipalScopes(authInfo(['openid', 'profile']))).toEqual(['budget:read']);
+  });
+});
+
+describe('hasScope', () => {
+  it('requires the exact scope unless the caller is admin', () => {
+    expect(hasScope(['budget:read'], 'budget:read')).toBe(true);
+    expect(hasScope(['budget:read'], 'transactions:write')).toBe(false);
+    expect(hasScope(['transactions:write'], 'budget:read')).toBe(false);
+    expect(hasScope(['admin'], 'rules:write')).toBe(true);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Permission scopes for MCP tools.
+ *
+ * Each tool requires one scope. Read tools need budget:read, write tools need the write scope
+ * of the data they change, and admin grants everything. Scopes come from the caller's
+ * access token (JWT scope/scp claim or introspection result).
+ */
+import { type AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { MCP_DEFAULT_SCOPES } from './config.js';
+
+export const WRITE_SCOPES = [
+  'accounts:write',
+  'transactions:write',
+  'categories:write',
+  'payees:write',
+  'rules:write',
+  'schedules:write',
+  'budget:write',
+] as const;
+
+export const TOOL_SCOPES = ['budget:read', ...WRITE_SCOPES, 'admin'] as const;
+
+export type WriteScope = (typeof WRITE_SCOPES)[number];
+export type ToolScope = (typeof TOOL_SCOPES)[number];
+
+const isToolScope = (scope: string): scope is ToolScope => (TOOL_SCOPES as readonly string[]).includes(scope);
+
+/**
+ * Resolves the tool scopes of the caller.
+ *
+ * Without auth info (stdio, or auth mode none) the caller is the server's operator and gets admin;
+ * --enable-write still decides whether write tools exist at all. Authenticated callers whose token
+ * has none of the tool scopes get the configured default scopes.
+ */
+export const resolvePrincipalScopes = (
+  authInfo: AuthInfo | undefined,
+  defaultScopes: string[] = MCP_DEFAULT_SCOPES
+): ToolScope[] => {
+  if (!authInfo) {
+    return ['admin'];
+  }
+  const granted = authInfo.scopes.filter(isToolScope);
+  return granted.length > 0 ? granted : defaultScopes.filter(isToolScope);
+};
+
+export const hasScope = (granted: ToolScope[], required: ToolScope): boolean =>
+  granted.includes('admin') || granted.includes(required);
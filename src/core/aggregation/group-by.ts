@@ -2,8 +2,8 @@
 import type { CategorySpending, GroupSpending } from '../types/domain.js';
 
 export class GroupAggregator {
-  aggregateAndSort(spendingByCategory: Record<string, CategorySpending>): GroupSpending[] {
-    const spendingByGroup: Record<string, GroupSpending> = {};
+  aggregateAndSort<T extends CategorySpending>(spendingByCategory: Record<string, T>): GroupSpending<T>[] {
+    const spendingByGroup: Record<string, GroupSpending<T>> = {};
     Object.values(spendingByCategory).forEach((category) => {
       if (!spendingByGroup[category.group]) {
         spendingByGroup[category.group] = {
@@ -16,7 +16,7 @@ export class GroupAggregator {
       spendingByGroup[category.group].categories.push(category);
     });
     // Sort groups by absolute total (descending)
-    const sortedGroups: GroupSpending[] = Object.values(spendingByGroup).sort(
+    const sortedGroups: GroupSpending<T>[] = Object.values(spendingByGroup).sort(
       (a, b) => Math.abs(b.total) - Math.abs(a.total)
     );
     // Sort categories within each group by absolute total (descending)
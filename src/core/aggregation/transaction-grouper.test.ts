@@ -1,5 +1,6 @@
 import { describe, it, expect, vi } from 'vitest';
 import { TransactionGrouper } from './transaction-grouper.js';
+import { TransferClassifier } from '../mapping/transfer-classifier.js';
 import type { Transaction, CategoryGroupInfo } from '../types/domain.js';
 
 describe('TransactionGrouper', () => {
@@ -161,6 +162,38 @@ describe('TransactionGrouper', () => {
     expect(result).not.toHaveProperty('undefined');
   });
 
+  it('should skip categorized transfers between on-budget accounts', () => {
+    const transfers = new TransferClassifier([
+      { id: 'acc1', name: 'Checking', offbudget: false },
+      { id: 'acc2', name: 'Savings', offbudget: false },
+      { id: 'acc3', name: 'Brokerage', offbudget: true },
+    ]);
+    const transactions: Transaction[] = [
+      {
+        id: '1',
+        account: 'acc1',
+        date: '2023-01-01',
+        amount: -100,
+        category: 'cat1',
+        transfer_id: '1b',
+        transfer_account: 'acc2',
+      },
+      {
+        id: '2',
+        account: 'acc1',
+        date: '2023-01-02',
+        amount: -50,
+        category: 'cat4',
+        transfer_id: '2b',
+        transfer_account: 'acc3',
+      },
+    ];
+
+    const result = grouper.groupByCategory(transactions, mockGetCategoryName, mockGetGroupInfo, false, transfers);
+
+    expect(Object.keys(result)).toEqual(['cat4']);
+  });
+
   it('should handle unknown categories with default group', () => {
     const transactionsWithUnknownCategory: Transaction[] = [
       {
@@ -262,4 +295,19 @@ describe('TransactionGrouper', () => {
       transactions: 2,
     });
   });
+
+  it('should group transactions by key and skip those without one', () => {
+    const transactions: Transaction[] = [
+      { id: '1', account: 'acc1', date: '2023-01-01', amount: -100, payee: 'p1' },
+      { id: '2', account: 'acc1', date: '2023-01-02', amount: -200 },
+      { id: '3', account: 'acc2', date: '2023-01-03', amount: -300, payee: 'p1' },
+      { id: '4', account: 'acc1', date: '2023-01-04', amount: -400, payee: 'p2' },
+    ];
+
+    const result = grouper.groupBy(transactions, (t) => t.payee);
+
+    expect(Object.keys(result)).toEqual(['p1', 'p2']);
+    expect(result['p1'].map((t) => t.id)).toEqual(['1', '3']);
+    expect(result['p2'].map((t) => t.id)).toEqual(['4']);
+  });
 });
@@ -1,16 +1,23 @@
-// Groups transactions by category and aggregates spending
+// Groups transactions by category (or any key) and aggregates spending
 import type { Transaction, CategorySpending, CategoryGroupInfo } from '../types/domain.js';
+import { TransferClassifier } from '../mapping/transfer-classifier.js';
 
 export class TransactionGrouper {
+  /**
+   * Sum transactions per category. Transfers between on-budget accounts are skipped: they move money
+   * inside the budget and would otherwise count once as spending and once as income.
+   */
   groupByCategory(
     transactions: Transaction[],
     getCategoryName: (categoryId: string) => string,
     getGroupInfo: (categoryId: string) => CategoryGroupInfo | undefined,
-    includeIncome: boolean
+    includeIncome: boolean,
+    transfers: TransferClassifier = new TransferClassifier([])
   ): Record<string, CategorySpending> {
     const spendingByCategory: Record<string, CategorySpending> = {};
     transactions.forEach((transaction) => {
       if (!transaction.category) return; // Skip uncategorized
+      if (transfers.isOnBudgetTransfer(transaction)) return;
       const categoryId = transaction.category;
       const categoryName = getCategoryName(categoryId);
       const group = getGroupInfo(categoryId) || {
@@ -34,4 +41,20 @@ export class TransactionGrouper {
     });
     return spendingByCategory;
   }
+
+  /**
+   * Group transactions under the key returned for each one (e.g. payee or category ID), skipping those without a key
+   */
+  groupBy(
+    transactions: Transaction[],
+    getKey: (transaction: Transaction) => string | undefined
+  ): Record<string, Transaction[]> {
+    const groups: Record<string, Transaction[]> = {};
+    transactions.forEach((transaction) => {
+      const key = getKey(transaction);
+      if (!key) return;
+      (groups[key] ??= []).push(transaction);
+    });
+    return groups;
+  }
 }
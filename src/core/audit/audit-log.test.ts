@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { AuditLog, compactAuditValue, type AuditEntry } from './audit-log.js';
+
+const entry = (timestamp: string, overrides: Partial<AuditEntry> = {}): AuditEntry => ({
+  timestamp,
+  clientId: 'client-a',
+  tool: 'update-transaction',
+  budgetId: 'budget-1',
+  arguments: { id: 'tx1', notes: 'lunch' },
+  entity: { type: 'transaction', id: 'tx1' },
+  before: { id: 'tx1', notes: '' },
+  after: { id: 'tx1', notes: 'lunch' },
+  result: { isError: false, text: 'Transaction updated' },
+  ...overrides,
+});
+
+describe('AuditLog', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'audit-log-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('appends entries as JSON lines and returns them newest first', async () => {
+    const log = new AuditLog({ filePath: path.join(dir, 'nested', 'audit.jsonl') });
+    await log.append(entry('2026-01-01T10:00:00.000Z'));
+    await log.append(entry('2026-01-02T10:00:00.000Z'));
+
+    const lines = (await fs.readFile(log.filePath, 'utf8')).trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect((await log.query()).map((e) => e.timestamp)).toEqual([
+      '2026-01-02T10:00:00.000Z',
+      '2026-01-01T10:00:00.000Z',
+    ]);
+  });
+
+  it('filters by date, tool, client and entity ID, including IDs only in the arguments', async () => {
+    const log = new AuditLog({ filePath: path.join(dir, 'audit.jsonl') });
+    await log.append(entry('2026-01-01T10:00:00.000Z'));
+    await log.append(
+      entry('2026-01-05T10:00:00.000Z', {
+        tool: 'merge-payees',
+        clientId: 'client-b',
+        arguments: { targetId: 'p1', sourceIds: ['p2', 'p3'] },
+        entity: { type: 'payee', id: 'p1' },
+      })
+    );
+
+    expect(await log.query({ startDate: '2026-01-02' })).toHaveLength(1);
+    expect(await log.query({ endDate: '2026-01-01' })).toHaveLength(1);
+    expect((await log.query({ tool: 'merge-payees' }))[0].clientId).toBe('client-b');
+    expect(await log.query({ clientId: 'client-a' })).toHaveLength(1);
+    expect((await log.query({ entityId: 'p3' }))[0].tool).toBe('merge-payees');
+    expect(await log.query({ entityId: 'p' })).toHaveLength(0);
+    expect(await log.query({ limit: 1 })).toHaveLength(1);
+  });
+
+  it('rotates by size, keeps maxFiles files and queries across them', async () => {
+    const filePath = path.join(dir, 'audit.jsonl');
+    const size = Buffer.byteLength(`${JSON.stringify(entry('2026-01-01T10:00:00.000Z'))}\n`);
+    const log = new AuditLog({ filePath, maxBytes: size * 2, maxFiles: 2 });
+
+    for (let day = 1; day <= 5; day++) {
+      await log.append(entry(`2026-01-0${day}T10:00:00.000Z`));
+    }
+
+    const files = (await fs.readdir(dir)).sort();
+    expect(files).toEqual(['audit.jsonl', 'audit.jsonl.1']);
+    expect((await log.query()).map((e) => e.timestamp.slice(0, 10))).toEqual([
+      '2026-01-05',
+      '2026-01-04',
+      '2026-01-03',
+    ]);
+  });
+
+  it('skips a partially written last line', async () => {
+    const log = new AuditLog({ filePath: path.join(dir, 'audit.jsonl') });
+    await log.append(entry('2026-01-01T10:00:00.000Z'));
+    await fs.appendFile(log.filePath, '{"timestamp":"2026-01-02', 'utf8');
+
+    expect(await log.query()).toHaveLength(1);
+  });
+});
+
+describe('compactAuditValue', () => {
+  it('replaces long strings with their length and hash, keeping everything else', () => {
+    const content = 'Date,Amount\n'.repeat(20);
+
+    const compacted = compactAuditValue({ accountId: 'acc1', content, dryRun: true, ids: ['a', content] }, 100) as {
+      content: unknown;
+      ids: unknown[];
+    };
+
+    expect(compacted).toMatchObject({ accountId: 'acc1', dryRun: true });
+    expect(compacted.content).toEqual({ length: content.length, sha256: expect.stringMatching(/^[0-9a-f]{64}$/) });
+    expect(compacted.ids).toEqual(['a', compacted.content]);
+  });
+});
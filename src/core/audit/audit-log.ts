@@ -0,0 +1,176 @@
+// Append-only JSON lines log of write operations, rotated by size
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { getDataDir } from '../../actual-api.js';
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 5;
+
+export type AuditEntityType =
+  | 'transaction'
+  | 'account'
+  | 'category'
+  | 'category-group'
+  | 'payee'
+  | 'rule'
+  | 'schedule'
+  | 'budget-category';
+
+export interface AuditEntity {
+  type: AuditEntityType;
+  id: string;
+  // Budget month (YYYY-MM) for budget-category entities
+  month?: string;
+}
+
+export interface AuditEntry {
+  timestamp: string;
+  // Client ID from the caller's access token; null without authentication
+  clientId: string | null;
+  tool: string;
+  budgetId: string | null;
+  arguments: Record<string, unknown>;
+  entity: AuditEntity | null;
+  before: unknown;
+  after: unknown;
+  result: { isError: boolean; text: string };
+}
+
+export interface AuditLogFilter {
+  // Inclusive YYYY-MM-DD dates, compared with the entry's UTC timestamp
+  startDate?: string;
+  endDate?: string;
+  tool?: string;
+  entityId?: string;
+  clientId?: string;
+  limit?: number;
+}
+
+export interface AuditLogOptions {
+  filePath?: string;
+  maxBytes?: number;
+  maxFiles?: number;
+}
+
+function readPositiveIntEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Copy of a value with strings longer than maxLength (e.g. an imported file's content) replaced by
+ * their length and SHA-256 hash, so entries stay small but still show what was sent
+ */
+export function compactAuditValue(value: unknown, maxLength: number): unknown {
+  if (typeof value === 'string') {
+    return value.length > maxLength
+      ? { length: value.length, sha256: createHash('sha256').update(value).digest('hex') }
+      : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => compactAuditValue(item, maxLength));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, compactAuditValue(item, maxLength)]));
+  }
+  return value;
+}
+
+// Arguments and results may contain the entity ID anywhere (e.g. merge-payees sourceIds), so search the serialized entry
+const mentionsEntity = (entry: AuditEntry, entityId: string): boolean =>
+  entry.entity?.id === entityId || JSON.stringify(entry.arguments).includes(`"${entityId}"`);
+
+export class AuditLog {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  // Settings are read on use so they pick up the environment loaded after startup
+  constructor(private readonly options: AuditLogOptions = {}) {}
+
+  get filePath(): string {
+    return (
+      this.options.filePath ?? process.env.MCP_AUDIT_LOG_PATH ?? path.join(getDataDir(), 'audit', 'audit-log.jsonl')
+    );
+  }
+
+  private get maxBytes(): number {
+    return this.options.maxBytes ?? readPositiveIntEnv('MCP_AUDIT_LOG_MAX_BYTES', DEFAULT_MAX_BYTES);
+  }
+
+  private get maxFiles(): number {
+    return this.options.maxFiles ?? readPositiveIntEnv('MCP_AUDIT_LOG_MAX_FILES', DEFAULT_MAX_FILES);
+  }
+
+  /**
+   * Append an entry, rotating first if it would push the file over the size limit.
+   * Appends are queued so concurrent calls never interleave or race a rotation.
+   */
+  append(entry: AuditEntry): Promise<void> {
+    const line = `${JSON.stringify(entry)}\n`;
+    const write = this.writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const size = await fs
+        .stat(this.filePath)
+        .then((stats) => stats.size)
+        .catch(() => 0);
+      if (size > 0 && size + Buffer.byteLength(line) > this.maxBytes) {
+        await this.rotate();
+      }
+      await fs.appendFile(this.filePath, line, 'utf8');
+    });
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Read matching entries across the current and rotated files, newest first
+   */
+  async query(filter: AuditLogFilter = {}): Promise<AuditEntry[]> {
+    await this.writeQueue;
+    const matches: AuditEntry[] = [];
+    const limit = filter.limit ?? Infinity;
+
+    for (const file of this.files()) {
+      const content = await fs.readFile(file, 'utf8').catch(() => '');
+      const entries = content
+        .split('\n')
+        .filter((line) => line.trim() !== '')
+        .flatMap((line) => {
+          try {
+            return [JSON.parse(line) as AuditEntry];
+          } catch {
+            // A crash mid-append can leave a partial last line
+            return [];
+          }
+        })
+        .reverse();
+
+      for (const entry of entries) {
+        const date = entry.timestamp.slice(0, 10);
+        if (filter.startDate && date < filter.startDate) continue;
+        if (filter.endDate && date > filter.endDate) continue;
+        if (filter.tool && entry.tool !== filter.tool) continue;
+        if (filter.clientId && entry.clientId !== filter.clientId) continue;
+        if (filter.entityId && !mentionsEntity(entry, filter.entityId)) continue;
+        matches.push(entry);
+        if (matches.length >= limit) return matches;
+      }
+    }
+    return matches;
+  }
+
+  // Current file first, then audit-log.jsonl.1 (newest rotated) up to the oldest kept
+  private files(): string[] {
+    return [this.filePath, ...Array.from({ length: this.maxFiles - 1 }, (_, i) => `${this.filePath}.${i + 1}`)];
+  }
+
+  private async rotate(): Promise<void> {
+    const files = this.files();
+    await fs.rm(files[files.length - 1], { force: true });
+    for (let i = files.length - 2; i >= 0; i--) {
+      await fs.rename(files[i], files[i + 1]).catch(() => undefined);
+    }
+  }
+}
+
+export const auditLog = new AuditLog();
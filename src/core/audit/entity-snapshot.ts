@@ -0,0 +1,38 @@
+// Loads the current state of an audited entity for before/after snapshots
+import { getTransaction } from '../../actual-api.js';
+import { fetchAllAccounts } from '../data/fetch-accounts.js';
+import { fetchBudgetMonth } from '../data/fetch-budget.js';
+import { fetchAllCategories, fetchAllCategoryGroups } from '../data/fetch-categories.js';
+import { fetchAllPayees } from '../data/fetch-payees.js';
+import { fetchAllRules } from '../data/fetch-rules.js';
+import { fetchAllSchedules } from '../data/fetch-schedules.js';
+import type { AuditEntity } from './audit-log.js';
+
+/**
+ * Return the entity as stored now, or null when it does not exist (e.g. before a create or after a delete)
+ */
+export async function fetchEntitySnapshot(entity: AuditEntity): Promise<unknown> {
+  const byId = <T extends { id: string }>(list: T[]): T | null => list.find((item) => item.id === entity.id) ?? null;
+
+  switch (entity.type) {
+    case 'transaction':
+      return getTransaction(entity.id);
+    case 'account':
+      return byId(await fetchAllAccounts());
+    case 'category':
+      return byId(await fetchAllCategories());
+    case 'category-group':
+      return byId(await fetchAllCategoryGroups());
+    case 'payee':
+      return byId(await fetchAllPayees());
+    case 'rule':
+      return byId(await fetchAllRules());
+    case 'schedule':
+      return byId(await fetchAllSchedules());
+    case 'budget-category': {
+      if (!entity.month) return null;
+      const budgetMonth = await fetchBudgetMonth(entity.month);
+      return byId(budgetMonth.categoryGroups.flatMap((group) => group.categories));
+    }
+  }
+}
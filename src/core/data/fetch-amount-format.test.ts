@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { fetchAmountFormat } from './fetch-amount-format.js';
+import { formatAmount, parseAmountToInteger } from '../../utils.js';
+
+// CRITICAL: Mock before imports
+vi.mock('../../actual-api.js', () => ({
+  getBudgetPreferences: vi.fn(),
+}));
+
+import { getBudgetPreferences } from '../../actual-api.js';
+
+describe('fetchAmountFormat', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('ACTUAL_CURRENCY_CODE', '');
+    vi.stubEnv('ACTUAL_LOCALE', '');
+    vi.stubEnv('ACTUAL_CURRENCY_DECIMALS', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should default to USD in en-US when the budget has no preferences', async () => {
+    vi.mocked(getBudgetPreferences).mockResolvedValue({});
+
+    const result = await fetchAmountFormat();
+
+    expect(result).toEqual({ currency: 'USD', locale: 'en-US', decimalPlaces: 2 });
+  });
+
+  it('should use the budget currency and number format', async () => {
+    vi.mocked(getBudgetPreferences).mockResolvedValue({ defaultCurrencyCode: 'JPY', numberFormat: 'dot-comma' });
+
+    const result = await fetchAmountFormat();
+
+    expect(result).toEqual({ currency: 'JPY', locale: 'de-DE', decimalPlaces: 0 });
+  });
+
+  it('should let environment variables override the budget preferences', async () => {
+    vi.stubEnv('ACTUAL_CURRENCY_CODE', 'eur');
+    vi.stubEnv('ACTUAL_LOCALE', 'fr-FR');
+    vi.mocked(getBudgetPreferences).mockResolvedValue({ defaultCurrencyCode: 'JPY', numberFormat: 'comma-dot' });
+
+    const result = await fetchAmountFormat();
+
+    expect(result).toEqual({ currency: 'EUR', locale: 'fr-FR', decimalPlaces: 2 });
+  });
+
+  it('should honour ACTUAL_CURRENCY_DECIMALS', async () => {
+    vi.stubEnv('ACTUAL_CURRENCY_DECIMALS', '3');
+    vi.mocked(getBudgetPreferences).mockResolvedValue({ defaultCurrencyCode: 'JPY' });
+
+    const result = await fetchAmountFormat();
+
+    expect(result.decimalPlaces).toBe(3);
+  });
+
+  it('should reject invalid decimal places', async () => {
+    vi.stubEnv('ACTUAL_CURRENCY_DECIMALS', 'two');
+    vi.mocked(getBudgetPreferences).mockResolvedValue({});
+
+    await expect(fetchAmountFormat()).rejects.toThrow('ACTUAL_CURRENCY_DECIMALS');
+  });
+
+  it('should produce a format that formats and parses zero-decimal currencies', async () => {
+    vi.mocked(getBudgetPreferences).mockResolvedValue({ defaultCurrencyCode: 'JPY', numberFormat: 'comma-dot' });
+
+    const format = await fetchAmountFormat();
+
+    expect(formatAmount(-1500, format)).toBe('-¥1,500');
+    expect(parseAmountToInteger('1,500', format)).toBe(1500);
+  });
+
+  it('should parse amounts using the locale decimal separator', async () => {
+    vi.mocked(getBudgetPreferences).mockResolvedValue({ defaultCurrencyCode: 'EUR', numberFormat: 'dot-comma' });
+
+    const format = await fetchAmountFormat();
+
+    expect(parseAmountToInteger('-1.234,56 €', format)).toBe(-123456);
+  });
+});
@@ -0,0 +1,21 @@
+import { getBudgetPreferences } from '../../actual-api.js';
+import { getCurrencyDecimalPlaces, resolveAmountFormat, type AmountFormat } from '../../utils.js';
+
+// Actual's numberFormat preference names the thousands/decimal separators; map each to a locale using them
+const NUMBER_FORMAT_LOCALES: Record<string, string> = {
+  'comma-dot': 'en-US',
+  'dot-comma': 'de-DE',
+  'space-comma': 'fr-FR',
+  'apostrophe-dot': 'de-CH',
+  'comma-dot-in': 'en-IN',
+};
+
+export async function fetchAmountFormat(): Promise<AmountFormat> {
+  const preferences = await getBudgetPreferences();
+  const currency = preferences.defaultCurrencyCode || undefined;
+  return resolveAmountFormat({
+    currency,
+    locale: NUMBER_FORMAT_LOCALES[preferences.numberFormat],
+    decimalPlaces: currency ? getCurrencyDecimalPlaces(currency) : undefined,
+  });
+}
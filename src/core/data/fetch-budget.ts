@@ -0,0 +1,14 @@
+import { getBudgetMonth } from '../../actual-api.js';
+import type { BudgetMonth } from '../types/domain.js';
+
+export async function fetchBudgetMonth(month: string): Promise<BudgetMonth> {
+  return getBudgetMonth(month);
+}
+
+export async function fetchBudgetMonthsInRange(months: string[]): Promise<BudgetMonth[]> {
+  const budgetMonths: BudgetMonth[] = [];
+  for (const month of months) {
+    budgetMonths.push(await getBudgetMonth(month));
+  }
+  return budgetMonths;
+}
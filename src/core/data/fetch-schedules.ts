@@ -0,0 +1,6 @@
+import { APIScheduleEntity } from '@actual-app/api/@types/loot-core/src/server/api-models.js';
+import { getSchedules } from '../../actual-api.js';
+
+export async function fetchAllSchedules(): Promise<APIScheduleEntity[]> {
+  return getSchedules();
+}
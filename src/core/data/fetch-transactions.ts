@@ -1,4 +1,4 @@
-import { getTransactions } from '../../actual-api.js';
+import { getTransaction, getTransactions } from '../../actual-api.js';
 import { fetchAllPayees } from './fetch-payees.js';
 import { fetchAllCategories } from './fetch-categories.js';
 import { GroupAggregator } from '../aggregation/group-by.js';
@@ -62,6 +62,11 @@ async function _enrichTransactions(transactions: TransactionEntity[]): Promise<T
       enriched.category_name = categoryName;
     }
 
+    const transferAccount = needsPayees && transaction.payee ? payeesById[transaction.payee]?.transfer_acct : undefined;
+    if (transferAccount) {
+      enriched.transfer_account = transferAccount;
+    }
+
     return enriched;
   });
 }
@@ -97,3 +102,17 @@ export async function fetchAllTransactions(accounts: Account[], start: string, e
   }
   return _enrichTransactions(transactions);
 }
+
+/**
+ * Fetch transactions by ID; IDs that do not exist are left out of the result
+ */
+export async function fetchTransactionsByIds(ids: string[]): Promise<Transaction[]> {
+  const transactions: TransactionEntity[] = [];
+  for (const id of ids) {
+    const transaction = await getTransaction(id);
+    if (transaction) {
+      transactions.push(transaction);
+    }
+  }
+  return _enrichTransactions(transactions);
+}
@@ -2,9 +2,12 @@
 export * from './input/argument-parser.js';
 export * from './input/validators.js';
 export * from './data/fetch-accounts.js';
+export * from './data/fetch-amount-format.js';
+export * from './data/fetch-budget.js';
 export * from './data/fetch-categories.js';
 export * from './data/fetch-payees.js';
 export * from './data/fetch-rules.js';
+export * from './data/fetch-schedules.js';
 export * from './data/fetch-transactions.js';
 export * from './aggregation/group-by.js';
 export * from './aggregation/sum-by.js';
@@ -12,4 +15,9 @@ export * from './aggregation/sort-by.js';
 export * from './mapping/category-mapper.js';
 export * from './mapping/transaction-mapper.js';
 export * from './mapping/category-classifier.js';
+export * from './mapping/transfer-classifier.js';
+export * from './rules/rule-engine.js';
+export * from './recurring/recurring-detector.js';
+export * from './audit/audit-log.js';
+export * from './audit/entity-snapshot.js';
 export * from './types/domain.js';
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { TransactionMapper } from './transaction-mapper.js';
+import { TransactionOutputSchema } from '../../types.js';
+
+describe('TransactionMapper', () => {
+  const mapper = new TransactionMapper();
+
+  it('should keep raw amounts and IDs next to resolved names', () => {
+    const result = mapper.toOutput({
+      id: 't1',
+      account: 'acc1',
+      date: '2024-03-05',
+      amount: -12345,
+      payee: 'p1',
+      payee_name: 'Grocer',
+      category: 'cat1',
+      category_name: 'Groceries',
+      notes: 'weekly shop',
+      cleared: true,
+    });
+
+    expect(result).toEqual({
+      id: 't1',
+      accountId: 'acc1',
+      date: '2024-03-05',
+      amount: -12345,
+      payeeId: 'p1',
+      payee: 'Grocer',
+      categoryId: 'cat1',
+      category: 'Groceries',
+      notes: 'weekly shop',
+      cleared: true,
+      transferId: null,
+    });
+  });
+
+  it('should use null for missing optional fields so the output matches its schema', () => {
+    const result = mapper.toOutput({ id: 't2', account: 'acc1', date: '2024-03-06', amount: 500 });
+
+    expect(result.payeeId).toBeNull();
+    expect(result.category).toBeNull();
+    expect(result.cleared).toBe(false);
+    expect(TransactionOutputSchema.strict().parse(result)).toEqual(result);
+  });
+});
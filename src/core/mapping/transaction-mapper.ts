@@ -1,2 +1,22 @@
 // Shared transaction mapping logic
-export {};
+import type { TransactionOutput } from '../../types.js';
+import type { Transaction } from '../types/domain.js';
+
+export class TransactionMapper {
+  // Raw transaction fields for structured tool output, with IDs kept next to resolved names
+  toOutput(transaction: Transaction): TransactionOutput {
+    return {
+      id: transaction.id,
+      accountId: transaction.account,
+      date: transaction.date,
+      amount: transaction.amount,
+      payeeId: transaction.payee ?? null,
+      payee: transaction.payee_name ?? null,
+      categoryId: transaction.category ?? null,
+      category: transaction.category_name ?? null,
+      notes: transaction.notes ?? null,
+      cleared: transaction.cleared ?? false,
+      transferId: transaction.transfer_id ?? null,
+    };
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { TransferClassifier } from './transfer-classifier.js';
+import type { Account, Transaction } from '../types/domain.js';
+
+const accounts: Account[] = [
+  { id: 'checking', name: 'Checking', offbudget: false, closed: false },
+  { id: 'savings', name: 'Savings', offbudget: false, closed: false },
+  { id: 'brokerage', name: 'Brokerage', offbudget: true, closed: false },
+];
+
+const tx = (overrides: Partial<Transaction>): Transaction => ({
+  id: 't1',
+  account: 'checking',
+  date: '2026-01-10',
+  amount: -5000,
+  ...overrides,
+});
+
+describe('TransferClassifier', () => {
+  const classifier = new TransferClassifier(accounts);
+
+  it('flags transfers between two on-budget accounts', () => {
+    expect(classifier.isOnBudgetTransfer(tx({ transfer_id: 't2', transfer_account: 'savings' }))).toBe(true);
+  });
+
+  it('keeps transfers to off-budget accounts and regular transactions', () => {
+    expect(
+      classifier.isOnBudgetTransfer(tx({ transfer_id: 't2', transfer_account: 'brokerage', category: 'invest' }))
+    ).toBe(false);
+    expect(classifier.isOnBudgetTransfer(tx({ category: 'groceries' }))).toBe(false);
+  });
+
+  it('falls back to the missing category when the other account is unknown', () => {
+    const unknown = new TransferClassifier([]);
+    expect(unknown.isOnBudgetTransfer(tx({ transfer_id: 't2' }))).toBe(true);
+    expect(unknown.isOnBudgetTransfer(tx({ transfer_id: 't2', category: 'invest' }))).toBe(false);
+  });
+});
@@ -0,0 +1,31 @@
+// Tells transfers that only move money inside the budget apart from income and expenses
+import type { Account, Transaction } from '../types/domain.js';
+
+export class TransferClassifier {
+  private readonly accountIds: Set<string>;
+  private readonly onBudgetAccountIds: Set<string>;
+
+  constructor(accounts: Account[]) {
+    this.accountIds = new Set(accounts.map((account) => account.id));
+    this.onBudgetAccountIds = new Set(accounts.filter((account) => !account.offbudget).map((account) => account.id));
+  }
+
+  isTransfer(transaction: Transaction): boolean {
+    return Boolean(transaction.transfer_id || transaction.transfer_account);
+  }
+
+  /**
+   * Whether the transaction is a leg of a transfer between two on-budget accounts, which is neither income nor expense.
+   * When either account is unknown, falls back to Actual's own rule: it clears the category of such transfers.
+   */
+  isOnBudgetTransfer(transaction: Transaction): boolean {
+    if (!this.isTransfer(transaction)) {
+      return false;
+    }
+    const counterpart = transaction.transfer_account;
+    if (counterpart && this.accountIds.has(counterpart) && this.accountIds.has(transaction.account)) {
+      return this.onBudgetAccountIds.has(transaction.account) && this.onBudgetAccountIds.has(counterpart);
+    }
+    return !transaction.category;
+  }
+}
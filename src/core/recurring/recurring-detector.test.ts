@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { RecurringTransactionDetector } from './recurring-detector.js';
+import type { Transaction } from '../types/domain.js';
+
+const tx = (id: string, date: string, amount: number, overrides: Partial<Transaction> = {}): Transaction => ({
+  id,
+  account: 'acc1',
+  date,
+  amount,
+  payee: 'netflix',
+  category: 'cat1',
+  ...overrides,
+});
+
+describe('RecurringTransactionDetector', () => {
+  const detector = new RecurringTransactionDetector();
+
+  it('detects a monthly series and its next date', () => {
+    const series = detector.detect(
+      [
+        tx('t1', '2024-01-15', -1599),
+        tx('t2', '2024-02-15', -1599),
+        tx('t3', '2024-03-16', -1599),
+        tx('t4', '2024-04-15', -1799),
+      ],
+      { asOf: '2024-04-20' }
+    );
+
+    expect(series).toHaveLength(1);
+    expect(series[0]).toMatchObject({
+      payeeId: 'netflix',
+      accountId: 'acc1',
+      categoryId: 'cat1',
+      cadence: 'monthly',
+      lastAmount: -1799,
+      averageAmount: -1649,
+      lastDate: '2024-04-15',
+      nextDate: '2024-05-15',
+      active: true,
+    });
+  });
+
+  it('detects weekly and biweekly cadences', () => {
+    const weekly = ['2024-03-01', '2024-03-08', '2024-03-15', '2024-03-22'].map((date, i) =>
+      tx(`w${i}`, date, -2000, { payee: 'gym' })
+    );
+    const biweekly = ['2024-02-02', '2024-02-16', '2024-03-01', '2024-03-15'].map((date, i) =>
+      tx(`b${i}`, date, 250000, { payee: 'employer' })
+    );
+
+    const series = detector.detect([...weekly, ...biweekly], { asOf: '2024-03-23' });
+
+    expect(series.map((s) => [s.payeeId, s.cadence])).toEqual([
+      ['employer', 'biweekly'],
+      ['gym', 'weekly'],
+    ]);
+  });
+
+  it('ignores irregular payees, transfers and groups with too few occurrences', () => {
+    const series = detector.detect(
+      [
+        tx('t1', '2024-01-03', -4500, { payee: 'grocer' }),
+        tx('t2', '2024-01-09', -12000, { payee: 'grocer' }),
+        tx('t3', '2024-02-21', -3000, { payee: 'grocer' }),
+        tx('t4', '2024-03-01', -50000, { payee: 'savings', transfer_id: 'x1' }),
+        tx('t5', '2024-04-01', -50000, { payee: 'savings', transfer_id: 'x2' }),
+        tx('t6', '2024-05-01', -50000, { payee: 'savings', transfer_id: 'x3' }),
+        tx('t7', '2024-01-10', -999, { payee: 'app' }),
+        tx('t8', '2024-02-10', -999, { payee: 'app' }),
+      ],
+      { asOf: '2024-05-02' }
+    );
+
+    expect(series).toEqual([]);
+  });
+
+  it('marks a series inactive once its next date has passed', () => {
+    const series = detector.detect(
+      [tx('t1', '2024-01-05', -999), tx('t2', '2024-02-05', -999), tx('t3', '2024-03-05', -999)],
+      { asOf: '2024-05-01' }
+    );
+
+    expect(series[0].active).toBe(false);
+  });
+
+  it('projects dates without drifting off month ends', () => {
+    const [series] = detector.detect(
+      [tx('t1', '2023-11-30', -999), tx('t2', '2023-12-31', -999), tx('t3', '2024-01-31', -999)],
+      { asOf: '2024-02-01' }
+    );
+
+    expect(detector.projectDates(series, '2024-02-01', '2024-05-31')).toEqual([
+      '2024-02-29',
+      '2024-03-31',
+      '2024-04-30',
+      '2024-05-31',
+    ]);
+  });
+});
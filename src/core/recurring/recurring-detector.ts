@@ -0,0 +1,157 @@
+// Detects recurring transactions (same payee and account at a regular cadence with stable amounts)
+import type { Transaction } from '../types/domain.js';
+
+export type RecurringCadence = 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export interface RecurringOccurrence {
+  id: string;
+  date: string;
+  amount: number;
+}
+
+export interface RecurringSeries {
+  payeeId: string;
+  accountId: string;
+  categoryId: string | null;
+  cadence: RecurringCadence;
+  // Oldest first
+  occurrences: RecurringOccurrence[];
+  averageAmount: number;
+  lastAmount: number;
+  lastDate: string;
+  nextDate: string;
+  // False when the next expected date passed without a matching transaction
+  active: boolean;
+}
+
+export interface RecurringDetectionOptions {
+  minOccurrences?: number;
+  asOf?: string;
+}
+
+interface CadenceDefinition {
+  cadence: RecurringCadence;
+  days: number;
+  tolerance: number;
+  step: { days?: number; months?: number };
+}
+
+const CADENCES: CadenceDefinition[] = [
+  { cadence: 'weekly', days: 7, tolerance: 2, step: { days: 7 } },
+  { cadence: 'biweekly', days: 14, tolerance: 3, step: { days: 14 } },
+  { cadence: 'monthly', days: 30.4, tolerance: 5, step: { months: 1 } },
+  { cadence: 'quarterly', days: 91, tolerance: 12, step: { months: 3 } },
+  { cadence: 'yearly', days: 365, tolerance: 20, step: { months: 12 } },
+];
+
+// Share of intervals/amount steps that must fit the pattern; leaves room for one late or changed charge
+const REGULARITY_THRESHOLD = 0.75;
+// Largest relative change between consecutive amounts that still counts as the same charge (e.g. a price increase)
+const MAX_AMOUNT_STEP = 0.35;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const toUtcDate = (date: string): Date => new Date(`${date}T00:00:00Z`);
+const toDateString = (date: Date): string => date.toISOString().slice(0, 10);
+const daysBetween = (from: string, to: string): number =>
+  Math.round((toUtcDate(to).getTime() - toUtcDate(from).getTime()) / DAY_MS);
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+export class RecurringTransactionDetector {
+  detect(transactions: Transaction[], options: RecurringDetectionOptions = {}): RecurringSeries[] {
+    const minOccurrences = options.minOccurrences ?? 3;
+    const asOf = options.asOf ?? toDateString(new Date());
+
+    // # Reason: Transfers move money between own accounts, and split children are already counted in their parent.
+    const candidates = transactions.filter((t) => t.payee && !t.transfer_id && !t.parent_id);
+    const byPayeeAndAccount = new Map<string, Transaction[]>();
+    candidates.forEach((t) => {
+      const key = `${t.payee}|${t.account}`;
+      byPayeeAndAccount.set(key, [...(byPayeeAndAccount.get(key) ?? []), t]);
+    });
+
+    const series: RecurringSeries[] = [];
+    byPayeeAndAccount.forEach((group) => {
+      const detected = this.detectSeries(group, minOccurrences, asOf);
+      if (detected) series.push(detected);
+    });
+
+    return series.sort((a, b) => a.nextDate.localeCompare(b.nextDate) || a.payeeId.localeCompare(b.payeeId));
+  }
+
+  /**
+   * Return the expected dates (YYYY-MM-DD) of a series within [from, to], continuing from its next expected date
+   */
+  projectDates(series: RecurringSeries, from: string, to: string): string[] {
+    const cadence = CADENCES.find((c) => c.cadence === series.cadence)!;
+    const dates: string[] = [];
+    for (let n = 0; ; n++) {
+      const date = this.advance(series.lastDate, cadence, n + 1);
+      if (date > to) break;
+      if (date >= from) dates.push(date);
+    }
+    return dates;
+  }
+
+  private detectSeries(transactions: Transaction[], minOccurrences: number, asOf: string): RecurringSeries | null {
+    // Charges on the same day (e.g. split payments) count as one occurrence
+    const byDate = new Map<string, RecurringOccurrence>();
+    [...transactions]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .forEach((t) => {
+        const existing = byDate.get(t.date);
+        byDate.set(t.date, existing ? { ...existing, amount: existing.amount + t.amount } : { ...t });
+      });
+    const occurrences = Array.from(byDate.values()).map(({ id, date, amount }) => ({ id, date, amount }));
+    if (occurrences.length < minOccurrences) return null;
+
+    const intervals = occurrences.slice(1).map((o, i) => daysBetween(occurrences[i].date, o.date));
+    const typical = median(intervals);
+    const cadence = CADENCES.find((c) => Math.abs(typical - c.days) <= c.tolerance);
+    if (!cadence) return null;
+
+    const regular = intervals.filter((days) => Math.abs(days - cadence.days) <= cadence.tolerance).length;
+    if (regular / intervals.length < REGULARITY_THRESHOLD) return null;
+
+    const amounts = occurrences.map((o) => o.amount);
+    if (!amounts.every((a) => Math.sign(a) === Math.sign(amounts[0]))) return null;
+    const stableSteps = amounts
+      .slice(1)
+      .filter((amount, i) => Math.abs(amount - amounts[i]) <= Math.abs(amounts[i]) * MAX_AMOUNT_STEP).length;
+    if (stableSteps / (amounts.length - 1) < REGULARITY_THRESHOLD) return null;
+
+    const last = transactions.reduce((latest, t) => (t.date >= latest.date ? t : latest));
+    const lastDate = occurrences[occurrences.length - 1].date;
+    const nextDate = this.advance(lastDate, cadence, 1);
+
+    return {
+      payeeId: last.payee!,
+      accountId: last.account,
+      categoryId: last.category ?? null,
+      cadence: cadence.cadence,
+      occurrences,
+      averageAmount: Math.round(amounts.reduce((sum, a) => sum + a, 0) / amounts.length),
+      lastAmount: amounts[amounts.length - 1],
+      lastDate,
+      nextDate,
+      active: daysBetween(nextDate, asOf) <= cadence.tolerance,
+    };
+  }
+
+  // Step whole months from the original date so month-end charges don't drift (Jan 31 -> Feb 28 -> Mar 31)
+  private advance(date: string, cadence: CadenceDefinition, count: number): string {
+    const start = toUtcDate(date);
+    if (cadence.step.days) {
+      return toDateString(new Date(start.getTime() + cadence.step.days * count * DAY_MS));
+    }
+    const months = (cadence.step.months ?? 1) * count;
+    const target = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(start.getUTCDate(), lastDay));
+    return toDateString(target);
+  }
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { RuleEngine, toRuleFields, type EvaluableRule } from './rule-engine.js';
+import type { Transaction } from '../types/domain.js';
+
+describe('RuleEngine', () => {
+  const engine = new RuleEngine([
+    { id: 'checking', name: 'Checking' },
+    { id: 'brokerage', name: 'Brokerage', offbudget: true },
+  ]);
+
+  const transaction: Transaction = {
+    id: 't1',
+    account: 'checking',
+    date: '2024-03-10',
+    amount: -5230,
+    payee: 'p-amazon',
+    imported_payee: 'AMZN Mktp US*2K1',
+    notes: 'Birthday gift #gifts',
+  };
+
+  const rule = (overrides: Partial<EvaluableRule>): EvaluableRule => ({
+    stage: null,
+    conditionsOp: 'and',
+    conditions: [],
+    actions: [{ field: 'category', op: 'set', value: 'cat-shopping' }],
+    ...overrides,
+  });
+
+  it('should match text conditions case-insensitively', () => {
+    const fields = toRuleFields(transaction);
+
+    expect(engine.matchesCondition({ field: 'imported_payee', op: 'contains', value: 'amzn mktp' }, fields)).toBe(true);
+    expect(engine.matchesCondition({ field: 'imported_payee', op: 'matches', value: '^amzn.*\\*' }, fields)).toBe(true);
+    expect(engine.matchesCondition({ field: 'notes', op: 'hasTags', value: '#gifts' }, fields)).toBe(true);
+  });
+
+  it('should handle amount direction options and approximate/between amounts', () => {
+    const fields = toRuleFields(transaction);
+
+    expect(
+      engine.matchesCondition({ field: 'amount', op: 'gt', value: 5000, options: { outflow: true } }, fields)
+    ).toBe(true);
+    expect(engine.matchesCondition({ field: 'amount', op: 'gt', value: 0, options: { inflow: true } }, fields)).toBe(
+      false
+    );
+    expect(engine.matchesCondition({ field: 'amount', op: 'isapprox', value: -5000 }, fields)).toBe(true);
+    expect(engine.matchesCondition({ field: 'amount', op: 'isapprox', value: -4500 }, fields)).toBe(false);
+    expect(
+      engine.matchesCondition({ field: 'amount', op: 'isbetween', value: { num1: -6000, num2: -5000 } }, fields)
+    ).toBe(true);
+  });
+
+  it('should evaluate account budget conditions and oneOf lists', () => {
+    const fields = toRuleFields(transaction);
+
+    expect(engine.matchesCondition({ field: 'account', op: 'onBudget', value: '' }, fields)).toBe(true);
+    expect(engine.matchesCondition({ field: 'account', op: 'offBudget', value: '' }, fields)).toBe(false);
+    expect(engine.matchesCondition({ field: 'payee', op: 'oneOf', value: ['p-other', 'p-amazon'] }, fields)).toBe(true);
+  });
+
+  it('should combine conditions with and/or', () => {
+    const conditions = [
+      { field: 'payee' as const, op: 'is' as const, value: 'p-amazon' },
+      { field: 'amount' as const, op: 'gt' as const, value: 0 },
+    ];
+
+    expect(engine.run([rule({ conditions })], transaction).matchedRuleIds).toEqual([]);
+    expect(engine.run([rule({ id: 'r1', conditions, conditionsOp: 'or' })], transaction).matchedRuleIds).toEqual([
+      'r1',
+    ]);
+  });
+
+  it('should run rules in stage order and report only changed fields', () => {
+    const payeeCondition = { field: 'payee' as const, op: 'is' as const, value: 'p-amazon' };
+    const result = engine.run(
+      [
+        rule({
+          id: 'post',
+          stage: 'post',
+          conditions: [{ field: 'category', op: 'is', value: 'cat-gifts' }],
+          actions: [{ field: 'notes', op: 'append-notes', value: ' (reviewed)' }],
+        }),
+        rule({
+          id: 'pre',
+          stage: 'pre',
+          conditions: [payeeCondition],
+          actions: [{ field: 'category', op: 'set', value: 'cat-gifts' }],
+        }),
+        rule({
+          id: 'split',
+          conditions: [payeeCondition],
+          actions: [{ field: null, op: 'set-split-amount', value: 100 }],
+        }),
+      ],
+      transaction
+    );
+
+    expect(result.matchedRuleIds).toEqual(['pre', 'split', 'post']);
+    expect(result.changes).toEqual({ category: 'cat-gifts', notes: 'Birthday gift #gifts (reviewed)' });
+    expect(result.skippedActions).toEqual(['Split actions are not applied to existing transactions']);
+  });
+});
@@ -0,0 +1,229 @@
+// Evaluates rule conditions and actions against transactions, mirroring Actual's rule semantics
+import type { RuleAction, RuleCondition } from '../../types.js';
+import type { Account, Transaction } from '../types/domain.js';
+
+export interface EvaluableRule {
+  id?: string;
+  stage: 'pre' | 'post' | null;
+  conditionsOp: 'and' | 'or';
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+}
+
+// Transaction fields that rule conditions can read and actions can write
+export interface RuleFields {
+  account: string;
+  category: string | null;
+  date: string;
+  payee: string | null;
+  amount: number;
+  imported_payee: string | null;
+  notes: string | null;
+  cleared: boolean;
+}
+
+export interface RuleRunResult {
+  before: RuleFields;
+  after: RuleFields;
+  changes: Partial<RuleFields>;
+  matchedRuleIds: string[];
+  skippedActions: string[];
+}
+
+const STAGE_ORDER: Record<string, number> = { pre: 0, default: 1, post: 2 };
+
+// Amounts and dates within these margins match `isapprox` (same thresholds as Actual)
+const APPROX_AMOUNT_RATIO = 0.075;
+const APPROX_DATE_DAYS = 2;
+
+const lower = (value: unknown): string => String(value ?? '').toLowerCase();
+
+const dayDifference = (a: string, b: string): number =>
+  Math.abs(new Date(`${a}T00:00:00Z`).getTime() - new Date(`${b}T00:00:00Z`).getTime()) / 86400000;
+
+export function toRuleFields(transaction: Transaction): RuleFields {
+  return {
+    account: transaction.account,
+    category: transaction.category ?? null,
+    date: transaction.date,
+    payee: transaction.payee ?? null,
+    amount: transaction.amount,
+    imported_payee: transaction.imported_payee ?? null,
+    notes: transaction.notes ?? null,
+    cleared: transaction.cleared ?? false,
+  };
+}
+
+export class RuleEngine {
+  private accountsById: Map<string, Account>;
+
+  constructor(accounts: Account[] = []) {
+    this.accountsById = new Map(accounts.map((account) => [account.id, account]));
+  }
+
+  /**
+   * Order rules the way Actual runs them: pre-stage rules, then default, then post-stage
+   */
+  sortByStage<T extends EvaluableRule>(rules: T[]): T[] {
+    return [...rules].sort(
+      (a, b) => (STAGE_ORDER[a.stage ?? 'default'] ?? 1) - (STAGE_ORDER[b.stage ?? 'default'] ?? 1)
+    );
+  }
+
+  /**
+   * Run rules in order over a transaction. Each matching rule sees the output of the previous ones.
+   */
+  run(rules: EvaluableRule[], transaction: Transaction): RuleRunResult {
+    const before = toRuleFields(transaction);
+    let after = { ...before };
+    const matchedRuleIds: string[] = [];
+    const skippedActions: string[] = [];
+
+    this.sortByStage(rules).forEach((rule) => {
+      if (!this.matches(rule, after)) return;
+      matchedRuleIds.push(rule.id ?? 'preview');
+      const applied = this.applyActions(rule.actions, after);
+      after = applied.fields;
+      skippedActions.push(...applied.skipped);
+    });
+
+    const changes: Partial<RuleFields> = {};
+    (Object.keys(after) as Array<keyof RuleFields>).forEach((field) => {
+      if (after[field] !== before[field]) {
+        (changes as Record<string, unknown>)[field] = after[field];
+      }
+    });
+
+    return { before, after, changes, matchedRuleIds, skippedActions };
+  }
+
+  matches(rule: EvaluableRule, fields: RuleFields): boolean {
+    if (rule.conditions.length === 0) return false;
+    return rule.conditionsOp === 'or'
+      ? rule.conditions.some((condition) => this.matchesCondition(condition, fields))
+      : rule.conditions.every((condition) => this.matchesCondition(condition, fields));
+  }
+
+  matchesCondition(condition: RuleCondition, fields: RuleFields): boolean {
+    const { op, value, options } = condition;
+    let fieldValue: unknown = fields[condition.field];
+
+    if (condition.field === 'amount' && typeof fieldValue === 'number') {
+      // # Reason: Inflow/outflow conditions compare against a positive value for the given direction only.
+      if (options?.outflow) {
+        if (fieldValue > 0) return false;
+        fieldValue = -fieldValue;
+      } else if (options?.inflow && fieldValue < 0) {
+        return false;
+      }
+    }
+
+    switch (op) {
+      case 'is':
+        return this.equals(condition.field, fieldValue, value);
+      case 'isNot':
+        return !this.equals(condition.field, fieldValue, value);
+      case 'oneOf':
+        return Array.isArray(value) && value.some((v) => this.equals(condition.field, fieldValue, v));
+      case 'notOneOf':
+        return Array.isArray(value) && !value.some((v) => this.equals(condition.field, fieldValue, v));
+      case 'contains':
+        return lower(fieldValue).includes(lower(value));
+      case 'doesNotContain':
+        return !lower(fieldValue).includes(lower(value));
+      case 'matches':
+        try {
+          return new RegExp(String(value), 'i').test(String(fieldValue ?? ''));
+        } catch {
+          return false;
+        }
+      case 'hasTags':
+        return String(value)
+          .split(/\s+/)
+          .filter(Boolean)
+          .every((tag) => lower(fieldValue).includes(lower(tag.startsWith('#') ? tag : `#${tag}`)));
+      case 'gt':
+      case 'gte':
+      case 'lt':
+      case 'lte':
+        return this.compare(op, fieldValue, value);
+      case 'isapprox':
+        if (typeof fieldValue === 'number' && typeof value === 'number') {
+          return Math.abs(fieldValue - value) <= Math.round(Math.abs(value) * APPROX_AMOUNT_RATIO);
+        }
+        if (typeof fieldValue === 'string' && typeof value === 'string') {
+          return dayDifference(fieldValue, value) <= APPROX_DATE_DAYS;
+        }
+        return false;
+      case 'isbetween': {
+        if (typeof fieldValue !== 'number' || typeof value !== 'object' || value === null || Array.isArray(value)) {
+          return false;
+        }
+        const low = Math.min(value.num1, value.num2);
+        const high = Math.max(value.num1, value.num2);
+        return fieldValue >= low && fieldValue <= high;
+      }
+      case 'onBudget':
+        return !this.accountsById.get(String(fieldValue))?.offbudget;
+      case 'offBudget':
+        return !!this.accountsById.get(String(fieldValue))?.offbudget;
+    }
+  }
+
+  private equals(field: RuleCondition['field'], fieldValue: unknown, value: unknown): boolean {
+    // # Reason: Actual compares free-text fields case-insensitively but IDs, amounts and dates exactly.
+    if (field === 'notes' || field === 'imported_payee') {
+      return lower(fieldValue) === lower(value);
+    }
+    if ((value === '' || value === null) && (fieldValue === null || fieldValue === '')) {
+      return true;
+    }
+    return fieldValue === value;
+  }
+
+  private compare(op: 'gt' | 'gte' | 'lt' | 'lte', fieldValue: unknown, value: unknown): boolean {
+    if (fieldValue === null || fieldValue === undefined) return false;
+    const a = fieldValue as number | string;
+    const b = value as number | string;
+    switch (op) {
+      case 'gt':
+        return a > b;
+      case 'gte':
+        return a >= b;
+      case 'lt':
+        return a < b;
+      case 'lte':
+        return a <= b;
+    }
+  }
+
+  private applyActions(actions: RuleAction[], fields: RuleFields): { fields: RuleFields; skipped: string[] } {
+    const next = { ...fields };
+    const skipped: string[] = [];
+
+    actions.forEach((action) => {
+      if (action.op === 'set-split-amount' || action.field === null) {
+        skipped.push('Split actions are not applied to existing transactions');
+        return;
+      }
+      if (action.op === 'prepend-notes' || action.op === 'append-notes') {
+        const notes = next.notes ?? '';
+        const text = String(action.value ?? '');
+        next.notes = action.op === 'prepend-notes' ? text + notes : notes + text;
+        return;
+      }
+      if (action.op !== 'set' || !action.field) {
+        // e.g. the link-schedule action Actual adds to schedule rules
+        skipped.push(`Action ${String(action.op)} is not supported`);
+        return;
+      }
+      if (action.options?.template || action.options?.formula) {
+        skipped.push(`Template/formula action on ${action.field} is not supported`);
+        return;
+      }
+      (next as Record<string, unknown>)[action.field] = action.value;
+    });
+
+    return { fields: next, skipped };
+  }
+}
@@ -20,7 +20,15 @@ export interface Transaction {
   category_name?: string;
   notes?: string;
   transfer_id?: string;
+  // Account on the other side of a transfer, from the transfer payee
+  transfer_account?: string;
   cleared?: boolean;
+  reconciled?: boolean;
+  imported_id?: string;
+  imported_payee?: string;
+  is_parent?: boolean;
+  parent_id?: string;
+  subtransactions?: Transaction[];
 }
 
 export interface Category {
@@ -53,10 +61,10 @@ export interface CategorySpending {
   transactions: number;
 }
 
-export interface GroupSpending {
+export interface GroupSpending<T extends CategorySpending = CategorySpending> {
   name: string;
   total: number;
-  categories: CategorySpending[];
+  categories: T[];
 }
 
 export interface Payee {
@@ -64,3 +72,42 @@ export interface Payee {
   name: string;
   transfer_acct?: string;
 }
+
+export interface BudgetMonthCategory {
+  id: string;
+  name: string;
+  group_id: string;
+  is_income?: boolean;
+  hidden?: boolean;
+  budgeted?: number;
+  spent?: number;
+  balance?: number;
+  carryover?: boolean;
+  received?: number;
+}
+
+export interface BudgetMonthCategoryGroup {
+  id: string;
+  name: string;
+  is_income?: boolean;
+  hidden?: boolean;
+  budgeted?: number;
+  spent?: number;
+  balance?: number;
+  received?: number;
+  categories: BudgetMonthCategory[];
+}
+
+export interface BudgetMonth {
+  month: string;
+  incomeAvailable: number;
+  lastMonthOverspent: number;
+  forNextMonth: number;
+  totalBudgeted: number;
+  toBudget: number;
+  fromLastMonth: number;
+  totalIncome: number;
+  totalSpent: number;
+  totalBalance: number;
+  categoryGroups: BudgetMonthCategoryGroup[];
+}
@@ -19,11 +19,11 @@ import dotenv from 'dotenv';
 import express, { Request, Response } from 'express';
 import { randomUUID } from 'node:crypto';
 import { parseArgs } from 'node:util';
-import { initActualApi, shutdownActualApi } from './actual-api.js';
-import { buildAuthContext, type AuthContext, MCP_PUBLIC_URL } from './auth/index.js';
+import { initActualApi, refreshActualApi, shutdownActualApi } from './actual-api.js';
+import { buildAuthContext, type AuthContext, MCP_PUBLIC_URL, TOOL_SCOPES } from './auth/index.js';
 import { fetchAllAccounts } from './core/data/fetch-accounts.js';
 import { setupPrompts } from './prompts.js';
-import { setupResources } from './resources.js';
+import { setupResources } from './resources/index.js';
 import { setupTools } from './tools/index.js';
 import { SetLevelRequestSchema, isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 
@@ -37,8 +37,8 @@ const server = new Server(
   },
   {
     capabilities: {
-      resources: {},
-      tools: {},
+      resources: { subscribe: true, listChanged: true },
+      tools: { listChanged: true },
       prompts: {},
       logging: {},
     },
@@ -166,7 +166,7 @@ async function main(): Promise<void> {
         mcpAuthMetadataRouter({
           oauthMetadata: authContext.oauthMetadata,
           resourceServerUrl: mcpPublicUrl,
-          scopesSupported: ['openid', 'email'],
+          scopesSupported: ['openid', 'email', ...TOOL_SCOPES],
           resourceName: 'Actual Budget MCP Server',
         })
       );
@@ -355,7 +355,15 @@ server.setRequestHandler(SetLevelRequestSchema, (request) => {
 process.on('SIGINT', () => {
   console.error('SIGINT received, shutting down server');
   server.close();
-  process.exit(0);
+  // Close the long-lived budget session so pending changes reach the server
+  shutdownActualApi()
+    .catch((error: unknown) => console.error(`Failed to close budget: ${toErrorMessage(error)}`))
+    .finally(() => process.exit(0));
+});
+
+process.on('SIGHUP', () => {
+  console.error('SIGHUP received, refreshing budget session');
+  refreshActualApi().catch((error: unknown) => console.error(`Budget refresh failed: ${toErrorMessage(error)}`));
 });
 
 main()
@@ -56,6 +56,7 @@ You can use these tools to gather the data you need:
 1. Use the spending-by-category tool to analyze my spending breakdown
 2. Use the monthly-summary tool to get my income, expenses, and savings rate
 3. Use the get-transactions tool to examine specific transactions if needed
+4. Use the detect-recurring tool to find subscriptions and recurring charges, including recent price increases
 
 When you examine the spending-by-category results:
 - Look for any category group called "Investment & Savings" or similar
@@ -123,7 +124,7 @@ const actualCleanupPrompt = (): GetPromptResult => {
           type: 'text',
           text: `Please review my budget structure and suggest cleanup or maintenance actions. Focus on simplifying and organizing the following resources:
 
-1. **Payees**: Identify potential duplicate payees (e.g., same name or same transfer account), payees that are no longer in use (not used in any transaction for 6+ months), or those with unclear names.
+1. **Payees**: Identify potential duplicate payees (e.g., same name or same transfer account), payees that are no longer in use (not used in any transaction for 6+ months), or those with unclear names. Duplicates should be merged with \`merge-payees\` (which keeps their transactions and rules) rather than deleted.
 
 2. **Rules**: Look for transaction rules that are:
    - Not used (e.g., haven't matched any transactions recently)
@@ -135,13 +136,16 @@ const actualCleanupPrompt = (): GetPromptResult => {
    - Highlight overlapping or unclear category names
    - Suggest merging or removing underused categories
 
-4. **Optional - Accounts**: Suggest closing or archiving any inactive or zero-balance accounts that haven't been used recently.
+4. **Subscriptions**: Find recurring charges without a schedule, and subscriptions that stopped (missed their expected date) or went up in price. Offer to create schedules for the ones I confirm.
+
+5. **Optional - Accounts**: Suggest closing or archiving any inactive or zero-balance accounts that haven't been used recently.
 
 You can use these tools to gather the necessary data:
 - \`get-payees\`
 - \`get-rules\`
 - \`get-grouped-categories\`
 - \`get-transactions\` (for checking recent activity)
+- \`detect-recurring\` (for subscriptions; pass \`includeInactive\` to see stopped ones)
 - \`get-accounts\` (optional, for inactive accounts)
 
 Please provide:
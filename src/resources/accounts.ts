@@ -0,0 +1,62 @@
+// Account list and account detail resources
+import { fetchAllAccounts } from '../core/data/fetch-accounts.js';
+import { fetchAmountFormat } from '../core/data/fetch-amount-format.js';
+import { getAccountBalance } from '../actual-api.js';
+import { formatAmount } from '../utils.js';
+import { errorContent, type ResourceDefinition } from './types.js';
+
+export const accountResources: ResourceDefinition[] = [
+  {
+    uriTemplate: 'actual://accounts',
+    name: 'Accounts',
+    description: 'All accounts with balances and IDs',
+    mimeType: 'text/markdown',
+    read: async () => {
+      const accounts = await fetchAllAccounts();
+      const amountFormat = await fetchAmountFormat();
+
+      const accountsText: string = accounts
+        .map((account) => {
+          const closed = account.closed ? ' (CLOSED)' : '';
+          const offBudget = account.offbudget ? ' (OFF BUDGET)' : '';
+          const balance = account.balance !== undefined ? ` - ${formatAmount(account.balance, amountFormat)}` : '';
+
+          return `- ${account.name}${closed}${offBudget}${balance} [ID: ${account.id}]`;
+        })
+        .join('\n');
+
+      return {
+        text: `# Actual Budget Accounts\n\n${accountsText}\n\nTotal Accounts: ${accounts.length}`,
+        mimeType: 'text/markdown',
+      };
+    },
+  },
+  {
+    uriTemplate: 'actual://accounts/{accountId}',
+    name: 'Account',
+    description: 'Details and current balance of one account',
+    mimeType: 'text/markdown',
+    read: async ({ accountId }) => {
+      const accounts = await fetchAllAccounts();
+      const account = accounts.find((a) => a.id === accountId);
+      if (!account) {
+        return errorContent(`Account with ID ${accountId} not found`);
+      }
+
+      const balance = await getAccountBalance(accountId);
+      const amountFormat = await fetchAmountFormat();
+
+      const details = `# Account: ${account.name}
+
+ID: ${account.id}
+Type: ${account.type || 'Unknown'}
+Balance: ${formatAmount(balance, amountFormat)}
+On Budget: ${!account.offbudget}
+Status: ${account.closed ? 'Closed' : 'Open'}
+
+Transactions: actual://accounts/${account.id}/transactions`;
+
+      return { text: details, mimeType: 'text/markdown' };
+    },
+  },
+];
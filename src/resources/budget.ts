@@ -0,0 +1,23 @@
+// Envelope budget month resource
+import { fetchBudgetMonth } from '../core/data/fetch-budget.js';
+import { fetchAmountFormat } from '../core/data/fetch-amount-format.js';
+import { BudgetMonthReportGenerator } from '../tools/budget/get-budget-month/report-generator.js';
+import { errorContent, type ResourceDefinition } from './types.js';
+
+export const budgetResources: ResourceDefinition[] = [
+  {
+    uriTemplate: 'actual://budget/{month}',
+    name: 'Budget month',
+    description:
+      'Budgeted, spent, balance and carryover per category for a month in YYYY-MM format (e.g. actual://budget/2026-10)',
+    mimeType: 'text/markdown',
+    read: async ({ month }) => {
+      if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+        return errorContent(`Budget month must be in YYYY-MM format, got ${month}`);
+      }
+      const budgetMonth = await fetchBudgetMonth(month);
+      const amountFormat = await fetchAmountFormat();
+      return { text: new BudgetMonthReportGenerator(amountFormat).generate(budgetMonth), mimeType: 'text/markdown' };
+    },
+  },
+];
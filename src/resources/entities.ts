@@ -0,0 +1,47 @@
+// JSON resources for categories, category groups, payees, rules and schedules
+import { fetchAllCategories, fetchAllCategoryGroups } from '../core/data/fetch-categories.js';
+import { fetchAllPayees } from '../core/data/fetch-payees.js';
+import { fetchAllRules } from '../core/data/fetch-rules.js';
+import { fetchAllSchedules } from '../core/data/fetch-schedules.js';
+import { errorContent, type ResourceDefinition } from './types.js';
+
+/**
+ * A collection resource (actual://{path}) and an item resource (actual://{path}/{id}) backed by one fetcher
+ */
+const jsonCollection = <T extends { id: string }>(
+  path: string,
+  label: { plural: string; singular: string },
+  fetchAll: () => Promise<T[]>
+): ResourceDefinition[] => [
+  {
+    uriTemplate: `actual://${path}`,
+    name: label.plural,
+    description: `All ${label.plural.toLowerCase()} as JSON`,
+    mimeType: 'application/json',
+    read: async () => ({ text: JSON.stringify(await fetchAll()), mimeType: 'application/json' }),
+  },
+  {
+    uriTemplate: `actual://${path}/{id}`,
+    name: label.singular,
+    description: `One ${label.singular.toLowerCase()} by ID as JSON`,
+    mimeType: 'application/json',
+    read: async ({ id }) => {
+      const item = (await fetchAll()).find((entity) => entity.id === id);
+      return item
+        ? { text: JSON.stringify(item), mimeType: 'application/json' }
+        : errorContent(`${label.singular} with ID ${id} not found`);
+    },
+  },
+];
+
+export const entityResources: ResourceDefinition[] = [
+  ...jsonCollection('categories', { plural: 'Categories', singular: 'Category' }, fetchAllCategories),
+  ...jsonCollection(
+    'category-groups',
+    { plural: 'Category groups', singular: 'Category group' },
+    fetchAllCategoryGroups
+  ),
+  ...jsonCollection('payees', { plural: 'Payees', singular: 'Payee' }, fetchAllPayees),
+  ...jsonCollection('rules', { plural: 'Rules', singular: 'Rule' }, fetchAllRules),
+  ...jsonCollection('schedules', { plural: 'Schedules', singular: 'Schedule' }, fetchAllSchedules),
+];
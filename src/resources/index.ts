@@ -0,0 +1,130 @@
+// ----------------------------
+// RESOURCES
+// ----------------------------
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { onDefaultBudgetChanged, withBudget } from '../actual-api.js';
+import { fetchAllAccounts } from '../core/data/fetch-accounts.js';
+import { formatMonth } from '../utils.js';
+import { accountResources } from './accounts.js';
+import { budgetResources } from './budget.js';
+import { entityResources } from './entities.js';
+import { transactionResources } from './transactions.js';
+import { ResourceSubscriptions } from './subscriptions.js';
+import { matchUriTemplate } from './uri-template.js';
+import type { ResourceDefinition } from './types.js';
+
+const resources: ResourceDefinition[] = [
+  ...accountResources,
+  ...transactionResources,
+  ...entityResources,
+  ...budgetResources,
+];
+
+const isTemplate = (resource: ResourceDefinition): boolean => resource.uriTemplate.includes('{');
+
+export const setupResources = (server: Server): void => {
+  // Resources always read the default budget, serialized with tool calls on the shared session
+  const subscriptions = new ResourceSubscriptions(server);
+  onDefaultBudgetChanged(() => subscriptions.budgetChanged());
+
+  /**
+   * Handler for listing concrete resources: fixed collections, each account and the current budget month
+   */
+  server.setRequestHandler(ListResourcesRequestSchema, () =>
+    withBudget(undefined, async () => {
+      try {
+        const accounts = await fetchAllAccounts();
+        const currentMonth = formatMonth(new Date());
+        return {
+          resources: [
+            ...resources
+              .filter((resource) => !isTemplate(resource))
+              .map(({ uriTemplate, name, description, mimeType }) => ({
+                uri: uriTemplate,
+                name,
+                description,
+                mimeType,
+              })),
+            ...accounts.map((account) => ({
+              uri: `actual://accounts/${account.id}`,
+              name: account.name,
+              description: `${account.name} (${account.type || 'Account'})${account.closed ? ' - CLOSED' : ''}`,
+              mimeType: 'text/markdown',
+            })),
+            {
+              uri: `actual://budget/${currentMonth}`,
+              name: `Budget ${currentMonth}`,
+              description: 'Envelope budget for the current month',
+              mimeType: 'text/markdown',
+            },
+          ],
+        };
+      } catch (error) {
+        console.error('Error listing resources:', error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * Handler for listing resource templates (parameterized URIs)
+   */
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, () => ({
+    resourceTemplates: resources
+      .filter(isTemplate)
+      .map(({ uriTemplate, name, description, mimeType }) => ({ uriTemplate, name, description, mimeType })),
+  }));
+
+  /**
+   * Handler for reading resources by matching the URI against each resource template
+   */
+  server.setRequestHandler(ReadResourceRequestSchema, (request) =>
+    withBudget(undefined, async () => {
+      const uri: string = request.params.uri;
+      try {
+        for (const resource of resources) {
+          const params = matchUriTemplate(resource.uriTemplate, uri);
+          if (params) {
+            const { text, mimeType } = await resource.read(params, new URL(uri));
+            return { contents: [{ uri, text, mimeType }] };
+          }
+        }
+
+        // If we don't recognize the URI pattern, return an error
+        return {
+          contents: [
+            {
+              uri: uri,
+              text: `Error: Unrecognized resource URI: ${uri}`,
+              mimeType: 'text/plain',
+            },
+          ],
+        };
+      } catch (error) {
+        console.error('Error reading resource:', error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * Handlers for resource subscriptions; subscribers get notifications/resources/updated when the data changes
+   */
+  server.setRequestHandler(SubscribeRequestSchema, (request) => {
+    subscriptions.subscribe(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+};
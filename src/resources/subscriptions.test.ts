@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { isAffectedByAccounts, ResourceSubscriptions } from './subscriptions.js';
+
+const fakeServer = (): {
+  server: Server;
+  sendResourceUpdated: ReturnType<typeof vi.fn>;
+  sendResourceListChanged: ReturnType<typeof vi.fn>;
+} => {
+  const sendResourceUpdated = vi.fn().mockResolvedValue(undefined);
+  const sendResourceListChanged = vi.fn().mockResolvedValue(undefined);
+  return {
+    server: { sendResourceUpdated, sendResourceListChanged } as unknown as Server,
+    sendResourceUpdated,
+    sendResourceListChanged,
+  };
+};
+
+describe('isAffectedByAccounts', () => {
+  it('matches account, transaction and budget resources of the changed accounts', () => {
+    expect(isAffectedByAccounts('actual://accounts', ['a1'])).toBe(true);
+    expect(isAffectedByAccounts('actual://accounts/a1', ['a1'])).toBe(true);
+    expect(isAffectedByAccounts('actual://accounts/a2', ['a1'])).toBe(false);
+    expect(isAffectedByAccounts('actual://accounts/a1/transactions?limit=10', ['a1'])).toBe(true);
+    expect(isAffectedByAccounts('actual://transactions?payeeName=shop', ['a1'])).toBe(true);
+    expect(isAffectedByAccounts('actual://budget/2026-10', ['a1'])).toBe(true);
+    expect(isAffectedByAccounts('actual://payees', ['a1'])).toBe(false);
+  });
+});
+
+describe('ResourceSubscriptions', () => {
+  it('notifies only subscribed URIs affected by changed accounts', () => {
+    const { server, sendResourceUpdated } = fakeServer();
+    const subscriptions = new ResourceSubscriptions(server);
+    subscriptions.subscribe('actual://accounts/a1');
+    subscriptions.subscribe('actual://accounts/a2');
+    subscriptions.subscribe('actual://rules');
+
+    subscriptions.accountsChanged(['a1']);
+    expect(sendResourceUpdated.mock.calls).toEqual([[{ uri: 'actual://accounts/a1' }]]);
+
+    subscriptions.unsubscribe('actual://accounts/a1');
+    sendResourceUpdated.mockClear();
+    subscriptions.accountsChanged(['a1']);
+    expect(sendResourceUpdated).not.toHaveBeenCalled();
+  });
+
+  it('notifies every subscription and the list on a budget change', () => {
+    const { server, sendResourceUpdated, sendResourceListChanged } = fakeServer();
+    const subscriptions = new ResourceSubscriptions(server);
+    subscriptions.subscribe('actual://rules');
+    subscriptions.subscribe('actual://accounts');
+
+    subscriptions.budgetChanged();
+    expect(sendResourceUpdated).toHaveBeenCalledTimes(2);
+    expect(sendResourceListChanged).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,61 @@
+// Resource subscriptions and change notifications
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { onAccountsChanged } from '../actual-api.js';
+import { matchUriTemplate } from './uri-template.js';
+
+// Resources derived from account transactions and balances
+const ACCOUNT_DATA_TEMPLATES = [
+  'actual://accounts',
+  'actual://accounts/{accountId}',
+  'actual://accounts/{accountId}/transactions',
+  'actual://transactions',
+  'actual://budget/{month}',
+];
+
+/**
+ * Whether a resource URI shows data of any of the changed accounts
+ */
+export function isAffectedByAccounts(uri: string, accountIds: string[]): boolean {
+  return ACCOUNT_DATA_TEMPLATES.some((template) => {
+    const params = matchUriTemplate(template, uri);
+    return params !== null && (params.accountId === undefined || accountIds.includes(params.accountId));
+  });
+}
+
+export class ResourceSubscriptions {
+  private readonly uris = new Set<string>();
+  private stopListening: (() => void) | null = null;
+
+  constructor(private readonly server: Server) {}
+
+  subscribe(uri: string): void {
+    this.uris.add(uri);
+    // Change tracking costs a query per sync and write, so only listen while someone is subscribed
+    this.stopListening ??= onAccountsChanged((accountIds) => this.accountsChanged(accountIds));
+  }
+
+  unsubscribe(uri: string): void {
+    this.uris.delete(uri);
+    if (this.uris.size === 0 && this.stopListening) {
+      this.stopListening();
+      this.stopListening = null;
+    }
+  }
+
+  accountsChanged(accountIds: string[]): void {
+    [...this.uris].filter((uri) => isAffectedByAccounts(uri, accountIds)).forEach((uri) => this.notify(uri));
+  }
+
+  /**
+   * Another default budget replaces every resource's data and the account list
+   */
+  budgetChanged(): void {
+    this.uris.forEach((uri) => this.notify(uri));
+    this.server.sendResourceListChanged().catch(() => undefined);
+  }
+
+  // Sending fails while no client is connected; there is nobody to tell then
+  private notify(uri: string): void {
+    this.server.sendResourceUpdated({ uri }).catch(() => undefined);
+  }
+}
@@ -0,0 +1,60 @@
+// Transaction resources, filtered with the same query options as search-transactions
+import { SearchTransactionsDataFetcher } from '../tools/search-transactions/data-fetcher.js';
+import { TransactionSearchFilter } from '../tools/search-transactions/transaction-filter.js';
+import { SearchTransactionsReportGenerator } from '../tools/search-transactions/report-generator.js';
+import { fetchAmountFormat } from '../core/data/fetch-amount-format.js';
+import { getDateRange } from '../utils.js';
+import { SearchTransactionsArgsSchema } from '../types.js';
+import { parseQueryParams, queryTemplate } from './uri-template.js';
+import type { ResourceContent, ResourceDefinition } from './types.js';
+
+// The account is part of the path, so account selection is not a query option there
+const AccountTransactionsQuerySchema = SearchTransactionsArgsSchema.omit({ accountIds: true, onBudgetOnly: true });
+
+async function readTransactions(query: Record<string, unknown>, title: string): Promise<ResourceContent> {
+  const input = SearchTransactionsArgsSchema.parse(query);
+  const { startDate, endDate } = getDateRange(input.startDate, input.endDate);
+  const { accounts, transactions } = await new SearchTransactionsDataFetcher().fetchAll(
+    input.accountIds,
+    input.onBudgetOnly,
+    startDate,
+    endDate
+  );
+
+  const amountFormat = await fetchAmountFormat();
+  const searchFilter = new TransactionSearchFilter(amountFormat);
+  const matches = searchFilter.sort(searchFilter.filter(transactions, input), input);
+  const page = searchFilter.page(matches, input.offset, input.limit);
+
+  const markdown = new SearchTransactionsReportGenerator(amountFormat).generate(
+    page,
+    accounts,
+    `${title}, ${startDate} to ${endDate}`,
+    { offset: input.offset, limit: input.limit, matchCount: matches.length, totalCount: transactions.length }
+  );
+  return { text: markdown, mimeType: 'text/markdown' };
+}
+
+export const transactionResources: ResourceDefinition[] = [
+  {
+    uriTemplate: `actual://transactions${queryTemplate(SearchTransactionsArgsSchema)}`,
+    name: 'Transactions',
+    description:
+      'Transactions across accounts, last 3 months by default. Query parameters match search-transactions (e.g. ?startDate=2026-01-01&payeeName=amazon&accountIds=id1,id2)',
+    mimeType: 'text/markdown',
+    read: (_params, url) =>
+      readTransactions(parseQueryParams(SearchTransactionsArgsSchema, url.searchParams), 'All accounts'),
+  },
+  {
+    uriTemplate: `actual://accounts/{accountId}/transactions${queryTemplate(AccountTransactionsQuerySchema)}`,
+    name: 'Account transactions',
+    description:
+      'Transactions of one account, last 3 months by default. Query parameters match search-transactions (e.g. ?startDate=2026-01-01&cleared=false)',
+    mimeType: 'text/markdown',
+    read: (params, url) =>
+      readTransactions(
+        { ...parseQueryParams(AccountTransactionsQuerySchema, url.searchParams), accountIds: [params.accountId] },
+        `Account ${params.accountId}`
+      ),
+  },
+];
@@ -0,0 +1,17 @@
+// Types shared by the MCP resource definitions
+
+export interface ResourceContent {
+  text: string;
+  mimeType: string;
+}
+
+export interface ResourceDefinition {
+  // RFC 6570 URI template, e.g. actual://accounts/{accountId}
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+  read(params: Record<string, string>, url: URL): Promise<ResourceContent>;
+}
+
+export const errorContent = (text: string): ResourceContent => ({ text: `Error: ${text}`, mimeType: 'text/plain' });
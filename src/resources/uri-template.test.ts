@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { SearchTransactionsArgsSchema } from '../types.js';
+import { matchUriTemplate, parseQueryParams, queryTemplate } from './uri-template.js';
+
+describe('matchUriTemplate', () => {
+  it('matches fixed paths and extracts decoded variables', () => {
+    expect(matchUriTemplate('actual://accounts', 'actual://accounts')).toEqual({});
+    expect(matchUriTemplate('actual://budget/{month}', 'actual://budget/2026-10')).toEqual({ month: '2026-10' });
+    expect(matchUriTemplate('actual://payees/{id}', 'actual://payees/a%20b')).toEqual({ id: 'a b' });
+  });
+
+  it('ignores the query part of both template and URI', () => {
+    expect(
+      matchUriTemplate(
+        'actual://accounts/{accountId}/transactions{?startDate,endDate}',
+        'actual://accounts/acc1/transactions?startDate=2026-01-01'
+      )
+    ).toEqual({ accountId: 'acc1' });
+  });
+
+  it('rejects other schemes, lengths and literals', () => {
+    expect(matchUriTemplate('actual://accounts/{id}', 'other://accounts/acc1')).toBeNull();
+    expect(matchUriTemplate('actual://accounts/{id}', 'actual://accounts/acc1/transactions')).toBeNull();
+    expect(matchUriTemplate('actual://rules/{id}', 'actual://payees/p1')).toBeNull();
+  });
+});
+
+describe('parseQueryParams', () => {
+  it('coerces numbers, booleans and comma separated arrays', () => {
+    const params = new URLSearchParams('limit=10&cleared=false&accountIds=a,b&accountIds=c&payeeName=shop');
+    expect(parseQueryParams(SearchTransactionsArgsSchema, params)).toEqual({
+      limit: 10,
+      cleared: false,
+      accountIds: ['a', 'b', 'c'],
+      payeeName: 'shop',
+    });
+  });
+
+  it('leaves invalid values for schema validation and rejects unknown parameters', () => {
+    const input = parseQueryParams(SearchTransactionsArgsSchema, new URLSearchParams('limit=many'));
+    expect(SearchTransactionsArgsSchema.safeParse(input).success).toBe(false);
+    expect(() => parseQueryParams(SearchTransactionsArgsSchema, new URLSearchParams('bogus=1'))).toThrow(
+      'Unknown query parameter: bogus'
+    );
+  });
+});
+
+describe('queryTemplate', () => {
+  it('lists every schema field', () => {
+    expect(queryTemplate(SearchTransactionsArgsSchema)).toMatch(/^\{\?accountIds,onBudgetOnly,startDate,.*,offset\}$/);
+  });
+});
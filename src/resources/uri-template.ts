@@ -0,0 +1,86 @@
+// Matches actual:// resource URIs against RFC 6570 style templates
+import { z } from 'zod';
+
+const SCHEME = 'actual://';
+
+const pathSegments = (uriOrTemplate: string): string[] =>
+  uriOrTemplate.slice(SCHEME.length).split('?')[0].split('/').filter(Boolean);
+
+/**
+ * Match a URI against a template such as `actual://accounts/{id}/transactions{?startDate,endDate}`.
+ * Returns the decoded path variables, or null when the path does not fit the template.
+ * Query parameters are not matched here; read them from the URL.
+ */
+export function matchUriTemplate(template: string, uri: string): Record<string, string> | null {
+  if (!uri.startsWith(SCHEME)) {
+    return null;
+  }
+  const templateParts = pathSegments(template.replace(/\{\?[^}]*\}$/, ''));
+  const uriParts = pathSegments(uri);
+  if (templateParts.length !== uriParts.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < templateParts.length; i++) {
+    const variable = /^\{(\w+)\}$/.exec(templateParts[i]);
+    if (variable) {
+      params[variable[1]] = decodeURIComponent(uriParts[i]);
+    } else if (templateParts[i] !== uriParts[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+/**
+ * Convert query parameters into input for a zod object schema: numbers and booleans are parsed,
+ * arrays accept repeated or comma separated values, and unknown parameters are rejected.
+ */
+export function parseQueryParams<T extends z.ZodRawShape>(
+  schema: z.ZodObject<T>,
+  searchParams: URLSearchParams
+): Record<string, unknown> {
+  const input: Record<string, unknown> = {};
+  for (const key of new Set(searchParams.keys())) {
+    const field = schema.shape[key] as z.ZodTypeAny | undefined;
+    if (!field) {
+      throw new Error(`Unknown query parameter: ${key}`);
+    }
+    const values = searchParams.getAll(key);
+    input[key] = coerce(field, values);
+  }
+  return input;
+}
+
+// Unwrap optional/default wrappers to find the value type a query string must become
+function baseType(field: z.ZodTypeAny): z.ZodTypeAny {
+  if (field instanceof z.ZodOptional || field instanceof z.ZodNullable) {
+    return baseType(field.unwrap() as z.ZodTypeAny);
+  }
+  if (field instanceof z.ZodDefault) {
+    return baseType(field.removeDefault() as z.ZodTypeAny);
+  }
+  return field;
+}
+
+function coerce(field: z.ZodTypeAny, values: string[]): unknown {
+  const type = baseType(field);
+  const last = values[values.length - 1];
+  if (type instanceof z.ZodArray) {
+    return values.flatMap((value) => value.split(',')).filter((value) => value !== '');
+  }
+  if (type instanceof z.ZodNumber) {
+    return last.trim() === '' ? last : Number(last);
+  }
+  if (type instanceof z.ZodBoolean) {
+    return last === 'true' ? true : last === 'false' ? false : last;
+  }
+  return last;
+}
+
+/**
+ * Query part of a template listing every field of a schema, e.g. `{?startDate,endDate}`
+ */
+export const queryTemplate = <T extends z.ZodRawShape>(schema: z.ZodObject<T>): string =>
+  `{?${Object.keys(schema.shape).join(',')}}`;
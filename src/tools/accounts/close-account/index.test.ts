@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handler, schema } from './index.js';
+import type { CloseAccountArgs } from '../../../types.js';
+
+// CRITICAL: Mock before imports
+vi.mock('../../../actual-api.js', () => ({
+  closeAccount: vi.fn(),
+}));
+
+import { closeAccount } from '../../../actual-api.js';
+
+describe('close-account tool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('schema', () => {
+    it('should have correct name and only require id', () => {
+      expect(schema.name).toBe('close-account');
+      expect(schema.inputSchema.required).toEqual(['id']);
+      expect(schema.inputSchema.properties).toHaveProperty('transferAccountId');
+      expect(schema.inputSchema.properties).toHaveProperty('transferCategoryId');
+    });
+  });
+
+  describe('handler', () => {
+    it('should close an account without a transfer', async () => {
+      vi.mocked(closeAccount).mockResolvedValue(undefined);
+
+      const result = await handler({ id: 'acc-1' });
+
+      expect(closeAccount).toHaveBeenCalledWith('acc-1', undefined, undefined);
+      expect(result.isError).toBeUndefined();
+      expect((result.content[0] as { text: string }).text).toContain('Successfully closed account acc-1');
+    });
+
+    it('should pass transfer account and category through', async () => {
+      vi.mocked(closeAccount).mockResolvedValue(undefined);
+
+      const result = await handler({ id: 'acc-1', transferAccountId: 'acc-2', transferCategoryId: 'cat-1' });
+
+      expect(closeAccount).toHaveBeenCalledWith('acc-1', 'acc-2', 'cat-1');
+      expect((result.content[0] as { text: string }).text).toContain('remaining balance transferred to acc-2');
+    });
+
+    it('should return error when id is missing', async () => {
+      const result = await handler({} as CloseAccountArgs);
+
+      expect(result.isError).toBe(true);
+      expect(closeAccount).not.toHaveBeenCalled();
+    });
+
+    it('should surface API errors such as a missing transfer account', async () => {
+      vi.mocked(closeAccount).mockRejectedValue(new Error('balance is non-zero: transferAccountId is required'));
+
+      const result = await handler({ id: 'acc-1' });
+
+      expect(result.isError).toBe(true);
+      expect((result.content[0] as { text: string }).text).toContain('transferAccountId is required');
+    });
+  });
+});
@@ -0,0 +1,30 @@
+// ----------------------------
+// CLOSE ACCOUNT TOOL
+// ----------------------------
+
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { successWithJson, errorFromCatch } from '../../../utils/response.js';
+import { closeAccount } from '../../../actual-api.js';
+import { CloseAccountArgsSchema, type CloseAccountArgs, type ToolInput } from '../../../types.js';
+
+export const schema = {
+  name: 'close-account',
+  description:
+    'Close an account. If the account has a balance, it must be transferred to another account (and category when moving money off-budget).',
+  inputSchema: zodToJsonSchema(CloseAccountArgsSchema) as ToolInput,
+};
+
+export const argsSchema = CloseAccountArgsSchema;
+
+export async function handler(args: CloseAccountArgs): Promise<CallToolResult> {
+  try {
+    const { id, transferAccountId, transferCategoryId } = CloseAccountArgsSchema.parse(args);
+    await closeAccount(id, transferAccountId, transferCategoryId);
+
+    const transferNote = transferAccountId ? `, remaining balance transferred to ${transferAccountId}` : '';
+    return successWithJson(`Successfully closed account ${id}${transferNote}`);
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
@@ -0,0 +1,28 @@
+// ----------------------------
+// CREATE ACCOUNT TOOL
+// ----------------------------
+
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { successWithJson, errorFromCatch } from '../../../utils/response.js';
+import { createAccount } from '../../../actual-api.js';
+import { CreateAccountArgsSchema, type CreateAccountArgs, type ToolInput } from '../../../types.js';
+
+export const schema = {
+  name: 'create-account',
+  description: 'Create a new on-budget or off-budget account with an optional starting balance',
+  inputSchema: zodToJsonSchema(CreateAccountArgsSchema) as ToolInput,
+};
+
+export const argsSchema = CreateAccountArgsSchema;
+
+export async function handler(args: CreateAccountArgs): Promise<CallToolResult> {
+  try {
+    const validatedArgs = CreateAccountArgsSchema.parse(args);
+    const id: string = await createAccount(validatedArgs);
+
+    return successWithJson('Successfully created account ' + id);
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
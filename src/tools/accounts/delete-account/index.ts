@@ -0,0 +1,29 @@
+// ----------------------------
+// DELETE ACCOUNT TOOL
+// ----------------------------
+
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { successWithJson, errorFromCatch } from '../../../utils/response.js';
+import { deleteAccount } from '../../../actual-api.js';
+import { AccountIdArgsSchema, type AccountIdArgs, type ToolInput } from '../../../types.js';
+
+export const schema = {
+  name: 'delete-account',
+  description:
+    'Permanently delete an account and all of its transactions. This cannot be undone; prefer close-account to keep history.',
+  inputSchema: zodToJsonSchema(AccountIdArgsSchema) as ToolInput,
+};
+
+export const argsSchema = AccountIdArgsSchema;
+
+export async function handler(args: AccountIdArgs): Promise<CallToolResult> {
+  try {
+    const { id } = AccountIdArgsSchema.parse(args);
+    await deleteAccount(id);
+
+    return successWithJson('Successfully deleted account ' + id);
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
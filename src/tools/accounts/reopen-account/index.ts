@@ -0,0 +1,28 @@
+// ----------------------------
+// REOPEN ACCOUNT TOOL
+// ----------------------------
+
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { successWithJson, errorFromCatch } from '../../../utils/response.js';
+import { reopenAccount } from '../../../actual-api.js';
+import { AccountIdArgsSchema, type AccountIdArgs, type ToolInput } from '../../../types.js';
+
+export const schema = {
+  name: 'reopen-account',
+  description: 'Reopen a closed account',
+  inputSchema: zodToJsonSchema(AccountIdArgsSchema) as ToolInput,
+};
+
+export const argsSchema = AccountIdArgsSchema;
+
+export async function handler(args: AccountIdArgs): Promise<CallToolResult> {
+  try {
+    const { id } = AccountIdArgsSchema.parse(args);
+    await reopenAccount(id);
+
+    return successWithJson('Successfully reopened account ' + id);
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
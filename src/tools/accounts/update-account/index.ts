@@ -0,0 +1,38 @@
+// ----------------------------
+// UPDATE ACCOUNT TOOL
+// ----------------------------
+
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { successWithJson, errorFromCatch } from '../../../utils/response.js';
+import { updateAccount } from '../../../actual-api.js';
+import { UpdateAccountArgsSchema, type UpdateAccountArgs, type ToolInput } from '../../../types.js';
+
+export const schema = {
+  name: 'update-account',
+  description: 'Update an account name or move it on/off budget',
+  inputSchema: zodToJsonSchema(UpdateAccountArgsSchema) as ToolInput,
+};
+
+export const argsSchema = UpdateAccountArgsSchema;
+
+export async function handler(args: UpdateAccountArgs): Promise<CallToolResult> {
+  try {
+    const { id, ...updateData } = UpdateAccountArgsSchema.parse(args);
+
+    // Filter out undefined values to only send fields that were explicitly provided
+    const filteredUpdateData = Object.fromEntries(
+      Object.entries(updateData).filter(([, value]) => value !== undefined)
+    );
+
+    if (Object.keys(filteredUpdateData).length === 0) {
+      return errorFromCatch('No fields provided to update. Please specify at least one field to modify.');
+    }
+
+    await updateAccount(id, filteredUpdateData);
+
+    return successWithJson('Successfully updated account ' + id);
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
@@ -0,0 +1,66 @@
+// Maps write tools to the entity their arguments target, for audit log snapshots and change notifications
+import type { AuditEntity, AuditEntityType, AuditEntry } from '../core/audit/audit-log.js';
+
+type AuditTarget = (args: Record<string, unknown>) => AuditEntity | null;
+
+const byArg =
+  (type: AuditEntityType, key: string): AuditTarget =>
+  (args) =>
+    typeof args[key] === 'string' && args[key] !== '' ? { type, id: args[key] } : null;
+
+const budgetCategory: AuditTarget = (args) =>
+  typeof args.categoryId === 'string' && typeof args.month === 'string'
+    ? { type: 'budget-category', id: args.categoryId, month: args.month }
+    : null;
+
+// Create tools have no entity before the call and bulk tools (apply-rules, bulk-update-transactions,
+// detect-recurring) touch many, so they are logged without snapshots
+const auditTargets: Record<string, AuditTarget> = {
+  'update-transaction': byArg('transaction', 'id'),
+  'delete-transaction': byArg('transaction', 'id'),
+  'import-transactions': byArg('account', 'accountId'),
+  'reconcile-account': byArg('account', 'accountId'),
+  'convert-to-transfer': byArg('transaction', 'transactionId'),
+  'update-account': byArg('account', 'id'),
+  'close-account': byArg('account', 'id'),
+  'reopen-account': byArg('account', 'id'),
+  'delete-account': byArg('account', 'id'),
+  'update-category': byArg('category', 'id'),
+  'delete-category': byArg('category', 'id'),
+  'update-category-group': byArg('category-group', 'id'),
+  'delete-category-group': byArg('category-group', 'id'),
+  'update-payee': byArg('payee', 'id'),
+  'delete-payee': byArg('payee', 'id'),
+  'merge-payees': byArg('payee', 'targetId'),
+  'update-rule': byArg('rule', 'id'),
+  'delete-rule': byArg('rule', 'id'),
+  'update-schedule': byArg('schedule', 'id'),
+  'delete-schedule': byArg('schedule', 'id'),
+  'set-budget-amount': budgetCategory,
+  'set-budget-carryover': budgetCategory,
+};
+
+/**
+ * Entity a write call changes, or null when the tool has no single target
+ */
+export const auditEntityFor = (toolName: string, args: Record<string, unknown>): AuditEntity | null =>
+  auditTargets[toolName]?.(args) ?? null;
+
+const accountOf = (snapshot: unknown): string | null =>
+  snapshot && typeof snapshot === 'object' && typeof (snapshot as { account?: unknown }).account === 'string'
+    ? (snapshot as { account: string }).account
+    : null;
+
+/**
+ * Accounts a write call changed according to its audit entry: the account itself, or the account
+ * a transaction was in before and after the call
+ */
+export const accountsTouchedBy = (entry: AuditEntry): string[] => {
+  if (entry.entity?.type === 'account') {
+    return [entry.entity.id];
+  }
+  if (entry.entity?.type === 'transaction') {
+    return [...new Set([accountOf(entry.before), accountOf(entry.after)].filter((id): id is string => id !== null))];
+  }
+  return [];
+};
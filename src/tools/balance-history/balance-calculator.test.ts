@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { BalanceHistoryCalculator } from './balance-calculator.js';
+import type { Transaction } from '../../core/types/domain.js';
+
+describe('BalanceHistoryCalculator', () => {
+  const calculator = new BalanceHistoryCalculator();
+  const checking = { id: 'acc1', name: 'Checking', balance: 100000 };
+  const savings = { id: 'acc2', name: 'Savings', balance: 5000 };
+  const transactions: Transaction[] = [
+    { id: 't1', account: 'acc1', date: '2026-03-05', amount: 20000 },
+    { id: 't2', account: 'acc1', date: '2026-02-10', amount: -30000 },
+    { id: 't3', account: 'acc1', date: '2026-01-20', amount: 50000 },
+    { id: 't4', account: 'acc2', date: '2026-02-15', amount: 5000 },
+  ];
+  const endDate = new Date(2026, 2, 15);
+
+  it('reports month-end balances that include the transactions of that month for one account', () => {
+    const months = calculator.calculate(checking, [checking], transactions.slice(0, 3), 3, endDate);
+
+    expect(months.map((m) => [m.year, m.month, m.balance, m.transactions, m.change])).toEqual([
+      [2026, 3, 100000, 1, 20000],
+      [2026, 2, 80000, 1, -30000],
+      [2026, 1, 110000, 1, undefined],
+    ]);
+  });
+
+  it('reports month-end balances per account across all accounts', () => {
+    const months = calculator.calculate(undefined, [checking, savings], transactions, 3, endDate);
+
+    expect(months.map((m) => [m.account, m.month, m.balance, m.transactions])).toEqual([
+      ['Checking', 3, 100000, 1],
+      ['Savings', 3, 5000, 0],
+      ['Checking', 2, 80000, 1],
+      ['Savings', 2, 5000, 1],
+      ['Checking', 1, 110000, 1],
+      ['Savings', 1, 0, 0],
+    ]);
+  });
+});
@@ -84,6 +84,10 @@ export class BalanceHistoryCalculator {
     return monthsArray;
   }
 
+  /**
+   * Month-end balances for the months up to endDate, newest first, rolled back from the current balance.
+   * A month's balance includes its own transactions.
+   */
   calculate(
     account: Account | undefined,
     accounts: Account[],
@@ -122,9 +126,9 @@ export class BalanceHistoryCalculator {
 
         runningBalance -= transaction.amount;
 
-        // Update balance for this month and all previous months
+        // Roll the balance back for every month that ended before this transaction
         monthRange.forEach(({ yearMonth: monthKey }) => {
-          if (balanceHistory[monthKey] && monthKey <= yearMonth) {
+          if (balanceHistory[monthKey] && monthKey < yearMonth) {
             balanceHistory[monthKey].balance = runningBalance;
           }
         });
@@ -175,9 +179,9 @@ export class BalanceHistoryCalculator {
 
         runningBalances[accIndex] -= transaction.amount;
 
-        // Update balance for this month and all previous months for this account
+        // Roll the balance back for every month that ended before this transaction for this account
         monthRange.forEach(({ yearMonth: monthKey }) => {
-          if (balanceHistory[accounts[accIndex].name][monthKey] && monthKey <= yearMonth) {
+          if (balanceHistory[accounts[accIndex].name][monthKey] && monthKey < yearMonth) {
             balanceHistory[accounts[accIndex].name][monthKey].balance = runningBalances[accIndex];
           }
         });
@@ -209,4 +213,43 @@ export class BalanceHistoryCalculator {
       return sortedMonths;
     }
   }
+
+  /**
+   * Project month-end balances forward from the accounts' current balances, applying expected future transactions.
+   * Months run oldest first starting with the month of startDate; the first month's change is against today's balance.
+   */
+  project(
+    accounts: Account[],
+    transactions: Array<Pick<Transaction, 'account' | 'date' | 'amount'>>,
+    startDate: Date,
+    months: number
+  ): MonthBalance[] {
+    const monthRange = this.generateMonthRange(
+      new Date(startDate.getFullYear(), startDate.getMonth() + months - 1, 1),
+      months
+    ).reverse();
+
+    const projected: MonthBalance[] = accounts.flatMap((acc) => {
+      const accountTransactions = transactions.filter((t) => t.account === acc.id);
+      let runningBalance = acc.balance ?? 0;
+
+      return monthRange.map(({ year, month, yearMonth }) => {
+        const inMonth = accountTransactions.filter((t) => t.date.slice(0, 7) === yearMonth);
+        runningBalance += inMonth.reduce((sum, t) => sum + t.amount, 0);
+        return { account: acc.name, year, month, balance: runningBalance, transactions: inMonth.length };
+      });
+    });
+
+    this.calculateChangesForMultipleAccounts(projected);
+    accounts.forEach((acc) => {
+      const first = projected.find((m) => m.account === acc.name);
+      if (first) first.change = first.balance - (acc.balance ?? 0);
+    });
+
+    return projected.sort((a, b) => {
+      if (a.year !== b.year) return a.year - b.year;
+      if (a.month !== b.month) return a.month - b.month;
+      return (a.account ?? '').localeCompare(b.account ?? '');
+    });
+  }
 }
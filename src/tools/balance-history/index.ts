@@ -6,13 +6,21 @@ import { BalanceHistoryCalculator } from './balance-calculator.js';
 import { BalanceHistoryReportGenerator } from './report-generator.js';
 import { success, errorFromCatch } from '../../utils/response.js';
 import { formatDate } from '../../utils.js';
-import { BalanceHistoryArgsSchema, type BalanceHistoryArgs, ToolInput } from '../../types.js';
+import {
+  BalanceHistoryArgsSchema,
+  BalanceHistoryOutputSchema,
+  type BalanceHistoryArgs,
+  ToolInput,
+  type ToolOutput,
+} from '../../types.js';
 import { zodToJsonSchema } from 'zod-to-json-schema';
+import { fetchAmountFormat } from '../../core/data/fetch-amount-format.js';
 
 export const schema = {
   name: 'balance-history',
   description: 'Get account balance history over time',
   inputSchema: zodToJsonSchema(BalanceHistoryArgsSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(BalanceHistoryOutputSchema) as ToolOutput,
 };
 
 export async function handler(args: BalanceHistoryArgs): Promise<CallToolResult> {
@@ -34,8 +42,18 @@ export async function handler(args: BalanceHistoryArgs): Promise<CallToolResult>
     const sortedMonths = new BalanceHistoryCalculator().calculate(account, accounts, transactions, months, endDate);
 
     // Generate report
-    const markdown = new BalanceHistoryReportGenerator().generate(account, { start, end }, sortedMonths);
-    return success(markdown);
+    const amountFormat = await fetchAmountFormat();
+    const markdown = new BalanceHistoryReportGenerator(amountFormat).generate(account, { start, end }, sortedMonths);
+    return success(
+      markdown,
+      BalanceHistoryOutputSchema.parse({
+        accountId,
+        accountName: account?.name ?? null,
+        start,
+        end,
+        months: sortedMonths,
+      })
+    );
   } catch (err) {
     return errorFromCatch(err);
   }
@@ -1,9 +1,11 @@
 // Generates the markdown report for balance-history tool
-import { formatAmount } from '../../utils.js';
+import { formatAmount, resolveAmountFormat, type AmountFormat } from '../../utils.js';
 import type { Account } from '../../types.js';
 import type { MonthBalance } from './balance-calculator.js';
 
 export class BalanceHistoryReportGenerator {
+  constructor(private readonly amountFormat: AmountFormat = resolveAmountFormat()) {}
+
   generate(account: Account | undefined, period: { start: string; end: string }, sortedMonths: MonthBalance[]): string {
     let markdown = `# Balance History\n\n`;
     if (account) {
@@ -25,11 +27,11 @@ export class BalanceHistoryReportGenerator {
     sortedMonths.forEach((month) => {
       const accountName = month.account;
       const monthName: string = new Date(month.year, month.month - 1, 1).toLocaleString('default', { month: 'long' });
-      const balance: string = formatAmount(month.balance);
+      const balance: string = formatAmount(month.balance, this.amountFormat);
 
       let change = '';
 
-      const changeFormatted: string = formatAmount(month.change);
+      const changeFormatted: string = formatAmount(month.change, this.amountFormat);
       const direction: string = month.change! > 0 ? '↑' : month.change! < 0 ? '↓' : '';
       change = `${direction} ${changeFormatted}`;
 
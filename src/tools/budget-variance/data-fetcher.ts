@@ -0,0 +1,32 @@
+// Fetches categories, budget months, and transactions for budget-variance tool
+import { fetchAllAccounts } from '../../core/data/fetch-accounts.js';
+import { fetchAllCategories, fetchAllCategoryGroups } from '../../core/data/fetch-categories.js';
+import { fetchBudgetMonthsInRange } from '../../core/data/fetch-budget.js';
+import { fetchAllOnBudgetTransactions } from '../../core/data/fetch-transactions.js';
+import { getDateRangeForMonthRange, getMonthsInRange } from '../../utils.js';
+import type { Account, BudgetMonth, Category, CategoryGroup, Transaction } from '../../core/types/domain.js';
+
+export class BudgetVarianceDataFetcher {
+  /**
+   * Fetch budget months and on-budget transactions covering the whole month range.
+   */
+  async fetchAll(
+    startMonth: string,
+    endMonth: string
+  ): Promise<{
+    accounts: Account[];
+    categories: Category[];
+    categoryGroups: CategoryGroup[];
+    budgetMonths: BudgetMonth[];
+    transactions: Transaction[];
+  }> {
+    const { start, end } = getDateRangeForMonthRange(startMonth, endMonth);
+    const accounts = await fetchAllAccounts();
+    const categories = await fetchAllCategories();
+    const categoryGroups = await fetchAllCategoryGroups();
+    const budgetMonths = await fetchBudgetMonthsInRange(getMonthsInRange(startMonth, endMonth));
+    const transactions = await fetchAllOnBudgetTransactions(accounts, start, end);
+
+    return { accounts, categories, categoryGroups, budgetMonths, transactions };
+  }
+}
@@ -0,0 +1,62 @@
+// Orchestrator for budget-variance tool
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { BudgetVarianceInputParser } from './input-parser.js';
+import { BudgetVarianceDataFetcher } from './data-fetcher.js';
+import { BudgetVarianceCalculator } from './variance-calculator.js';
+import { BudgetVarianceReportGenerator } from './report-generator.js';
+import { CategoryMapper } from '../../core/mapping/category-mapper.js';
+import { TransferClassifier } from '../../core/mapping/transfer-classifier.js';
+import { TransactionGrouper } from '../../core/aggregation/transaction-grouper.js';
+import { GroupAggregator } from '../../core/aggregation/group-by.js';
+import { success, errorFromCatch } from '../../utils/response.js';
+import {
+  BudgetVarianceArgsSchema,
+  BudgetVarianceOutputSchema,
+  type BudgetVarianceArgs,
+  type ToolInput,
+  type ToolOutput,
+} from '../../types.js';
+import { fetchAmountFormat } from '../../core/data/fetch-amount-format.js';
+
+export const schema = {
+  name: 'budget-variance',
+  description:
+    'Compare budgeted amounts with actual spending per category over a range of budget months and flag overspent categories',
+  inputSchema: zodToJsonSchema(BudgetVarianceArgsSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(BudgetVarianceOutputSchema) as ToolOutput,
+};
+
+export async function handler(args: BudgetVarianceArgs): Promise<CallToolResult> {
+  try {
+    const { startMonth, endMonth } = new BudgetVarianceInputParser().parse(args);
+    const { accounts, categories, categoryGroups, budgetMonths, transactions } =
+      await new BudgetVarianceDataFetcher().fetchAll(startMonth, endMonth);
+
+    const categoryMapper = new CategoryMapper(categories, categoryGroups);
+    const spendingByCategory = new TransactionGrouper().groupByCategory(
+      transactions,
+      (categoryId) => categoryMapper.getCategoryName(categoryId),
+      (categoryId) => categoryMapper.getGroupInfo(categoryId),
+      false,
+      new TransferClassifier(accounts)
+    );
+
+    const calculator = new BudgetVarianceCalculator();
+    const varianceByCategory = calculator.calculate(
+      spendingByCategory,
+      calculator.sumBudgeted(budgetMonths),
+      categoryMapper
+    );
+    const groups = calculator.summarizeGroups(new GroupAggregator().aggregateAndSort(varianceByCategory));
+
+    const amountFormat = await fetchAmountFormat();
+    const markdown = new BudgetVarianceReportGenerator(amountFormat).generate(groups, {
+      start: startMonth,
+      end: endMonth,
+    });
+    return success(markdown, BudgetVarianceOutputSchema.parse({ startMonth, endMonth, groups }));
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
@@ -0,0 +1,20 @@
+// Parses and validates input arguments for budget-variance tool
+import { BudgetVarianceArgsSchema } from '../../types.js';
+import { formatMonth } from '../../utils.js';
+
+export interface BudgetVarianceInput {
+  startMonth: string;
+  endMonth: string;
+}
+
+export class BudgetVarianceInputParser {
+  parse(args: unknown): BudgetVarianceInput {
+    const { startMonth, endMonth } = BudgetVarianceArgsSchema.parse(args ?? {});
+    const start = startMonth ?? formatMonth(new Date());
+    const end = endMonth ?? start;
+    if (start > end) {
+      throw new Error('startMonth must not be after endMonth');
+    }
+    return { startMonth: start, endMonth: end };
+  }
+}
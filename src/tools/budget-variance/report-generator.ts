@@ -0,0 +1,47 @@
+// Generates the markdown report for budget-variance tool
+import type { GroupVariance } from './types.js';
+import { formatAmount, resolveAmountFormat, type AmountFormat } from '../../utils.js';
+
+export class BudgetVarianceReportGenerator {
+  constructor(private readonly amountFormat: AmountFormat = resolveAmountFormat()) {}
+
+  generate(groups: GroupVariance[], period: { start: string; end: string }): string {
+    const overspentCategories = groups.flatMap((group) => group.categories.filter((category) => category.overspent));
+    const totalBudgeted = groups.reduce((sum, group) => sum + group.budgeted, 0);
+    const totalSpent = groups.reduce((sum, group) => sum + group.total, 0);
+
+    let markdown = `# Budget vs Actual\n\n`;
+    markdown += `Period: ${period.start} to ${period.end}\n\n`;
+    markdown += `Accounts: All on-budget accounts\n\n`;
+    markdown += `Total Budgeted: ${formatAmount(totalBudgeted, this.amountFormat)}\n`;
+    markdown += `Total Spent: ${formatAmount(totalSpent, this.amountFormat)}\n`;
+    markdown += `Total Remaining: ${formatAmount(totalBudgeted + totalSpent, this.amountFormat)}\n\n`;
+
+    if (overspentCategories.length > 0) {
+      markdown += `## Overspent Categories\n\n`;
+      markdown += `| Category | Group | Budgeted | Spent | Over By |\n`;
+      markdown += `| -------- | ----- | -------- | ----- | ------- |\n`;
+      [...overspentCategories]
+        .sort((a, b) => a.remaining - b.remaining)
+        .forEach((category) => {
+          markdown += `| ${category.name} | ${category.group} | ${formatAmount(category.budgeted, this.amountFormat)} | ${formatAmount(category.total, this.amountFormat)} | ${formatAmount(Math.abs(category.remaining), this.amountFormat)} |\n`;
+        });
+      markdown += `\n`;
+    } else {
+      markdown += `No overspent categories.\n\n`;
+    }
+
+    groups.forEach((group) => {
+      markdown += `## ${group.name}${group.overspent ? ' (overspent)' : ''}\n`;
+      markdown += `Budgeted: ${formatAmount(group.budgeted, this.amountFormat)} | Spent: ${formatAmount(group.total, this.amountFormat)} | Remaining: ${formatAmount(group.remaining, this.amountFormat)}\n\n`;
+      markdown += `| Category | Budgeted | Spent | Remaining | Transactions | Status |\n`;
+      markdown += `| -------- | -------- | ----- | --------- | ------------ | ------ |\n`;
+      group.categories.forEach((category) => {
+        const status = category.overspent ? 'Overspent' : 'On track';
+        markdown += `| ${category.name} | ${formatAmount(category.budgeted, this.amountFormat)} | ${formatAmount(category.total, this.amountFormat)} | ${formatAmount(category.remaining, this.amountFormat)} | ${category.transactions} | ${status} |\n`;
+      });
+      markdown += `\n`;
+    });
+    return markdown;
+  }
+}
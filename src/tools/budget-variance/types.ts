@@ -0,0 +1,14 @@
+// Types/interfaces for budget-variance tool
+import type { CategorySpending, GroupSpending } from '../../core/types/domain.js';
+
+export interface CategoryVariance extends CategorySpending {
+  budgeted: number;
+  remaining: number;
+  overspent: boolean;
+}
+
+export interface GroupVariance extends GroupSpending<CategoryVariance> {
+  budgeted: number;
+  remaining: number;
+  overspent: boolean;
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { BudgetVarianceCalculator } from './variance-calculator.js';
+import { CategoryMapper } from '../../core/mapping/category-mapper.js';
+import { GroupAggregator } from '../../core/aggregation/group-by.js';
+import type { BudgetMonth, CategorySpending } from '../../core/types/domain.js';
+
+const budgetMonth = (month: string, budgeted: Record<string, number>): BudgetMonth => ({
+  month,
+  incomeAvailable: 0,
+  lastMonthOverspent: 0,
+  forNextMonth: 0,
+  totalBudgeted: 0,
+  toBudget: 0,
+  fromLastMonth: 0,
+  totalIncome: 0,
+  totalSpent: 0,
+  totalBalance: 0,
+  categoryGroups: [
+    {
+      id: 'g1',
+      name: 'Living',
+      is_income: false,
+      categories: Object.entries(budgeted).map(([id, amount]) => ({
+        id,
+        name: id,
+        group_id: 'g1',
+        budgeted: amount,
+      })),
+    },
+    {
+      id: 'g2',
+      name: 'Income',
+      is_income: true,
+      categories: [{ id: 'salary', name: 'Salary', group_id: 'g2', is_income: true, received: 500000 }],
+    },
+  ],
+});
+
+describe('BudgetVarianceCalculator', () => {
+  const calculator = new BudgetVarianceCalculator();
+  const categoryMapper = new CategoryMapper(
+    [
+      { id: 'food', name: 'Food', group_id: 'g1' },
+      { id: 'rent', name: 'Rent', group_id: 'g1' },
+      { id: 'fun', name: 'Fun', group_id: 'g1' },
+      { id: 'salary', name: 'Salary', group_id: 'g2', is_income: true },
+    ],
+    [
+      { id: 'g1', name: 'Living', is_income: false },
+      { id: 'g2', name: 'Income', is_income: true },
+    ]
+  );
+
+  it('sums budgeted amounts per expense category across months', () => {
+    const result = calculator.sumBudgeted([
+      budgetMonth('2024-01', { food: 30000, rent: 100000 }),
+      budgetMonth('2024-02', { food: 35000, rent: 100000 }),
+    ]);
+
+    expect(result).toEqual({ food: 65000, rent: 200000 });
+  });
+
+  it('flags categories whose spending exceeds the budget', () => {
+    const spending: Record<string, CategorySpending> = {
+      food: { id: 'food', name: 'Food', group: 'Living', isIncome: false, total: -40000, transactions: 6 },
+      rent: { id: 'rent', name: 'Rent', group: 'Living', isIncome: false, total: -100000, transactions: 1 },
+    };
+
+    const result = calculator.calculate(spending, { food: 30000, rent: 100000 }, categoryMapper);
+
+    expect(result.food).toMatchObject({ budgeted: 30000, remaining: -10000, overspent: true });
+    expect(result.rent).toMatchObject({ budgeted: 100000, remaining: 0, overspent: false });
+  });
+
+  it('includes budgeted categories without transactions and unbudgeted spending', () => {
+    const spending: Record<string, CategorySpending> = {
+      fun: { id: 'fun', name: 'Fun', group: 'Living', isIncome: false, total: -2500, transactions: 1 },
+    };
+
+    const result = calculator.calculate(spending, { food: 30000, rent: 0 }, categoryMapper);
+
+    expect(result.food).toEqual({
+      id: 'food',
+      name: 'Food',
+      group: 'Living',
+      isIncome: false,
+      total: 0,
+      transactions: 0,
+      budgeted: 30000,
+      remaining: 30000,
+      overspent: false,
+    });
+    expect(result.fun).toMatchObject({ budgeted: 0, remaining: -2500, overspent: true });
+    expect(result).not.toHaveProperty('rent');
+  });
+
+  it('rolls category variances up to groups', () => {
+    const spending: Record<string, CategorySpending> = {
+      food: { id: 'food', name: 'Food', group: 'Living', isIncome: false, total: -40000, transactions: 6 },
+    };
+    const variances = calculator.calculate(spending, { food: 30000, rent: 100000 }, categoryMapper);
+
+    const [group] = calculator.summarizeGroups(new GroupAggregator().aggregateAndSort(variances));
+
+    expect(group.name).toBe('Living');
+    expect(group.budgeted).toBe(130000);
+    expect(group.total).toBe(-40000);
+    expect(group.remaining).toBe(90000);
+    expect(group.overspent).toBe(false);
+    expect(group.categories).toHaveLength(2);
+  });
+});
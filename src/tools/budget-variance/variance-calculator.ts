@@ -0,0 +1,75 @@
+// Joins budgeted amounts with actual category spending for budget-variance tool
+import type { BudgetMonth, CategorySpending, GroupSpending } from '../../core/types/domain.js';
+import type { CategoryMapper } from '../../core/mapping/category-mapper.js';
+import type { CategoryVariance, GroupVariance } from './types.js';
+
+export class BudgetVarianceCalculator {
+  /**
+   * Sum budgeted amounts per expense category across all given budget months.
+   */
+  sumBudgeted(budgetMonths: BudgetMonth[]): Record<string, number> {
+    const budgetedByCategory: Record<string, number> = {};
+    budgetMonths.forEach((budgetMonth) => {
+      budgetMonth.categoryGroups
+        .filter((group) => !group.is_income)
+        .forEach((group) => {
+          group.categories.forEach((category) => {
+            budgetedByCategory[category.id] = (budgetedByCategory[category.id] ?? 0) + (category.budgeted ?? 0);
+          });
+        });
+    });
+    return budgetedByCategory;
+  }
+
+  /**
+   * Attach budgeted amounts to category spending. Categories that were budgeted
+   * but had no transactions are included with a zero total.
+   */
+  calculate(
+    spendingByCategory: Record<string, CategorySpending>,
+    budgetedByCategory: Record<string, number>,
+    categoryMapper: CategoryMapper
+  ): Record<string, CategoryVariance> {
+    const varianceByCategory: Record<string, CategoryVariance> = {};
+
+    Object.values(spendingByCategory).forEach((category) => {
+      varianceByCategory[category.id] = this.toVariance(category, budgetedByCategory[category.id] ?? 0);
+    });
+
+    Object.entries(budgetedByCategory).forEach(([categoryId, budgeted]) => {
+      if (varianceByCategory[categoryId] || budgeted === 0) return;
+      const group = categoryMapper.getGroupInfo(categoryId);
+      if (group?.isIncome) return;
+      varianceByCategory[categoryId] = this.toVariance(
+        {
+          id: categoryId,
+          name: categoryMapper.getCategoryName(categoryId),
+          group: group?.name ?? 'Unknown Group',
+          isIncome: false,
+          total: 0,
+          transactions: 0,
+        },
+        budgeted
+      );
+    });
+
+    return varianceByCategory;
+  }
+
+  /**
+   * Roll category variances up to their groups, keeping the aggregator's order.
+   */
+  summarizeGroups(sortedGroups: GroupSpending<CategoryVariance>[]): GroupVariance[] {
+    return sortedGroups.map((group) => {
+      const budgeted = group.categories.reduce((sum, category) => sum + category.budgeted, 0);
+      const remaining = budgeted + group.total;
+      return { ...group, budgeted, remaining, overspent: remaining < 0 };
+    });
+  }
+
+  private toVariance(category: CategorySpending, budgeted: number): CategoryVariance {
+    // # Reason: Spending totals are negative, so adding them to the budget yields what is left.
+    const remaining = budgeted + category.total;
+    return { ...category, budgeted, remaining, overspent: remaining < 0 };
+  }
+}
@@ -0,0 +1,79 @@
+// ----------------------------
+// GET BUDGET MONTH TOOL TESTS
+// ----------------------------
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handler, schema } from './index.js';
+import * as actualApi from '../../../actual-api.js';
+import type { BudgetMonth } from '../../../core/types/domain.js';
+
+vi.mock('../../../actual-api.js', () => ({
+  getBudgetMonth: vi.fn(),
+  getBudgetPreferences: vi.fn(),
+}));
+
+describe('get-budget-month tool', () => {
+  const budgetMonth: BudgetMonth = {
+    month: '2024-03',
+    incomeAvailable: 500000,
+    lastMonthOverspent: 0,
+    forNextMonth: 0,
+    totalBudgeted: -50000,
+    toBudget: 450000,
+    fromLastMonth: 0,
+    totalIncome: 500000,
+    totalSpent: -32000,
+    totalBalance: 18000,
+    categoryGroups: [
+      {
+        id: 'g1',
+        name: 'Living',
+        is_income: false,
+        budgeted: 50000,
+        spent: -32000,
+        balance: 18000,
+        categories: [{ id: 'cat1', name: 'Groceries', group_id: 'g1', budgeted: 50000, spent: -32000, balance: 18000 }],
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(actualApi.getBudgetPreferences).mockResolvedValue({});
+  });
+
+  it('should declare an output schema', () => {
+    expect(schema.outputSchema.type).toBe('object');
+    expect(schema.outputSchema.required).toContain('categoryGroups');
+  });
+
+  it('should return structured content with raw integer amounts next to the markdown', async () => {
+    vi.mocked(actualApi.getBudgetMonth).mockResolvedValue(budgetMonth);
+
+    const result = await handler({ month: '2024-03' });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]).toMatchObject({ type: 'text' });
+    expect(result.structuredContent).toEqual(budgetMonth);
+  });
+
+  it('should drop fields that are not part of the output schema', async () => {
+    vi.mocked(actualApi.getBudgetMonth).mockResolvedValue({
+      ...budgetMonth,
+      internalField: 'x',
+    } as unknown as BudgetMonth);
+
+    const result = await handler({ month: '2024-03' });
+
+    expect(result.structuredContent).not.toHaveProperty('internalField');
+  });
+
+  it('should not return structured content for errors', async () => {
+    vi.mocked(actualApi.getBudgetMonth).mockRejectedValue(new Error('No budget data'));
+
+    const result = await handler({ month: '2024-03' });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+  });
+});
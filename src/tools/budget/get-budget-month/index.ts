@@ -0,0 +1,39 @@
+// ----------------------------
+// GET BUDGET MONTH TOOL
+// ----------------------------
+
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { success, errorFromCatch } from '../../../utils/response.js';
+import { formatMonth } from '../../../utils.js';
+import { fetchBudgetMonth } from '../../../core/data/fetch-budget.js';
+import { BudgetMonthReportGenerator } from './report-generator.js';
+import {
+  BudgetMonthOutputSchema,
+  GetBudgetMonthArgsSchema,
+  type GetBudgetMonthArgs,
+  type ToolInput,
+  type ToolOutput,
+} from '../../../types.js';
+import { fetchAmountFormat } from '../../../core/data/fetch-amount-format.js';
+
+export const schema = {
+  name: 'get-budget-month',
+  description:
+    'Get the envelope budget for a month: budgeted, spent, balance and carryover per category and group, plus the amount left to budget',
+  inputSchema: zodToJsonSchema(GetBudgetMonthArgsSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(BudgetMonthOutputSchema) as ToolOutput,
+};
+
+export async function handler(args: GetBudgetMonthArgs): Promise<CallToolResult> {
+  try {
+    const { month } = GetBudgetMonthArgsSchema.parse(args ?? {});
+    const budgetMonth = await fetchBudgetMonth(month ?? formatMonth(new Date()));
+
+    const amountFormat = await fetchAmountFormat();
+    const markdown = new BudgetMonthReportGenerator(amountFormat).generate(budgetMonth);
+    return success(markdown, BudgetMonthOutputSchema.parse(budgetMonth));
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
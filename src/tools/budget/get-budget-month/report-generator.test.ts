@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { BudgetMonthReportGenerator } from './report-generator.js';
+import type { BudgetMonth } from '../../../core/types/domain.js';
+
+describe('BudgetMonthReportGenerator', () => {
+  const budgetMonth: BudgetMonth = {
+    month: '2024-03',
+    incomeAvailable: 500000,
+    lastMonthOverspent: 0,
+    forNextMonth: 0,
+    totalBudgeted: -350000,
+    toBudget: 150000,
+    fromLastMonth: 0,
+    totalIncome: 500000,
+    totalSpent: -210000,
+    totalBalance: 140000,
+    categoryGroups: [
+      {
+        id: 'g1',
+        name: 'Living',
+        is_income: false,
+        budgeted: 350000,
+        spent: -210000,
+        balance: 140000,
+        categories: [
+          {
+            id: 'cat1',
+            name: 'Groceries',
+            group_id: 'g1',
+            budgeted: 50000,
+            spent: -32000,
+            balance: 18000,
+            carryover: false,
+          },
+          {
+            id: 'cat2',
+            name: 'Rent',
+            group_id: 'g1',
+            budgeted: 300000,
+            spent: -178000,
+            balance: 122000,
+            carryover: true,
+          },
+        ],
+      },
+      {
+        id: 'g2',
+        name: 'Income',
+        is_income: true,
+        received: 500000,
+        categories: [{ id: 'cat3', name: 'Salary', group_id: 'g2', is_income: true, received: 500000 }],
+      },
+    ],
+  };
+
+  it('renders the month summary with the amount left to budget', () => {
+    const markdown = new BudgetMonthReportGenerator().generate(budgetMonth);
+
+    expect(markdown).toContain('# Budget for 2024-03');
+    expect(markdown).toContain('To Budget: $1,500.00');
+    expect(markdown).toContain('| Income | $5,000.00 |');
+  });
+
+  it('renders budgeted, spent, balance and carryover per expense category', () => {
+    const markdown = new BudgetMonthReportGenerator().generate(budgetMonth);
+
+    expect(markdown).toContain('Budgeted: $3,500.00 | Spent: -$2,100.00 | Balance: $1,400.00');
+    expect(markdown).toContain('| cat1 | Groceries | $500.00 | -$320.00 | $180.00 | No |');
+    expect(markdown).toContain('| cat2 | Rent | $3,000.00 | -$1,780.00 | $1,220.00 | Yes |');
+  });
+
+  it('renders received amounts for income groups', () => {
+    const markdown = new BudgetMonthReportGenerator().generate(budgetMonth);
+
+    expect(markdown).toContain('Received: $5,000.00');
+    expect(markdown).toContain('| cat3 | Salary | $5,000.00 |');
+  });
+});
@@ -0,0 +1,53 @@
+// Generates the markdown report for get-budget-month tool
+import { formatAmount, resolveAmountFormat, type AmountFormat } from '../../../utils.js';
+import type { BudgetMonth, BudgetMonthCategoryGroup } from '../../../core/types/domain.js';
+
+export class BudgetMonthReportGenerator {
+  constructor(private readonly amountFormat: AmountFormat = resolveAmountFormat()) {}
+
+  generate(budgetMonth: BudgetMonth): string {
+    let markdown = `# Budget for ${budgetMonth.month}\n\n`;
+    markdown += `To Budget: ${formatAmount(budgetMonth.toBudget, this.amountFormat)}\n\n`;
+    markdown += `| Summary | Amount |\n`;
+    markdown += `| ------- | ------ |\n`;
+    markdown += `| Available Funds | ${formatAmount(budgetMonth.incomeAvailable, this.amountFormat)} |\n`;
+    markdown += `| Overspent Last Month | ${formatAmount(budgetMonth.lastMonthOverspent, this.amountFormat)} |\n`;
+    markdown += `| Budgeted | ${formatAmount(budgetMonth.totalBudgeted, this.amountFormat)} |\n`;
+    markdown += `| For Next Month | ${formatAmount(budgetMonth.forNextMonth, this.amountFormat)} |\n`;
+    markdown += `| Income | ${formatAmount(budgetMonth.totalIncome, this.amountFormat)} |\n`;
+    markdown += `| Spent | ${formatAmount(budgetMonth.totalSpent, this.amountFormat)} |\n`;
+    markdown += `| Balance | ${formatAmount(budgetMonth.totalBalance, this.amountFormat)} |\n\n`;
+
+    budgetMonth.categoryGroups.forEach((group) => {
+      markdown += group.is_income ? this.incomeGroup(group) : this.expenseGroup(group);
+    });
+
+    return markdown;
+  }
+
+  private expenseGroup(group: BudgetMonthCategoryGroup): string {
+    let markdown = `## ${group.name}${group.hidden ? ' (hidden)' : ''}\n`;
+    markdown += `Budgeted: ${formatAmount(group.budgeted, this.amountFormat)} | Spent: ${formatAmount(group.spent, this.amountFormat)} | Balance: ${formatAmount(group.balance, this.amountFormat)}\n\n`;
+    markdown += `| ID | Category | Budgeted | Spent | Balance | Carryover |\n`;
+    markdown += `| -- | -------- | -------- | ----- | ------- | --------- |\n`;
+    group.categories.forEach((category) => {
+      const name = `${category.name}${category.hidden ? ' (hidden)' : ''}`;
+      markdown += `| ${category.id} | ${name} | ${formatAmount(category.budgeted, this.amountFormat)} | ${formatAmount(category.spent, this.amountFormat)} | ${formatAmount(category.balance, this.amountFormat)} | ${category.carryover ? 'Yes' : 'No'} |\n`;
+    });
+    markdown += `\n`;
+    return markdown;
+  }
+
+  private incomeGroup(group: BudgetMonthCategoryGroup): string {
+    let markdown = `## ${group.name}${group.hidden ? ' (hidden)' : ''}\n`;
+    markdown += `Received: ${formatAmount(group.received, this.amountFormat)}\n\n`;
+    markdown += `| ID | Category | Received |\n`;
+    markdown += `| -- | -------- | -------- |\n`;
+    group.categories.forEach((category) => {
+      const name = `${category.name}${category.hidden ? ' (hidden)' : ''}`;
+      markdown += `| ${category.id} | ${name} | ${formatAmount(category.received, this.amountFormat)} |\n`;
+    });
+    markdown += `\n`;
+    return markdown;
+  }
+}
@@ -0,0 +1,42 @@
+// ----------------------------
+// LIST BUDGETS TOOL
+// ----------------------------
+
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { successWithJson, errorFromCatch } from '../../../utils/response.js';
+import { listBudgets } from '../../../actual-api.js';
+import { ListBudgetsOutputSchema, type ToolOutput } from '../../../types.js';
+
+export const schema = {
+  name: 'list-budgets',
+  description:
+    'List the budgets available on this server with their IDs, marking the one currently loaded and the default one. Pass a budget ID as budgetId to any tool, or use switch-budget to change the default.',
+  inputSchema: {
+    type: 'object',
+    description: 'This tool does not accept any arguments.',
+    properties: {},
+    additionalProperties: false,
+  },
+  outputSchema: zodToJsonSchema(ListBudgetsOutputSchema) as ToolOutput,
+};
+
+export async function handler(): Promise<CallToolResult> {
+  try {
+    const budgets = await listBudgets();
+
+    const structured = budgets.map((budget) => ({
+      name: budget.name,
+      syncId: budget.cloudFileId ?? null,
+      localId: budget.id ?? null,
+      encrypted: Boolean(budget.encryptKeyId),
+      downloaded: budget.state !== 'remote',
+      loaded: budget.loaded,
+      default: budget.isDefault,
+    }));
+
+    return successWithJson(structured, ListBudgetsOutputSchema.parse({ budgets: structured }));
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
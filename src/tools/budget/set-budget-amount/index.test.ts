@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handler, schema } from './index.js';
+import type { SetBudgetAmountArgs } from '../../../types.js';
+
+// CRITICAL: Mock before imports
+vi.mock('../../../actual-api.js', () => ({
+  setBudgetAmount: vi.fn(),
+}));
+
+import { setBudgetAmount } from '../../../actual-api.js';
+
+describe('set-budget-amount tool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('schema', () => {
+    it('should have correct name and required fields', () => {
+      expect(schema.name).toBe('set-budget-amount');
+      expect(schema.inputSchema.required).toEqual(['month', 'categoryId', 'amount']);
+    });
+  });
+
+  describe('handler', () => {
+    it('should set the budget amount for a category', async () => {
+      vi.mocked(setBudgetAmount).mockResolvedValue(undefined);
+
+      const result = await handler({ month: '2024-03', categoryId: 'cat-1', amount: 50000 });
+
+      expect(setBudgetAmount).toHaveBeenCalledWith('2024-03', 'cat-1', 50000);
+      expect(result.isError).toBeUndefined();
+      expect((result.content[0] as { text: string }).text).toContain('cat-1');
+    });
+
+    it('should reject months not in YYYY-MM format', async () => {
+      const result = await handler({ month: '2024-03-01', categoryId: 'cat-1', amount: 50000 });
+
+      expect(result.isError).toBe(true);
+      expect((result.content[0] as { text: string }).text).toContain('month must be in YYYY-MM format');
+      expect(setBudgetAmount).not.toHaveBeenCalled();
+    });
+
+    it('should reject non-integer amounts', async () => {
+      const result = await handler({ month: '2024-03', categoryId: 'cat-1', amount: 120.3 });
+
+      expect(result.isError).toBe(true);
+      expect(setBudgetAmount).not.toHaveBeenCalled();
+    });
+
+    it('should return error when categoryId is missing', async () => {
+      const result = await handler({ month: '2024-03', amount: 100 } as unknown as SetBudgetAmountArgs);
+
+      expect(result.isError).toBe(true);
+      expect(setBudgetAmount).not.toHaveBeenCalled();
+    });
+
+    it('should surface API errors', async () => {
+      vi.mocked(setBudgetAmount).mockRejectedValue(new Error('month is out of range'));
+
+      const result = await handler({ month: '1990-01', categoryId: 'cat-1', amount: 100 });
+
+      expect(result.isError).toBe(true);
+      expect((result.content[0] as { text: string }).text).toContain('month is out of range');
+    });
+  });
+});
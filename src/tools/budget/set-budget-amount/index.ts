@@ -0,0 +1,28 @@
+// ----------------------------
+// SET BUDGET AMOUNT TOOL
+// ----------------------------
+
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { success, errorFromCatch } from '../../../utils/response.js';
+import { setBudgetAmount } from '../../../actual-api.js';
+import { SetBudgetAmountArgsSchema, type SetBudgetAmountArgs, type ToolInput } from '../../../types.js';
+
+export const schema = {
+  name: 'set-budget-amount',
+  description: 'Set the budgeted amount of a category for a month',
+  inputSchema: zodToJsonSchema(SetBudgetAmountArgsSchema) as ToolInput,
+};
+
+export const argsSchema = SetBudgetAmountArgsSchema;
+
+export async function handler(args: SetBudgetAmountArgs): Promise<CallToolResult> {
+  try {
+    const { month, categoryId, amount } = SetBudgetAmountArgsSchema.parse(args);
+    await setBudgetAmount(month, categoryId, amount);
+
+    return success(`Successfully set budget amount for category ${categoryId} in ${month} to ${amount}`);
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
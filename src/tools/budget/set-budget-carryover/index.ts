@@ -0,0 +1,30 @@
+// ----------------------------
+// SET BUDGET CARRYOVER TOOL
+// ----------------------------
+
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { success, errorFromCatch } from '../../../utils/response.js';
+import { setBudgetCarryover } from '../../../actual-api.js';
+import { SetBudgetCarryoverArgsSchema, type SetBudgetCarryoverArgs, type ToolInput } from '../../../types.js';
+
+export const schema = {
+  name: 'set-budget-carryover',
+  description: 'Enable or disable rollover of overspending for an expense category, starting from the given month',
+  inputSchema: zodToJsonSchema(SetBudgetCarryoverArgsSchema) as ToolInput,
+};
+
+export const argsSchema = SetBudgetCarryoverArgsSchema;
+
+export async function handler(args: SetBudgetCarryoverArgs): Promise<CallToolResult> {
+  try {
+    const { month, categoryId, flag } = SetBudgetCarryoverArgsSchema.parse(args);
+    await setBudgetCarryover(month, categoryId, flag);
+
+    return success(
+      `Successfully ${flag ? 'enabled' : 'disabled'} carryover for category ${categoryId} starting ${month}`
+    );
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
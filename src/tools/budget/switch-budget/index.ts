@@ -0,0 +1,42 @@
+// ----------------------------
+// SWITCH BUDGET TOOL
+// ----------------------------
+
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { successWithJson, errorFromCatch } from '../../../utils/response.js';
+import { setDefaultBudget } from '../../../actual-api.js';
+import {
+  SwitchBudgetArgsSchema,
+  SwitchBudgetOutputSchema,
+  type SwitchBudgetArgs,
+  type ToolInput,
+  type ToolOutput,
+} from '../../../types.js';
+import type { ToolScope } from '../../../auth/scopes.js';
+
+export const schema = {
+  name: 'switch-budget',
+  description: 'Load a budget and make it the default for all following tool calls that do not pass their own budgetId',
+  inputSchema: zodToJsonSchema(SwitchBudgetArgsSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(SwitchBudgetOutputSchema) as ToolOutput,
+};
+
+// The default budget is shared by every client of the server
+export const scope: ToolScope = 'admin';
+
+export async function handler(args: SwitchBudgetArgs): Promise<CallToolResult> {
+  try {
+    const { budgetId } = SwitchBudgetArgsSchema.parse(args);
+    const budget = await setDefaultBudget(budgetId);
+
+    return successWithJson(
+      'Successfully switched to budget ' + budget.name,
+      SwitchBudgetOutputSchema.parse({
+        budget: { name: budget.name, syncId: budget.cloudFileId ?? null, localId: budget.id ?? null },
+      })
+    );
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
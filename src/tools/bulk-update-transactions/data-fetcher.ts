@@ -0,0 +1,41 @@
+// Selects the transactions to update for bulk-update-transactions tool
+import { fetchAllAccounts } from '../../core/data/fetch-accounts.js';
+import { fetchAllTransactions, fetchTransactionsByIds } from '../../core/data/fetch-transactions.js';
+import { TransferClassifier } from '../../core/mapping/transfer-classifier.js';
+import type { Transaction } from '../../core/types/domain.js';
+import type { BulkTransactionFilter } from '../../types.js';
+
+const includesText = (value: string | undefined, search: string): boolean =>
+  (value || '').toLowerCase().includes(search.toLowerCase());
+
+export class BulkUpdateDataFetcher {
+  async fetchByIds(ids: string[]): Promise<{ transactions: Transaction[]; missingIds: string[] }> {
+    const transactions = await fetchTransactionsByIds([...new Set(ids)]);
+    const missingIds = ids.filter((id) => !transactions.some((t) => t.id === id));
+    return { transactions, missingIds };
+  }
+
+  async fetchByFilter(filter: BulkTransactionFilter, start: string, end: string): Promise<Transaction[]> {
+    const accounts = await fetchAllAccounts();
+    if (filter.accountId && !accounts.some((a) => a.id === filter.accountId)) {
+      throw new Error(`Unknown account ID: ${filter.accountId}`);
+    }
+    const selected = accounts.filter((a) => {
+      if (filter.accountId) return a.id === filter.accountId;
+      return !a.closed;
+    });
+    const transfers = new TransferClassifier(accounts);
+    // # Reason: Off-budget accounts take no categories, so "uncategorized" only applies to on-budget ones.
+    const onBudgetIds = new Set(accounts.filter((a) => !a.offbudget).map((a) => a.id));
+
+    const transactions = await fetchAllTransactions(selected, start, end);
+    return transactions.filter((t) => {
+      if (filter.payeeName && !includesText(t.payee_name, filter.payeeName)) return false;
+      if (filter.uncategorized) {
+        if (t.category || t.is_parent || !onBudgetIds.has(t.account)) return false;
+        if (transfers.isOnBudgetTransfer(t)) return false;
+      }
+      return true;
+    });
+  }
+}
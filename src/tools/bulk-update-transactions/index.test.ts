@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handler } from './index.js';
+import * as actualApi from '../../actual-api.js';
+import { fetchAllAccounts } from '../../core/data/fetch-accounts.js';
+import { fetchAllTransactions, fetchTransactionsByIds } from '../../core/data/fetch-transactions.js';
+import type { Transaction } from '../../core/types/domain.js';
+
+vi.mock('../../actual-api.js', () => ({
+  updateTransactions: vi.fn(),
+}));
+
+vi.mock('../../core/data/fetch-accounts.js', () => ({
+  fetchAllAccounts: vi.fn(),
+}));
+
+vi.mock('../../core/data/fetch-transactions.js', () => ({
+  fetchAllTransactions: vi.fn(),
+  fetchTransactionsByIds: vi.fn(),
+}));
+
+const transactions: Transaction[] = [
+  { id: 'lunch', account: 'checking', date: '2026-01-05', amount: -1200, payee_name: 'Cafe', notes: 'Lunch' },
+  { id: 'coffee', account: 'checking', date: '2026-01-06', amount: -400, payee_name: 'Cafe', category: 'food' },
+  { id: 'rent', account: 'checking', date: '2026-01-01', amount: -90000, payee_name: 'Landlord' },
+  {
+    id: 'to-savings',
+    account: 'checking',
+    date: '2026-01-02',
+    amount: -5000,
+    transfer_id: 'x',
+    transfer_account: 'savings',
+  },
+];
+
+const jsonOf = (result: Awaited<ReturnType<typeof handler>>): Record<string, unknown> =>
+  JSON.parse((result.content[0] as { text: string }).text) as Record<string, unknown>;
+
+describe('bulk-update-transactions tool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fetchAllAccounts).mockResolvedValue([
+      { id: 'checking', name: 'Checking', offbudget: false, closed: false },
+      { id: 'savings', name: 'Savings', offbudget: false, closed: false },
+    ]);
+    vi.mocked(fetchAllTransactions).mockResolvedValue(transactions);
+    vi.mocked(actualApi.updateTransactions).mockImplementation(async (updates) =>
+      updates.map(({ id }) => ({ id, error: null }))
+    );
+  });
+
+  it('categorizes uncategorized transactions matching the filter in one batch', async () => {
+    const result = await handler({ filter: { payeeName: 'cafe', uncategorized: true }, patch: { category: 'food' } });
+
+    expect(result.isError).toBeUndefined();
+    expect(actualApi.updateTransactions).toHaveBeenCalledTimes(1);
+    expect(actualApi.updateTransactions).toHaveBeenCalledWith([{ id: 'lunch', data: { category: 'food' } }]);
+    expect(jsonOf(result)).toMatchObject({ transactionsMatched: 1, transactionsChanged: 1, failed: 0 });
+  });
+
+  it('never matches on-budget transfers as uncategorized', async () => {
+    await handler({ filter: { uncategorized: true }, patch: { category: 'food' } });
+
+    const ids = vi.mocked(actualApi.updateTransactions).mock.calls[0][0].map(({ id }) => id);
+    expect(ids).toEqual(['lunch', 'rent']);
+  });
+
+  it('reports planned changes without saving on dry run', async () => {
+    const result = await handler({ filter: { payeeName: 'cafe' }, patch: { tags: ['work'] }, dryRun: true });
+
+    expect(actualApi.updateTransactions).not.toHaveBeenCalled();
+    expect(jsonOf(result).results).toEqual([
+      expect.objectContaining({ id: 'lunch', status: 'would-update', changes: ['notes: "Lunch" -> "Lunch #work"'] }),
+      expect.objectContaining({ id: 'coffee', status: 'would-update', changes: ['notes: null -> "#work"'] }),
+    ]);
+  });
+
+  it('returns a result per transaction for ID lists, including missing and failed ones', async () => {
+    vi.mocked(fetchTransactionsByIds).mockResolvedValue([transactions[0], transactions[1]]);
+    vi.mocked(actualApi.updateTransactions).mockResolvedValue([{ id: 'lunch', error: 'locked' }]);
+
+    const result = await handler({ ids: ['lunch', 'coffee', 'gone'], patch: { category: 'food' } });
+
+    expect(jsonOf(result).results).toEqual([
+      expect.objectContaining({ id: 'lunch', status: 'failed', error: 'locked' }),
+      expect.objectContaining({ id: 'coffee', status: 'unchanged', changes: [] }),
+      expect.objectContaining({ id: 'gone', status: 'not-found' }),
+    ]);
+    expect(jsonOf(result)).toMatchObject({ transactionsChanged: 0, failed: 2 });
+  });
+
+  it('requires exactly one of ids and filter', async () => {
+    const result = await handler({ patch: { cleared: true } });
+
+    expect(result.isError).toBe(true);
+    expect(fetchAllTransactions).not.toHaveBeenCalled();
+  });
+});
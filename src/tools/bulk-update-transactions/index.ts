@@ -0,0 +1,75 @@
+// Orchestrator for bulk-update-transactions tool
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { BulkUpdateDataFetcher } from './data-fetcher.js';
+import { BulkPatchPlanner } from './patch-planner.js';
+import { updateTransactions } from '../../actual-api.js';
+import { successWithJson, errorFromCatch } from '../../utils/response.js';
+import { getDateRange } from '../../utils.js';
+import { BulkUpdateTransactionsArgsSchema, type BulkUpdateTransactionsArgs, type ToolInput } from '../../types.js';
+import type { Transaction } from '../../core/types/domain.js';
+import type { BulkUpdateResult } from './types.js';
+
+export const schema = {
+  name: 'bulk-update-transactions',
+  description:
+    'Update many transactions at once, selected by a list of IDs or by a filter (account, payee, date range, uncategorized). The patch can set category, payee, notes and cleared status, and add #tags to the notes. Use dryRun to see what would change first. Returns a result per transaction.',
+  inputSchema: zodToJsonSchema(BulkUpdateTransactionsArgsSchema) as ToolInput,
+};
+
+export const argsSchema = BulkUpdateTransactionsArgsSchema;
+
+export async function handler(args: BulkUpdateTransactionsArgs): Promise<CallToolResult> {
+  try {
+    const { ids, filter, patch, dryRun } = BulkUpdateTransactionsArgsSchema.parse(args);
+    if ((ids === undefined) === (filter === undefined)) {
+      throw new Error('Provide either ids or filter to select the transactions to update');
+    }
+    if (Object.values(patch).every((value) => value === undefined)) {
+      throw new Error('No fields provided to update. Please specify at least one field in patch.');
+    }
+
+    const fetcher = new BulkUpdateDataFetcher();
+    let transactions: Transaction[];
+    let missingIds: string[] = [];
+    let period: { start: string; end: string } | undefined;
+    if (ids) {
+      ({ transactions, missingIds } = await fetcher.fetchByIds(ids));
+    } else {
+      const { startDate: start, endDate: end } = getDateRange(filter?.startDate, filter?.endDate);
+      period = { start, end };
+      transactions = await fetcher.fetchByFilter(filter ?? {}, start, end);
+    }
+
+    const planner = new BulkPatchPlanner();
+    const planned = transactions.map((transaction) => ({ transaction, update: planner.plan(transaction, patch) }));
+    const toUpdate = planned.filter(({ update }) => Object.keys(update.data).length > 0);
+
+    const errorsById = new Map<string, string>();
+    if (!dryRun && toUpdate.length > 0) {
+      const saved = await updateTransactions(toUpdate.map(({ update }) => ({ id: update.id, data: update.data })));
+      saved.forEach(({ id, error }) => error !== null && errorsById.set(id, error));
+    }
+
+    const results: BulkUpdateResult[] = [
+      ...planned.map(({ transaction, update }): BulkUpdateResult => {
+        const changes = planner.describe(transaction, update.data);
+        const error = errorsById.get(update.id);
+        const status = changes.length === 0 ? 'unchanged' : dryRun ? 'would-update' : error ? 'failed' : 'updated';
+        return { id: update.id, date: update.date, payee: update.payee, status, changes, ...(error && { error }) };
+      }),
+      ...missingIds.map((id): BulkUpdateResult => ({ id, date: null, payee: null, status: 'not-found', changes: [] })),
+    ];
+
+    return successWithJson({
+      dryRun,
+      ...(period && { period }),
+      transactionsMatched: transactions.length,
+      transactionsChanged: toUpdate.length - errorsById.size,
+      failed: errorsById.size + missingIds.length,
+      results,
+    });
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
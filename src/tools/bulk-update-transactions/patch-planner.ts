@@ -0,0 +1,56 @@
+// Turns a bulk patch into the per-transaction updates for bulk-update-transactions tool
+import type { Transaction } from '../../core/types/domain.js';
+import type { BulkTransactionPatch, UpdateTransactionData } from '../../types.js';
+import type { PlannedUpdate } from './types.js';
+
+export class BulkPatchPlanner {
+  /**
+   * Compute the update for one transaction, keeping only the fields that differ from its current values.
+   * Tags are appended to the notes (the patched notes when given) unless the notes already have them.
+   */
+  plan(transaction: Transaction, patch: BulkTransactionPatch): PlannedUpdate {
+    const { tags, ...fields } = patch;
+    const data: UpdateTransactionData = {};
+
+    if (fields.category !== undefined && fields.category !== transaction.category) {
+      data.category = fields.category;
+    }
+    if (fields.payee !== undefined && fields.payee !== transaction.payee) {
+      data.payee = fields.payee;
+    }
+    if (fields.payee_name !== undefined && fields.payee_name !== transaction.payee_name) {
+      data.payee_name = fields.payee_name;
+    }
+    if (fields.cleared !== undefined && fields.cleared !== Boolean(transaction.cleared)) {
+      data.cleared = fields.cleared;
+    }
+
+    const notes = this.withTags(fields.notes ?? transaction.notes ?? '', tags ?? []);
+    if (notes !== (transaction.notes ?? '')) {
+      data.notes = notes;
+    }
+
+    return {
+      id: transaction.id,
+      date: transaction.date,
+      payee: transaction.payee_name || transaction.payee || '(No payee)',
+      data,
+    };
+  }
+
+  /**
+   * Human-readable description of each change, e.g. "notes: "Lunch" -> "Lunch #work""
+   */
+  describe(transaction: Transaction, data: UpdateTransactionData): string[] {
+    return Object.entries(data).map(([field, value]) => {
+      const before = transaction[field as keyof Transaction];
+      return `${field}: ${JSON.stringify(before ?? null)} -> ${JSON.stringify(value)}`;
+    });
+  }
+
+  private withTags(notes: string, tags: string[]): string {
+    const existing = new Set(notes.split(/\s+/).filter((word) => word.startsWith('#')));
+    const missing = tags.map((tag) => `#${tag}`).filter((tag) => !existing.has(tag));
+    return [notes, ...[...new Set(missing)]].filter(Boolean).join(' ');
+  }
+}
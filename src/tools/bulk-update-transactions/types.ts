@@ -0,0 +1,19 @@
+// Types/interfaces for bulk-update-transactions tool
+import type { UpdateTransactionData } from '../../types.js';
+
+export interface PlannedUpdate {
+  id: string;
+  date: string;
+  payee: string;
+  // Only the fields whose value actually changes
+  data: UpdateTransactionData;
+}
+
+export interface BulkUpdateResult {
+  id: string;
+  date: string | null;
+  payee: string | null;
+  status: 'updated' | 'would-update' | 'unchanged' | 'not-found' | 'failed';
+  changes: string[];
+  error?: string;
+}
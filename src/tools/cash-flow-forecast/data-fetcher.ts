@@ -0,0 +1,39 @@
+// Fetches accounts, balances, schedules, transaction history and already entered future transactions for cash-flow-forecast tool
+import { fetchAllAccounts } from '../../core/data/fetch-accounts.js';
+import { fetchAllPayees } from '../../core/data/fetch-payees.js';
+import { fetchAllSchedules } from '../../core/data/fetch-schedules.js';
+import { fetchAllTransactions } from '../../core/data/fetch-transactions.js';
+import { getAccountBalance } from '../../actual-api.js';
+import type { APIScheduleEntity } from '@actual-app/api/@types/loot-core/src/server/api-models.js';
+import type { Account, Payee, Transaction } from '../../core/types/domain.js';
+
+export class CashFlowForecastDataFetcher {
+  async fetchAll(
+    accountId: string | undefined,
+    historyStart: string | undefined,
+    today: string,
+    end: string
+  ): Promise<{
+    accounts: Account[];
+    schedules: APIScheduleEntity[];
+    payees: Payee[];
+    history: Transaction[];
+    upcoming: Transaction[];
+  }> {
+    const allAccounts = await fetchAllAccounts();
+    if (accountId && !allAccounts.some((a) => a.id === accountId)) {
+      throw new Error(`Unknown account ID: ${accountId}`);
+    }
+    const accounts = accountId ? allAccounts.filter((a) => a.id === accountId) : allAccounts.filter((a) => !a.closed);
+
+    for (const account of accounts) {
+      account.balance = await getAccountBalance(account.id);
+    }
+
+    const [schedules, payees] = await Promise.all([fetchAllSchedules(), fetchAllPayees()]);
+    const history = historyStart ? await fetchAllTransactions(accounts, historyStart, today) : [];
+    // # Reason: Balances stop at today, so transactions already entered with a later date are forecast events.
+    const upcoming = (await fetchAllTransactions(accounts, today, end)).filter((t) => t.date > today);
+    return { accounts, schedules, payees, history, upcoming };
+  }
+}
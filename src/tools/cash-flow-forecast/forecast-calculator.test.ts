@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { CashFlowForecastCalculator } from './forecast-calculator.js';
+import type { APIScheduleEntity } from '@actual-app/api/@types/loot-core/src/server/api-models.js';
+import type { Transaction } from '../../core/types/domain.js';
+
+describe('CashFlowForecastCalculator', () => {
+  const calculator = new CashFlowForecastCalculator();
+  const accounts = [
+    { id: 'acc1', name: 'Checking', balance: 100000 },
+    { id: 'acc2', name: 'Credit Card', balance: -20000 },
+  ];
+  const payees = [
+    { id: 'p1', name: 'Landlord' },
+    { id: 'p2', name: 'Streaming' },
+    { id: 'p3', name: 'Gym' },
+  ];
+
+  const schedules: APIScheduleEntity[] = [
+    {
+      id: 's1',
+      name: 'Rent',
+      posts_transaction: false,
+      next_date: '2024-03-01',
+      completed: false,
+      payee: 'p1',
+      account: 'acc1',
+      amount: -150000,
+      amountOp: 'is',
+      date: { frequency: 'monthly', start: '2024-01-01' },
+    },
+  ];
+
+  const history: Transaction[] = [
+    ...['2023-12-10', '2024-01-10', '2024-02-10'].map((date, i) => ({
+      id: `st${i}`,
+      account: 'acc2',
+      date,
+      amount: -1500,
+      payee: 'p2',
+    })),
+    // Already covered by the rent schedule
+    ...['2023-12-01', '2024-01-01', '2024-02-01'].map((date, i) => ({
+      id: `r${i}`,
+      account: 'acc1',
+      date,
+      amount: -150000,
+      payee: 'p1',
+    })),
+  ];
+
+  it('combines scheduled and detected recurring transactions without double counting', () => {
+    const events = calculator.collectEvents(accounts, schedules, payees, history, '2024-02-20', '2024-03-31');
+
+    expect(events.map((e) => [e.date, e.accountName, e.amount, e.source])).toEqual([
+      ['2024-03-01', 'Checking', -150000, 'schedule'],
+      ['2024-03-10', 'Credit Card', -1500, 'recurring'],
+    ]);
+    expect(events[1]).toMatchObject({ description: 'Streaming (monthly)', sourceId: 'p2', isOverdue: false });
+  });
+
+  it('places overdue schedules on the first day', () => {
+    const events = calculator.collectEvents(accounts, schedules, payees, [], '2024-03-05', '2024-03-31');
+
+    expect(events[0]).toMatchObject({ date: '2024-03-05', isOverdue: true, amount: -150000 });
+  });
+
+  it('places active recurring transactions that are a few days late on the first day', () => {
+    // Streaming was expected on 2024-03-10; rent was due 2024-03-01, too long ago to still be active
+    const events = calculator.collectEvents(accounts, [], payees, history, '2024-03-13', '2024-04-30');
+
+    expect(events.map((e) => [e.date, e.accountName, e.isOverdue])).toEqual([
+      ['2024-03-13', 'Credit Card', true],
+      ['2024-04-10', 'Credit Card', false],
+    ]);
+  });
+
+  it('includes transactions already entered with a future date in place of the projected occurrence', () => {
+    const upcoming: Transaction[] = [
+      { id: 'f1', account: 'acc1', date: '2024-02-28', amount: -150000, payee: 'p1', payee_name: 'Landlord' },
+      { id: 'f2', account: 'acc1', date: '2024-03-05', amount: -4000, payee: 'p3' },
+    ];
+
+    const events = calculator.collectEvents(accounts, schedules, payees, history, '2024-02-20', '2024-03-31', upcoming);
+
+    expect(events.map((e) => [e.date, e.description, e.amount, e.source, e.sourceId])).toEqual([
+      ['2024-02-28', 'Landlord', -150000, 'transaction', 'f1'],
+      ['2024-03-05', 'Gym', -4000, 'transaction', 'f2'],
+      ['2024-03-10', 'Streaming (monthly)', -1500, 'recurring', 'p2'],
+    ]);
+  });
+
+  it('tracks daily balances, the lowest point and negative periods', () => {
+    const events = [
+      {
+        date: '2024-03-01',
+        accountId: 'acc1',
+        accountName: 'Checking',
+        description: 'Rent',
+        amount: -150000,
+        source: 'schedule' as const,
+        sourceId: 's1',
+        isOverdue: false,
+      },
+      {
+        date: '2024-03-15',
+        accountId: 'acc1',
+        accountName: 'Checking',
+        description: 'Employer (biweekly)',
+        amount: 250000,
+        source: 'recurring' as const,
+        sourceId: 'p4',
+        isOverdue: false,
+      },
+      {
+        date: '2024-03-10',
+        accountId: 'acc2',
+        accountName: 'Credit Card',
+        description: 'Streaming (monthly)',
+        amount: -1500,
+        source: 'recurring' as const,
+        sourceId: 'p2',
+        isOverdue: false,
+      },
+    ];
+
+    const [checking, card] = calculator.project(accounts, events, '2024-02-20', '2024-03-31');
+
+    expect(checking).toMatchObject({
+      startingBalance: 100000,
+      endingBalance: 200000,
+      lowestBalance: -50000,
+      lowestDate: '2024-03-01',
+      negativePeriods: [{ from: '2024-03-01', to: '2024-03-14' }],
+      balances: [
+        { date: '2024-03-01', balance: -50000 },
+        { date: '2024-03-15', balance: 200000 },
+      ],
+    });
+    // Already negative today, so not flagged
+    expect(card).toMatchObject({ endingBalance: -21500, lowestBalance: -21500, negativePeriods: [] });
+  });
+});
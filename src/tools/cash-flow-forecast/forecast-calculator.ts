@@ -0,0 +1,153 @@
+// Collects expected transactions and projects daily account balances for cash-flow-forecast tool
+import { UpcomingBillsCalculator } from '../upcoming-bills/bills-calculator.js';
+import { RecurringTransactionDetector } from '../../core/recurring/recurring-detector.js';
+import type { APIScheduleEntity } from '@actual-app/api/@types/loot-core/src/server/api-models.js';
+import type { Account, Payee, Transaction } from '../../core/types/domain.js';
+import type { AccountForecast, ForecastEvent } from './types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const nextDay = (date: string): string =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + DAY_MS).toISOString().slice(0, 10);
+
+const daysApart = (a: string, b: string): number =>
+  Math.abs(new Date(`${a}T00:00:00Z`).getTime() - new Date(`${b}T00:00:00Z`).getTime()) / DAY_MS;
+
+// A transaction entered ahead of time this close to a projected one is taken to be that occurrence
+const ENTERED_MATCH_DAYS = 7;
+
+export class CashFlowForecastCalculator {
+  private detector = new RecurringTransactionDetector();
+
+  collectEvents(
+    accounts: Account[],
+    schedules: APIScheduleEntity[],
+    payees: Payee[],
+    history: Transaction[],
+    start: string,
+    end: string,
+    upcoming: Transaction[] = []
+  ): ForecastEvent[] {
+    const accountNames = new Map(accounts.map((a) => [a.id, a.name]));
+    const payeeNames = new Map(payees.map((p) => [p.id, p.name]));
+
+    const scheduled: ForecastEvent[] = new UpcomingBillsCalculator()
+      .calculate(schedules, accounts, payees, start, end)
+      .filter((bill) => bill.accountId && accountNames.has(bill.accountId))
+      .map((bill) => ({
+        date: bill.isOverdue ? start : bill.date,
+        accountId: bill.accountId!,
+        accountName: bill.accountName,
+        description: bill.name,
+        amount: bill.amount,
+        source: 'schedule' as const,
+        sourceId: bill.scheduleId,
+        isOverdue: bill.isOverdue,
+      }));
+
+    // # Reason: A payee/account pair with an active schedule is already covered; projecting its history too would double count.
+    const scheduledPairs = new Set(
+      schedules.filter((s) => !s.completed && s.payee && s.account).map((s) => `${s.payee}|${s.account}`)
+    );
+    const recurring: ForecastEvent[] = this.detector
+      .detect(history, { asOf: start })
+      .filter((series) => series.active && accountNames.has(series.accountId))
+      .filter((series) => !scheduledPairs.has(`${series.payeeId}|${series.accountId}`))
+      .flatMap((series) => {
+        // # Reason: Active series may be a few days late; like overdue schedules, that payment is still expected.
+        const late = series.nextDate < start ? [{ date: start, isOverdue: true }] : [];
+        const projected = this.detector.projectDates(series, start, end).map((date) => ({ date, isOverdue: false }));
+        return [...late, ...projected].map(({ date, isOverdue }) => ({
+          date,
+          accountId: series.accountId,
+          accountName: accountNames.get(series.accountId)!,
+          description: `${payeeNames.get(series.payeeId) ?? series.payeeId} (${series.cadence})`,
+          amount: series.lastAmount,
+          source: 'recurring' as const,
+          sourceId: series.payeeId,
+          isOverdue,
+        }));
+      });
+
+    const entered: ForecastEvent[] = upcoming
+      .filter((t) => !t.parent_id && t.date > start && t.date <= end && accountNames.has(t.account))
+      .map((t) => ({
+        date: t.date,
+        accountId: t.account,
+        accountName: accountNames.get(t.account)!,
+        description: t.payee_name ?? (t.payee ? payeeNames.get(t.payee) : undefined) ?? t.notes ?? 'Transaction',
+        amount: t.amount,
+        source: 'transaction' as const,
+        sourceId: t.id,
+        isOverdue: false,
+      }));
+
+    // Projected occurrences the user already entered are replaced by the entered transaction
+    const schedulePayees = new Map(schedules.map((s) => [s.id, s.payee]));
+    const isEntered = (event: ForecastEvent): boolean => {
+      const payeeId = event.source === 'schedule' ? schedulePayees.get(event.sourceId) : event.sourceId;
+      return upcoming.some(
+        (t) =>
+          t.account === event.accountId && t.payee === payeeId && daysApart(t.date, event.date) <= ENTERED_MATCH_DAYS
+      );
+    };
+
+    return [...[...scheduled, ...recurring].filter((event) => !isEntered(event)), ...entered].sort(
+      (a, b) => a.date.localeCompare(b.date) || a.accountName.localeCompare(b.accountName) || a.amount - b.amount
+    );
+  }
+
+  /**
+   * Walk each account day by day from start to end, recording the balance after every day with activity.
+   * Accounts that are already negative today (e.g. credit cards) are not flagged as going negative.
+   */
+  project(accounts: Account[], events: ForecastEvent[], start: string, end: string): AccountForecast[] {
+    return accounts.map((account) => {
+      const startingBalance = account.balance ?? 0;
+      const tracksNegative = startingBalance >= 0;
+      const changes = new Map<string, number>();
+      events
+        .filter((event) => event.accountId === account.id)
+        .forEach((event) => changes.set(event.date, (changes.get(event.date) ?? 0) + event.amount));
+
+      const forecast: AccountForecast = {
+        accountId: account.id,
+        accountName: account.name,
+        startingBalance,
+        endingBalance: startingBalance,
+        lowestBalance: startingBalance,
+        lowestDate: start,
+        negativePeriods: [],
+        balances: [],
+      };
+
+      let balance = startingBalance;
+      let negativeSince: string | null = null;
+      let previous = start;
+      for (let date = start; date <= end; date = nextDay(date)) {
+        const change = changes.get(date);
+        if (change !== undefined) {
+          balance += change;
+          forecast.balances.push({ date, balance });
+        }
+        if (balance < forecast.lowestBalance) {
+          forecast.lowestBalance = balance;
+          forecast.lowestDate = date;
+        }
+        if (tracksNegative && balance < 0 && negativeSince === null) {
+          negativeSince = date;
+        } else if (balance >= 0 && negativeSince !== null) {
+          forecast.negativePeriods.push({ from: negativeSince, to: previous });
+          negativeSince = null;
+        }
+        previous = date;
+      }
+      if (negativeSince !== null) {
+        forecast.negativePeriods.push({ from: negativeSince, to: end });
+      }
+
+      forecast.endingBalance = balance;
+      return forecast;
+    });
+  }
+}
@@ -0,0 +1,67 @@
+// Orchestrator for cash-flow-forecast tool
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { CashFlowForecastDataFetcher } from './data-fetcher.js';
+import { CashFlowForecastCalculator } from './forecast-calculator.js';
+import { CashFlowForecastReportGenerator } from './report-generator.js';
+import { BalanceHistoryCalculator } from '../balance-history/balance-calculator.js';
+import { success, errorFromCatch } from '../../utils/response.js';
+import { formatDate } from '../../utils.js';
+import {
+  CashFlowForecastArgsSchema,
+  CashFlowForecastOutputSchema,
+  type CashFlowForecastArgs,
+  type ToolInput,
+  type ToolOutput,
+} from '../../types.js';
+import { fetchAmountFormat } from '../../core/data/fetch-amount-format.js';
+
+export const schema = {
+  name: 'cash-flow-forecast',
+  description:
+    "Project each account's daily balance over the next 30-180 days (default 90) from current balances, scheduled transactions, transactions already entered with a future date and recurring income/expenses detected in history, flagging the dates where an account would go negative.",
+  inputSchema: zodToJsonSchema(CashFlowForecastArgsSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(CashFlowForecastOutputSchema) as ToolOutput,
+};
+
+export async function handler(args: CashFlowForecastArgs): Promise<CallToolResult> {
+  try {
+    const input = CashFlowForecastArgsSchema.parse(args ?? {});
+    const today = new Date();
+    const end = new Date(today);
+    end.setDate(today.getDate() + input.days);
+    const period = { start: formatDate(today), end: formatDate(end) };
+
+    let historyStart: string | undefined;
+    if (input.includeRecurring) {
+      const start = new Date(today);
+      start.setMonth(today.getMonth() - input.historyMonths);
+      historyStart = formatDate(start);
+    }
+
+    const { accounts, schedules, payees, history, upcoming } = await new CashFlowForecastDataFetcher().fetchAll(
+      input.accountId,
+      historyStart,
+      period.start,
+      period.end
+    );
+
+    const calculator = new CashFlowForecastCalculator();
+    const events = calculator.collectEvents(accounts, schedules, payees, history, period.start, period.end, upcoming);
+    const forecasts = calculator.project(accounts, events, period.start, period.end);
+
+    const months = (end.getFullYear() - today.getFullYear()) * 12 + end.getMonth() - today.getMonth() + 1;
+    const monthEnds = new BalanceHistoryCalculator().project(
+      accounts,
+      events.map((event) => ({ account: event.accountId, date: event.date, amount: event.amount })),
+      today,
+      months
+    );
+
+    const amountFormat = await fetchAmountFormat();
+    const markdown = new CashFlowForecastReportGenerator(amountFormat).generate(forecasts, events, monthEnds, period);
+    return success(markdown, CashFlowForecastOutputSchema.parse({ ...period, accounts: forecasts, events }));
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
@@ -0,0 +1,65 @@
+// Generates the markdown report for cash-flow-forecast tool
+import { formatAmount, resolveAmountFormat, type AmountFormat } from '../../utils.js';
+import type { MonthBalance } from '../balance-history/balance-calculator.js';
+import type { AccountForecast, ForecastEvent } from './types.js';
+
+export class CashFlowForecastReportGenerator {
+  constructor(private readonly amountFormat: AmountFormat = resolveAmountFormat()) {}
+
+  generate(
+    forecasts: AccountForecast[],
+    events: ForecastEvent[],
+    monthEnds: MonthBalance[],
+    period: { start: string; end: string }
+  ): string {
+    let markdown = `# Cash Flow Forecast\n\n`;
+    markdown += `Period: ${period.start} to ${period.end}\n\n`;
+
+    if (forecasts.length === 0) {
+      markdown += `No open accounts to forecast.\n`;
+      return markdown;
+    }
+
+    const negative = forecasts.filter((forecast) => forecast.negativePeriods.length > 0);
+    if (negative.length > 0) {
+      markdown += `## Warnings\n\n`;
+      negative.forEach((forecast) => {
+        forecast.negativePeriods.forEach((range) => {
+          const until = range.to === period.end ? 'the end of the period' : range.to;
+          markdown += `- ${forecast.accountName} is projected to be negative from ${range.from} until ${until}\n`;
+        });
+        markdown += `  - Lowest balance: ${formatAmount(forecast.lowestBalance, this.amountFormat)} on ${forecast.lowestDate}\n`;
+      });
+      markdown += `\n`;
+    }
+
+    markdown += `## Accounts\n\n`;
+    markdown += `| Account | Current Balance | Lowest Balance | Lowest On | Ending Balance |\n`;
+    markdown += `| ------- | --------------- | -------------- | --------- | -------------- |\n`;
+    forecasts.forEach((forecast) => {
+      markdown += `| ${forecast.accountName} | ${formatAmount(forecast.startingBalance, this.amountFormat)} | ${formatAmount(forecast.lowestBalance, this.amountFormat)} | ${forecast.lowestDate} | ${formatAmount(forecast.endingBalance, this.amountFormat)} |\n`;
+    });
+
+    markdown += `\n## Projected Month-End Balances\n\n`;
+    markdown += `| Month | Account | Balance | Change | Transactions |\n`;
+    markdown += `| ----- | ------- | ------- | ------ | ------------ |\n`;
+    monthEnds.forEach((month) => {
+      const monthName = new Date(month.year, month.month - 1, 1).toLocaleString('default', { month: 'long' });
+      markdown += `| ${monthName} ${month.year} | ${month.account} | ${formatAmount(month.balance, this.amountFormat)} | ${formatAmount(month.change, this.amountFormat)} | ${month.transactions} |\n`;
+    });
+
+    markdown += `\n## Expected Transactions\n\n`;
+    if (events.length === 0) {
+      markdown += `No scheduled or recurring transactions are expected in this period.\n`;
+      return markdown;
+    }
+    markdown += `| Date | Account | Description | Amount | Source |\n`;
+    markdown += `| ---- | ------- | ----------- | ------ | ------ |\n`;
+    events.forEach((event) => {
+      const source = event.isOverdue ? `${event.source} (overdue)` : event.source;
+      markdown += `| ${event.date} | ${event.accountName} | ${event.description} | ${formatAmount(event.amount, this.amountFormat)} | ${source} |\n`;
+    });
+
+    return markdown;
+  }
+}
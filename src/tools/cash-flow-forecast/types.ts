@@ -0,0 +1,27 @@
+// Types/interfaces for cash-flow-forecast tool
+
+export type ForecastEventSource = 'schedule' | 'recurring' | 'transaction';
+
+export interface ForecastEvent {
+  date: string;
+  accountId: string;
+  accountName: string;
+  description: string;
+  amount: number;
+  source: ForecastEventSource;
+  // Schedule ID, payee ID for detected recurring transactions, or the ID of a transaction entered ahead of time
+  sourceId: string;
+  // Expected before today but not posted yet; projected on the first day
+  isOverdue: boolean;
+}
+
+export interface AccountForecast {
+  accountId: string;
+  accountName: string;
+  startingBalance: number;
+  endingBalance: number;
+  lowestBalance: number;
+  lowestDate: string;
+  negativePeriods: Array<{ from: string; to: string }>;
+  balances: Array<{ date: string; balance: number }>;
+}
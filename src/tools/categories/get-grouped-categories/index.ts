@@ -5,6 +5,8 @@
 import { successWithJson, errorFromCatch } from '../../../utils/response.js';
 import { fetchAllCategoryGroups } from '../../../core/data/fetch-categories.js';
 import type { CategoryGroup } from '../../../core/types/domain.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { GetGroupedCategoriesOutputSchema, type ToolOutput } from '../../../types.js';
 
 export const schema = {
   name: 'get-grouped-categories',
@@ -15,13 +17,14 @@ export const schema = {
     properties: {},
     additionalProperties: false,
   },
+  outputSchema: zodToJsonSchema(GetGroupedCategoriesOutputSchema) as ToolOutput,
 };
 
 export async function handler(): Promise<ReturnType<typeof successWithJson> | ReturnType<typeof errorFromCatch>> {
   try {
     const categoryGroups: CategoryGroup[] = await fetchAllCategoryGroups();
 
-    return successWithJson(categoryGroups);
+    return successWithJson(categoryGroups, GetGroupedCategoriesOutputSchema.parse({ categoryGroups }));
   } catch (err) {
     return errorFromCatch(err);
   }
@@ -0,0 +1,78 @@
+// Orchestrator for category-trends tool
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { CategoryTrendsInputParser } from './input-parser.js';
+import { CategoryTrendsDataFetcher } from './data-fetcher.js';
+import { CategoryTrendsCalculator } from './trend-calculator.js';
+import { CategoryTrendsReportGenerator } from './report-generator.js';
+import { CategoryMapper } from '../../core/mapping/category-mapper.js';
+import { TransferClassifier } from '../../core/mapping/transfer-classifier.js';
+import { GroupAggregator } from '../../core/aggregation/group-by.js';
+import { success, errorFromCatch } from '../../utils/response.js';
+import { getDateRangeForMonthRange } from '../../utils.js';
+import {
+  CategoryTrendsArgsSchema,
+  CategoryTrendsOutputSchema,
+  type CategoryTrendsArgs,
+  type ToolInput,
+  type ToolOutput,
+  type Account,
+} from '../../types.js';
+import { fetchAmountFormat } from '../../core/data/fetch-amount-format.js';
+
+export const schema = {
+  name: 'category-trends',
+  description:
+    'Show spending per category month by month over N months (default 6, ending with the last complete month) with average, min/max, trend direction and percentage change versus the previous period, grouped by category group. Structured output includes the matrix as CSV-style rows.',
+  inputSchema: zodToJsonSchema(CategoryTrendsArgsSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(CategoryTrendsOutputSchema) as ToolOutput,
+};
+
+export async function handler(args: CategoryTrendsArgs): Promise<CallToolResult> {
+  try {
+    const { months, previousMonths, accountId, includeIncome } = new CategoryTrendsInputParser().parse(args);
+    const startMonth = months[0];
+    const endMonth = months[months.length - 1];
+    const { start, end } = getDateRangeForMonthRange(previousMonths[0], endMonth);
+    const { accounts, categories, categoryGroups, transactions } = await new CategoryTrendsDataFetcher().fetchAll(
+      accountId,
+      start,
+      end
+    );
+
+    const calculator = new CategoryTrendsCalculator();
+    const trendsByCategory = calculator.calculate(
+      transactions.filter((t) => t.date >= `${startMonth}-01`),
+      transactions.filter((t) => t.date < `${startMonth}-01`),
+      months,
+      new CategoryMapper(categories, categoryGroups),
+      includeIncome,
+      new TransferClassifier(accounts)
+    );
+    const groups = calculator.summarizeGroups(new GroupAggregator().aggregateAndSort(trendsByCategory), months.length);
+
+    let accountLabel = 'Accounts: All on-budget accounts';
+    if (accountId) {
+      const account: Account | undefined = accounts.find((a) => a.id === accountId);
+      accountLabel = `Account: ${account ? account.name : accountId}`;
+    }
+
+    const amountFormat = await fetchAmountFormat();
+    const generator = new CategoryTrendsReportGenerator(amountFormat);
+    const markdown = generator.generate(groups, months, accountLabel, includeIncome);
+    return success(
+      markdown,
+      CategoryTrendsOutputSchema.parse({
+        startMonth,
+        endMonth,
+        months,
+        accountId: accountId ?? null,
+        includeIncome,
+        groups,
+        table: generator.toTable(groups, months),
+      })
+    );
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
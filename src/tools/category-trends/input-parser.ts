@@ -0,0 +1,31 @@
+// Parses and validates input arguments for category-trends tool
+import { CategoryTrendsArgsSchema } from '../../types.js';
+import { formatMonth } from '../../utils.js';
+
+export interface CategoryTrendsInput {
+  // YYYY-MM months in the matrix, oldest first
+  months: string[];
+  // The same number of months just before, for the period-over-period change
+  previousMonths: string[];
+  accountId?: string;
+  includeIncome: boolean;
+}
+
+export class CategoryTrendsInputParser {
+  parse(args: unknown): CategoryTrendsInput {
+    const { months, endMonth, accountId, includeIncome } = CategoryTrendsArgsSchema.parse(args ?? {});
+    const now = new Date();
+    // Default to the last complete month so a partial month doesn't skew the trend
+    const [endYear, endMonthNumber] = (endMonth ?? formatMonth(new Date(now.getFullYear(), now.getMonth() - 1, 1)))
+      .split('-')
+      .map(Number);
+    const monthAt = (offset: number): string => formatMonth(new Date(endYear, endMonthNumber - 1 - offset, 1));
+
+    return {
+      months: Array.from({ length: months }, (_, i) => monthAt(months - 1 - i)),
+      previousMonths: Array.from({ length: months }, (_, i) => monthAt(2 * months - 1 - i)),
+      accountId,
+      includeIncome,
+    };
+  }
+}
@@ -0,0 +1,74 @@
+// Generates the markdown report and CSV-style table for category-trends tool
+import { formatAmount, resolveAmountFormat, type AmountFormat } from '../../utils.js';
+import type { GroupTrend, TrendDirection } from './types.js';
+
+const TREND_ARROWS: Record<TrendDirection, string> = { up: '↑', down: '↓', flat: '→' };
+
+const formatChange = (changePercent: number | null): string =>
+  changePercent === null ? '-' : `${changePercent > 0 ? '+' : ''}${changePercent.toFixed(1)}%`;
+
+export class CategoryTrendsReportGenerator {
+  constructor(private readonly amountFormat: AmountFormat = resolveAmountFormat()) {}
+
+  generate(groups: GroupTrend[], months: string[], accountLabel: string, includeIncome: boolean): string {
+    let markdown = `# Category Trends\n\n`;
+    markdown += `Months: ${months[0]} to ${months[months.length - 1]}\n\n`;
+    markdown += `${accountLabel}\n\n`;
+    markdown += `Income categories: ${includeIncome ? 'Included' : 'Excluded'}\n\n`;
+    markdown += `Trend compares the direction of spending (earnings for income) across the months; change compares the total with the ${months.length} months before.\n\n`;
+
+    if (groups.length === 0) {
+      markdown += `No categorized transactions in this period.\n`;
+      return markdown;
+    }
+
+    const monthHeaders = months.join(' | ');
+    const monthSeparators = months.map(() => '---').join(' | ');
+    groups.forEach((group) => {
+      markdown += `## ${group.name}\n\n`;
+      markdown += `| Category | ${monthHeaders} | Total | Average | Min | Max | Trend | Change |\n`;
+      markdown += `| -------- | ${monthSeparators} | ----- | ------- | --- | --- | ----- | ------ |\n`;
+      group.categories.forEach((category) => {
+        const cells = category.monthly.map((amount) => formatAmount(amount, this.amountFormat)).join(' | ');
+        markdown += `| ${category.name} | ${cells} | ${formatAmount(category.total, this.amountFormat)} | ${formatAmount(category.average, this.amountFormat)} | ${formatAmount(category.min, this.amountFormat)} | ${formatAmount(category.max, this.amountFormat)} | ${TREND_ARROWS[category.trend]} ${category.trend} | ${formatChange(category.changePercent)} |\n`;
+      });
+      const totals = group.monthly.map((amount) => formatAmount(amount, this.amountFormat)).join(' | ');
+      markdown += `| **Total** | ${totals} | ${formatAmount(group.total, this.amountFormat)} | | | | | ${formatChange(group.changePercent)} |\n\n`;
+    });
+
+    return markdown;
+  }
+
+  /**
+   * Flatten the matrix into CSV-style rows with raw integer amounts, one row per category
+   */
+  toTable(groups: GroupTrend[], months: string[]): { columns: string[]; rows: Array<Array<string | number | null>> } {
+    const columns = [
+      'group',
+      'category',
+      ...months,
+      'total',
+      'average',
+      'min',
+      'max',
+      'trend',
+      'previousTotal',
+      'changePercent',
+    ];
+    const rows = groups.flatMap((group) =>
+      group.categories.map((category) => [
+        group.name,
+        category.name,
+        ...category.monthly,
+        category.total,
+        category.average,
+        category.min,
+        category.max,
+        category.trend,
+        category.previousTotal,
+        category.changePercent,
+      ])
+    );
+    return { columns, rows };
+  }
+}
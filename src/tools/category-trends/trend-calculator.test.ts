@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { CategoryTrendsCalculator } from './trend-calculator.js';
+import { CategoryMapper } from '../../core/mapping/category-mapper.js';
+import { GroupAggregator } from '../../core/aggregation/group-by.js';
+import type { Transaction } from '../../core/types/domain.js';
+
+describe('CategoryTrendsCalculator', () => {
+  const calculator = new CategoryTrendsCalculator();
+  const categoryMapper = new CategoryMapper(
+    [
+      { id: 'food', name: 'Groceries', group_id: 'g1' },
+      { id: 'rent', name: 'Rent', group_id: 'g1' },
+      { id: 'gym', name: 'Gym', group_id: 'g1' },
+      { id: 'salary', name: 'Salary', group_id: 'g2', is_income: true },
+    ],
+    [
+      { id: 'g1', name: 'Living' },
+      { id: 'g2', name: 'Income', is_income: true },
+    ]
+  );
+  const months = ['2024-01', '2024-02', '2024-03'];
+
+  const tx = (id: string, date: string, amount: number, category: string): Transaction => ({
+    id,
+    account: 'acc1',
+    date,
+    amount,
+    category,
+  });
+
+  const transactions = [
+    tx('f1', '2024-01-10', -10000, 'food'),
+    tx('f2', '2024-02-10', -12000, 'food'),
+    tx('f3', '2024-03-05', -6000, 'food'),
+    tx('f4', '2024-03-20', -8000, 'food'),
+    tx('r1', '2024-01-01', -100000, 'rent'),
+    tx('r2', '2024-02-01', -100000, 'rent'),
+    tx('r3', '2024-03-01', -100000, 'rent'),
+    tx('s1', '2024-01-31', 300000, 'salary'),
+  ];
+  const previousTransactions = [
+    tx('p1', '2023-11-10', -30000, 'food'),
+    tx('p2', '2023-10-01', -300000, 'rent'),
+    tx('p3', '2023-12-15', -5000, 'gym'),
+  ];
+
+  it('builds monthly totals with statistics and change versus the previous period', () => {
+    const trends = calculator.calculate(transactions, previousTransactions, months, categoryMapper, false);
+
+    expect(Object.keys(trends).sort()).toEqual(['food', 'gym', 'rent']);
+    expect(trends.food).toMatchObject({
+      monthly: [-10000, -12000, -14000],
+      total: -36000,
+      transactions: 4,
+      average: -12000,
+      min: -14000,
+      max: -10000,
+      trend: 'up',
+      slope: -2000,
+      previousTotal: -30000,
+      changePercent: 20,
+    });
+    expect(trends.rent).toMatchObject({ trend: 'flat', slope: 0, changePercent: 0 });
+    // Only in the previous period
+    expect(trends.gym).toMatchObject({ monthly: [0, 0, 0], total: 0, previousTotal: -5000, changePercent: -100 });
+  });
+
+  it('keeps income categories when requested and reads their trend as earnings', () => {
+    const trends = calculator.calculate(
+      [...transactions, tx('s2', '2024-03-31', 400000, 'salary')],
+      [],
+      months,
+      categoryMapper,
+      true
+    );
+
+    expect(trends.salary).toMatchObject({ monthly: [300000, 0, 400000], trend: 'up', changePercent: null });
+  });
+
+  it('rolls categories up into group totals', () => {
+    const trends = calculator.calculate(transactions, previousTransactions, months, categoryMapper, false);
+    const [living] = calculator.summarizeGroups(new GroupAggregator().aggregateAndSort(trends), months.length);
+
+    expect(living).toMatchObject({
+      name: 'Living',
+      monthly: [-110000, -112000, -114000],
+      total: -336000,
+      previousTotal: -335000,
+      changePercent: 0.3,
+    });
+    expect(living.categories.map((c) => c.id)).toEqual(['rent', 'food', 'gym']);
+  });
+});
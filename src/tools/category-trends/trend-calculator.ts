@@ -0,0 +1,114 @@
+// Builds the category × month matrix with per-category statistics for category-trends tool
+import { TransactionGrouper } from '../../core/aggregation/transaction-grouper.js';
+import type { CategoryMapper } from '../../core/mapping/category-mapper.js';
+import { TransferClassifier } from '../../core/mapping/transfer-classifier.js';
+import type { CategorySpending, GroupSpending, Transaction } from '../../core/types/domain.js';
+import type { CategoryTrend, GroupTrend, TrendDirection } from './types.js';
+
+// A fitted change over the whole period smaller than this share of the average counts as flat
+const FLAT_TREND_SHARE = 0.1;
+
+// Spending is negative and earnings positive; flip expenses so "up" means more money moved in both cases
+const magnitude = (amount: number, isIncome: boolean): number => (isIncome ? amount : -amount);
+
+const changePercent = (current: number, previous: number, isIncome: boolean): number | null => {
+  if (previous === 0) return null;
+  const change = (magnitude(current, isIncome) - magnitude(previous, isIncome)) / Math.abs(previous);
+  return Math.round(change * 1000) / 10;
+};
+
+export class CategoryTrendsCalculator {
+  private grouper = new TransactionGrouper();
+
+  /**
+   * Total each category per month and against the previous period. Categories with activity
+   * only in the previous period are kept with zero months, since a stopped expense is a trend too.
+   */
+  calculate(
+    transactions: Transaction[],
+    previousTransactions: Transaction[],
+    months: string[],
+    categoryMapper: CategoryMapper,
+    includeIncome: boolean,
+    transfers: TransferClassifier = new TransferClassifier([])
+  ): Record<string, CategoryTrend> {
+    const groupByCategory = (list: Transaction[]): Record<string, CategorySpending> =>
+      this.grouper.groupByCategory(
+        list,
+        (categoryId) => categoryMapper.getCategoryName(categoryId),
+        (categoryId) => categoryMapper.getGroupInfo(categoryId),
+        includeIncome,
+        transfers
+      );
+
+    const current = groupByCategory(transactions);
+    const previous = groupByCategory(previousTransactions);
+    const byMonth = this.grouper.groupBy(transactions, (t) => t.date.slice(0, 7));
+    const monthly = months.map((month) => groupByCategory(byMonth[month] ?? []));
+
+    const trends: Record<string, CategoryTrend> = {};
+    [...Object.values(current), ...Object.values(previous)].forEach((spending) => {
+      if (trends[spending.id]) return;
+      const base = current[spending.id] ?? { ...spending, total: 0, transactions: 0 };
+      trends[spending.id] = this.toTrend(
+        base,
+        monthly.map((totals) => totals[spending.id]?.total ?? 0),
+        previous[spending.id]?.total ?? 0
+      );
+    });
+    return trends;
+  }
+
+  /**
+   * Roll category trends up to their groups, keeping the aggregator's order.
+   */
+  summarizeGroups(groups: GroupSpending<CategoryTrend>[], monthCount: number): GroupTrend[] {
+    return groups.map((group) => {
+      const previousTotal = group.categories.reduce((sum, c) => sum + c.previousTotal, 0);
+      const isIncome = group.categories.every((c) => c.isIncome);
+      return {
+        ...group,
+        monthly: Array.from({ length: monthCount }, (_, i) =>
+          group.categories.reduce((sum, c) => sum + c.monthly[i], 0)
+        ),
+        previousTotal,
+        changePercent: changePercent(group.total, previousTotal, isIncome),
+      };
+    });
+  }
+
+  private toTrend(spending: CategorySpending, monthly: number[], previousTotal: number): CategoryTrend {
+    const average = monthly.reduce((sum, amount) => sum + amount, 0) / monthly.length;
+    const slope = this.slope(monthly);
+    return {
+      ...spending,
+      monthly,
+      average: Math.round(average),
+      min: Math.min(...monthly),
+      max: Math.max(...monthly),
+      trend: this.direction(slope * (monthly.length - 1), average, spending.isIncome),
+      slope: Math.round(slope),
+      previousTotal,
+      changePercent: changePercent(spending.total, previousTotal, spending.isIncome),
+    };
+  }
+
+  // Least-squares slope of the monthly totals against the month index
+  private slope(values: number[]): number {
+    const n = values.length;
+    const meanX = (n - 1) / 2;
+    const meanY = values.reduce((sum, v) => sum + v, 0) / n;
+    let covariance = 0;
+    let variance = 0;
+    values.forEach((value, x) => {
+      covariance += (x - meanX) * (value - meanY);
+      variance += (x - meanX) ** 2;
+    });
+    return variance === 0 ? 0 : covariance / variance;
+  }
+
+  private direction(fittedChange: number, average: number, isIncome: boolean): TrendDirection {
+    if (Math.abs(fittedChange) < Math.abs(average) * FLAT_TREND_SHARE || fittedChange === 0) return 'flat';
+    return magnitude(fittedChange, isIncome) > 0 ? 'up' : 'down';
+  }
+}
@@ -0,0 +1,25 @@
+// Types/interfaces for category-trends tool
+import type { CategorySpending, GroupSpending } from '../../core/types/domain.js';
+
+export type TrendDirection = 'up' | 'down' | 'flat';
+
+export interface CategoryTrend extends CategorySpending {
+  // Totals per month, aligned with the report's month list
+  monthly: number[];
+  average: number;
+  min: number;
+  max: number;
+  // Direction of spending (or earnings, for income) from a linear fit over the months
+  trend: TrendDirection;
+  // Change per month from the same fit, in the category's sign
+  slope: number;
+  // Total over the same number of months just before this period
+  previousTotal: number;
+  changePercent: number | null;
+}
+
+export interface GroupTrend extends GroupSpending<CategoryTrend> {
+  monthly: number[];
+  previousTotal: number;
+  changePercent: number | null;
+}
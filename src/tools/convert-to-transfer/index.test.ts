@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handler } from './index.js';
+import * as actualApi from '../../actual-api.js';
+import { fetchAllPayees } from '../../core/data/fetch-payees.js';
+import type { TransactionEntity } from '@actual-app/api/@types/loot-core/src/types/models/transaction.js';
+
+vi.mock('../../actual-api.js', () => ({
+  getTransaction: vi.fn(),
+  linkTransfer: vi.fn(),
+}));
+
+vi.mock('../../core/data/fetch-payees.js', () => ({
+  fetchAllPayees: vi.fn(),
+}));
+
+const transactions: Record<string, TransactionEntity> = {
+  out: { id: 'out', account: 'checking', amount: -5000, date: '2026-01-10', notes: 'to savings' } as TransactionEntity,
+  in: { id: 'in', account: 'savings', amount: 5000, date: '2026-01-11', notes: '' } as TransactionEntity,
+  other: { id: 'other', account: 'savings', amount: 4000, date: '2026-01-11' } as TransactionEntity,
+};
+
+const textOf = (result: Awaited<ReturnType<typeof handler>>): string => (result.content[0] as { text: string }).text;
+
+describe('convert-to-transfer tool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(actualApi.getTransaction).mockImplementation(async (id: string) => transactions[id] ?? null);
+    vi.mocked(fetchAllPayees).mockResolvedValue([
+      { id: 'payee-checking', name: 'Checking', transfer_acct: 'checking' },
+      { id: 'payee-savings', name: 'Savings', transfer_acct: 'savings' },
+    ]);
+  });
+
+  it('links both transactions through the transfer payees', async () => {
+    const result = await handler({ transactionId: 'out', otherTransactionId: 'in' });
+
+    expect(result.isError).toBeUndefined();
+    expect(actualApi.linkTransfer).toHaveBeenNthCalledWith(1, 'out', {
+      transferId: 'in',
+      payeeId: 'payee-savings',
+      notes: 'to savings',
+    });
+    expect(actualApi.linkTransfer).toHaveBeenNthCalledWith(2, 'in', { transferId: 'out', payeeId: 'payee-checking' });
+  });
+
+  it('rejects transactions whose amounts do not offset', async () => {
+    const result = await handler({ transactionId: 'out', otherTransactionId: 'other' });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain('opposite amounts');
+    expect(actualApi.linkTransfer).not.toHaveBeenCalled();
+  });
+
+  it('rejects transactions that are already transfers', async () => {
+    transactions.linked = { id: 'linked', account: 'savings', amount: 5000, transfer_id: 'x' } as TransactionEntity;
+
+    const result = await handler({ transactionId: 'out', otherTransactionId: 'linked' });
+
+    expect(textOf(result)).toContain('already a transfer');
+  });
+});
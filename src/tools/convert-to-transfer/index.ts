@@ -0,0 +1,73 @@
+// ----------------------------
+// CONVERT TO TRANSFER TOOL
+// ----------------------------
+
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { successWithJson, errorFromCatch } from '../../utils/response.js';
+import { getTransaction, linkTransfer } from '../../actual-api.js';
+import { fetchAllPayees } from '../../core/data/fetch-payees.js';
+import { TransactionEntity } from '@actual-app/api/@types/loot-core/src/types/models/transaction.js';
+import { ConvertToTransferArgsSchema, type ConvertToTransferArgs, type ToolInput } from '../../types.js';
+
+export const schema = {
+  name: 'convert-to-transfer',
+  description:
+    'Link two existing transactions in different accounts with opposite amounts (e.g. a withdrawal and the matching deposit) into one transfer, so they are no longer counted as spending and income. The second transaction takes the date of the first.',
+  inputSchema: zodToJsonSchema(ConvertToTransferArgsSchema) as ToolInput,
+};
+
+export const argsSchema = ConvertToTransferArgsSchema;
+
+async function loadLinkableTransaction(id: string): Promise<TransactionEntity> {
+  const transaction = await getTransaction(id);
+  if (!transaction) {
+    throw new Error(`Transaction ${id} not found`);
+  }
+  if (transaction.is_parent || transaction.is_child) {
+    throw new Error(`Transaction ${id} is part of a split and cannot become a transfer`);
+  }
+  if (transaction.transfer_id) {
+    throw new Error(`Transaction ${id} is already a transfer`);
+  }
+  return transaction;
+}
+
+export async function handler(args: ConvertToTransferArgs): Promise<CallToolResult> {
+  try {
+    const { transactionId, otherTransactionId } = ConvertToTransferArgsSchema.parse(args);
+    if (transactionId === otherTransactionId) {
+      throw new Error('transactionId and otherTransactionId must be different transactions');
+    }
+
+    const first = await loadLinkableTransaction(transactionId);
+    const second = await loadLinkableTransaction(otherTransactionId);
+    if (first.account === second.account) {
+      throw new Error('The transactions must be in different accounts');
+    }
+    if (first.amount !== -second.amount) {
+      throw new Error('The transactions must have opposite amounts (e.g. -5000 and 5000)');
+    }
+
+    const payees = await fetchAllPayees();
+    const transferPayeeOf = (accountId: string): string => {
+      const payee = payees.find((p) => p.transfer_acct === accountId);
+      if (!payee) throw new Error(`No transfer payee found for account ${accountId}`);
+      return payee.id;
+    };
+    const firstPayee = transferPayeeOf(first.account);
+    const secondPayee = transferPayeeOf(second.account);
+
+    // Linking one side copies its date and notes to the other, so keep whichever notes exist
+    await linkTransfer(first.id, {
+      transferId: second.id,
+      payeeId: secondPayee,
+      notes: first.notes || second.notes || undefined,
+    });
+    await linkTransfer(second.id, { transferId: first.id, payeeId: firstPayee });
+
+    return successWithJson(`Successfully linked transactions ${first.id} and ${second.id} as a transfer`);
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
@@ -14,6 +14,8 @@ export const schema = {
   inputSchema: zodToJsonSchema(CreateTransactionArgsSchema) as ToolInput,
 };
 
+export const argsSchema = CreateTransactionArgsSchema;
+
 export async function handler(args: CreateTransactionArgs): Promise<CallToolResult> {
   try {
     // Validate with Zod schema
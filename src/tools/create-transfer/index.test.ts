@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handler } from './index.js';
+import * as actualApi from '../../actual-api.js';
+import { fetchAllAccounts } from '../../core/data/fetch-accounts.js';
+import { fetchAllPayees } from '../../core/data/fetch-payees.js';
+
+vi.mock('../../actual-api.js', () => ({
+  createTransferTransaction: vi.fn(),
+  getTransaction: vi.fn(),
+  updateTransaction: vi.fn(),
+}));
+
+vi.mock('../../core/data/fetch-accounts.js', () => ({ fetchAllAccounts: vi.fn() }));
+vi.mock('../../core/data/fetch-payees.js', () => ({ fetchAllPayees: vi.fn() }));
+vi.mock('../../core/data/fetch-amount-format.js', () => ({ fetchAmountFormat: vi.fn() }));
+
+const textOf = (result: Awaited<ReturnType<typeof handler>>): string => (result.content[0] as { text: string }).text;
+
+describe('create-transfer tool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fetchAllAccounts).mockResolvedValue([
+      { id: 'checking', name: 'Checking', offbudget: false, closed: false },
+      { id: 'savings', name: 'Savings', offbudget: false, closed: false },
+      { id: 'brokerage', name: 'Brokerage', offbudget: true, closed: false },
+    ]);
+    vi.mocked(fetchAllPayees).mockResolvedValue([
+      { id: 'payee-savings', name: 'Savings', transfer_acct: 'savings' },
+      { id: 'payee-brokerage', name: 'Brokerage', transfer_acct: 'brokerage' },
+    ]);
+    vi.mocked(actualApi.createTransferTransaction).mockResolvedValue('tx-out');
+    vi.mocked(actualApi.getTransaction).mockResolvedValue({ id: 'tx-out', transfer_id: 'tx-in' } as Awaited<
+      ReturnType<typeof actualApi.getTransaction>
+    >);
+  });
+
+  it('creates the withdrawal with the destination transfer payee', async () => {
+    const result = await handler({
+      fromAccountId: 'checking',
+      toAccountId: 'savings',
+      amount: 5000,
+      date: '2026-01-10',
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(actualApi.createTransferTransaction).toHaveBeenCalledWith('checking', {
+      date: '2026-01-10',
+      amount: -5000,
+      payee: 'payee-savings',
+      notes: undefined,
+      cleared: undefined,
+      category: undefined,
+    });
+    expect(textOf(result)).toContain('tx-out and tx-in');
+  });
+
+  it('only accepts a category when the transfer leaves the budget', async () => {
+    const onBudget = await handler({
+      fromAccountId: 'checking',
+      toAccountId: 'savings',
+      amount: 5000,
+      date: '2026-01-10',
+      category: 'cat1',
+    });
+    expect(onBudget.isError).toBe(true);
+
+    await handler({
+      fromAccountId: 'checking',
+      toAccountId: 'brokerage',
+      amount: 5000,
+      date: '2026-01-10',
+      category: 'invest',
+    });
+    expect(actualApi.createTransferTransaction).toHaveBeenCalledWith(
+      'checking',
+      expect.objectContaining({ payee: 'payee-brokerage', category: 'invest' })
+    );
+  });
+
+  it('rejects transfers to the same account', async () => {
+    const result = await handler({ fromAccountId: 'checking', toAccountId: 'checking', amount: 1, date: '2026-01-10' });
+
+    expect(textOf(result)).toContain('must be different');
+    expect(actualApi.createTransferTransaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,76 @@
+// ----------------------------
+// CREATE TRANSFER TOOL
+// ----------------------------
+
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { successWithJson, errorFromCatch } from '../../utils/response.js';
+import { createTransferTransaction, getTransaction, updateTransaction } from '../../actual-api.js';
+import { fetchAllAccounts } from '../../core/data/fetch-accounts.js';
+import { fetchAllPayees } from '../../core/data/fetch-payees.js';
+import { fetchAmountFormat } from '../../core/data/fetch-amount-format.js';
+import { formatAmount } from '../../utils.js';
+import { CreateTransferArgsSchema, type CreateTransferArgs, type ToolInput } from '../../types.js';
+import type { Account } from '../../core/types/domain.js';
+
+export const schema = {
+  name: 'create-transfer',
+  description:
+    'Move money between two accounts. Creates the withdrawal and the matching deposit as one linked transfer, so it is not counted as income or spending.',
+  inputSchema: zodToJsonSchema(CreateTransferArgsSchema) as ToolInput,
+};
+
+export const argsSchema = CreateTransferArgsSchema;
+
+export async function handler(args: CreateTransferArgs): Promise<CallToolResult> {
+  try {
+    const { fromAccountId, toAccountId, amount, date, notes, category, cleared } = CreateTransferArgsSchema.parse(args);
+    if (fromAccountId === toAccountId) {
+      throw new Error('fromAccountId and toAccountId must be different accounts');
+    }
+
+    const accounts = await fetchAllAccounts();
+    const findOpenAccount = (id: string): Account => {
+      const account = accounts.find((a) => a.id === id);
+      if (!account) throw new Error(`Unknown account ID: ${id}`);
+      if (account.closed) throw new Error(`Account ${account.name} is closed`);
+      return account;
+    };
+    const from = findOpenAccount(fromAccountId);
+    const to = findOpenAccount(toAccountId);
+
+    const crossesBudget = Boolean(from.offbudget) !== Boolean(to.offbudget);
+    if (category && !crossesBudget) {
+      throw new Error('category is only allowed when exactly one of the accounts is off-budget');
+    }
+
+    // Actual links the two sides through the transfer payee of the destination account
+    const transferPayee = (await fetchAllPayees()).find((payee) => payee.transfer_acct === to.id);
+    if (!transferPayee) {
+      throw new Error(`No transfer payee found for account ${to.name}`);
+    }
+
+    const id = await createTransferTransaction(from.id, {
+      date,
+      amount: -amount,
+      payee: transferPayee.id,
+      notes,
+      cleared,
+      category: from.offbudget ? undefined : category,
+    });
+    const transferId = (await getTransaction(id))?.transfer_id;
+    if (!transferId) {
+      throw new Error(`Transaction ${id} was created but not linked to ${to.name}; a rule may have changed its payee`);
+    }
+    if (category && from.offbudget) {
+      await updateTransaction(transferId, { category });
+    }
+
+    const amountFormat = await fetchAmountFormat();
+    return successWithJson(
+      `Successfully transferred ${formatAmount(amount, amountFormat)} from ${from.name} to ${to.name} (transactions ${id} and ${transferId})`
+    );
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
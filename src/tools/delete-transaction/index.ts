@@ -17,6 +17,8 @@ export const schema = {
   inputSchema: zodToJsonSchema(DeleteTransactionArgsSchema) as ToolInput,
 };
 
+export const argsSchema = DeleteTransactionArgsSchema;
+
 export async function handler(args: DeleteTransactionArgs): Promise<CallToolResult> {
   try {
     const validatedArgs = DeleteTransactionArgsSchema.parse(args);
@@ -0,0 +1,36 @@
+// Fetches accounts, payees, categories, schedules and transaction history for detect-recurring tool
+import { fetchAllAccounts } from '../../core/data/fetch-accounts.js';
+import { fetchAllCategories } from '../../core/data/fetch-categories.js';
+import { fetchAllPayees } from '../../core/data/fetch-payees.js';
+import { fetchAllSchedules } from '../../core/data/fetch-schedules.js';
+import { fetchAllTransactions } from '../../core/data/fetch-transactions.js';
+import type { APIScheduleEntity } from '@actual-app/api/@types/loot-core/src/server/api-models.js';
+import type { Account, Category, Payee, Transaction } from '../../core/types/domain.js';
+
+export class DetectRecurringDataFetcher {
+  async fetchAll(
+    accountId: string | undefined,
+    start: string,
+    end: string
+  ): Promise<{
+    accounts: Account[];
+    payees: Payee[];
+    categories: Category[];
+    schedules: APIScheduleEntity[];
+    transactions: Transaction[];
+  }> {
+    const allAccounts = await fetchAllAccounts();
+    if (accountId && !allAccounts.some((a) => a.id === accountId)) {
+      throw new Error(`Unknown account ID: ${accountId}`);
+    }
+    const accounts = accountId ? allAccounts.filter((a) => a.id === accountId) : allAccounts.filter((a) => !a.closed);
+
+    const [payees, categories, schedules, transactions] = await Promise.all([
+      fetchAllPayees(),
+      fetchAllCategories(),
+      fetchAllSchedules(),
+      fetchAllTransactions(accounts, start, end),
+    ]);
+    return { accounts, payees, categories, schedules, transactions };
+  }
+}
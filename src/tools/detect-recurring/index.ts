@@ -0,0 +1,86 @@
+// Orchestrator for detect-recurring tool
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { DetectRecurringDataFetcher } from './data-fetcher.js';
+import { RecurringSeriesAnalyzer, toSeriesId } from './recurring-analyzer.js';
+import { DetectRecurringReportGenerator } from './report-generator.js';
+import { RecurringTransactionDetector } from '../../core/recurring/recurring-detector.js';
+import { createSchedule } from '../../actual-api.js';
+import { success, errorFromCatch } from '../../utils/response.js';
+import { formatDate } from '../../utils.js';
+import {
+  DetectRecurringArgsSchema,
+  DetectRecurringOutputSchema,
+  type DetectRecurringArgs,
+  type ToolInput,
+  type ToolOutput,
+} from '../../types.js';
+import { fetchAmountFormat } from '../../core/data/fetch-amount-format.js';
+import type { WriteScope } from '../../auth/scopes.js';
+
+export const schema = {
+  name: 'detect-recurring',
+  description:
+    'Find recurring transactions and subscriptions (payees charged at a regular cadence with stable amounts) in recent history. Reports cadence, average and last amount, last and next expected date, price changes and whether a schedule already exists. Pass confirmed series IDs in createSchedules to create schedules for them (requires write access).',
+  inputSchema: zodToJsonSchema(DetectRecurringArgsSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(DetectRecurringOutputSchema) as ToolOutput,
+};
+
+export const argsSchema = DetectRecurringArgsSchema;
+
+/**
+ * Creating schedules modifies the budget, so those calls count as writes
+ */
+export const isWriteCall = (args: DetectRecurringArgs | undefined): boolean => (args?.createSchedules?.length ?? 0) > 0;
+
+export const writeScope: WriteScope = 'schedules:write';
+
+export async function handler(args: DetectRecurringArgs): Promise<CallToolResult> {
+  try {
+    const input = DetectRecurringArgsSchema.parse(args ?? {});
+    const today = new Date();
+    const start = new Date(today);
+    start.setMonth(today.getMonth() - input.months);
+    const period = { start: formatDate(start), end: formatDate(today) };
+
+    const { accounts, payees, categories, schedules, transactions } = await new DetectRecurringDataFetcher().fetchAll(
+      input.accountId,
+      period.start,
+      period.end
+    );
+
+    const detector = new RecurringTransactionDetector();
+    const detected = detector.detect(transactions, { minOccurrences: input.minOccurrences, asOf: period.end });
+    const analyzer = new RecurringSeriesAnalyzer();
+    const series = analyzer.analyze(detected, accounts, payees, categories, schedules);
+
+    // Validate every requested series before creating anything
+    const toCreate = (input.createSchedules ?? []).map((seriesId) => {
+      const match = series.find((s) => s.seriesId === seriesId);
+      if (!match) {
+        throw new Error(`Unknown series ID: ${seriesId}`);
+      }
+      if (match.scheduleId) {
+        throw new Error(`Series ${seriesId} already has schedule ${match.scheduleId}`);
+      }
+      return match;
+    });
+
+    const created: Array<{ seriesId: string; scheduleId: string }> = [];
+    for (const match of toCreate) {
+      const raw = detected.find((s) => toSeriesId(s) === match.seriesId)!;
+      const farFuture = formatDate(new Date(today.getFullYear() + 2, today.getMonth(), today.getDate()));
+      const firstDate = detector.projectDates(raw, period.end, farFuture)[0] ?? match.nextDate;
+      const scheduleId = await createSchedule(analyzer.toSchedule(match, firstDate));
+      match.scheduleId = scheduleId;
+      created.push({ seriesId: match.seriesId, scheduleId });
+    }
+
+    const listed = input.includeInactive ? series : series.filter((s) => s.active);
+    const amountFormat = await fetchAmountFormat();
+    const markdown = new DetectRecurringReportGenerator(amountFormat).generate(listed, created, period);
+    return success(markdown, DetectRecurringOutputSchema.parse({ ...period, series: listed, created }));
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { RecurringSeriesAnalyzer } from './recurring-analyzer.js';
+import type { APIScheduleEntity } from '@actual-app/api/@types/loot-core/src/server/api-models.js';
+import type { RecurringSeries } from '../../core/recurring/recurring-detector.js';
+
+describe('RecurringSeriesAnalyzer', () => {
+  const analyzer = new RecurringSeriesAnalyzer();
+  const accounts = [{ id: 'acc1', name: 'Checking' }];
+  const payees = [
+    { id: 'p1', name: 'Streaming' },
+    { id: 'p2', name: 'Gym' },
+  ];
+  const categories = [{ id: 'cat1', name: 'Entertainment', group_id: 'g1' }];
+
+  const series: RecurringSeries[] = [
+    {
+      payeeId: 'p1',
+      accountId: 'acc1',
+      categoryId: 'cat1',
+      cadence: 'monthly',
+      occurrences: [
+        { id: 't1', date: '2024-01-15', amount: -1599 },
+        { id: 't2', date: '2024-02-15', amount: -1599 },
+        { id: 't3', date: '2024-03-15', amount: -1799 },
+      ],
+      averageAmount: -1666,
+      lastAmount: -1799,
+      lastDate: '2024-03-15',
+      nextDate: '2024-04-15',
+      active: true,
+    },
+    {
+      payeeId: 'p2',
+      accountId: 'acc1',
+      categoryId: null,
+      cadence: 'biweekly',
+      occurrences: [
+        { id: 't4', date: '2024-02-02', amount: -2500 },
+        { id: 't5', date: '2024-02-16', amount: -2500 },
+        { id: 't6', date: '2024-03-01', amount: -2500 },
+      ],
+      averageAmount: -2500,
+      lastAmount: -2500,
+      lastDate: '2024-03-01',
+      nextDate: '2024-03-15',
+      active: true,
+    },
+  ];
+
+  const schedules: APIScheduleEntity[] = [
+    {
+      id: 's1',
+      name: 'Gym',
+      posts_transaction: false,
+      completed: false,
+      payee: 'p2',
+      amount: -2500,
+      amountOp: 'isapprox',
+      date: { frequency: 'weekly', interval: 2, start: '2024-02-02' },
+    },
+  ];
+
+  it('adds names, price changes and matching schedules', () => {
+    const [streaming, gym] = analyzer.analyze(series, accounts, payees, categories, schedules);
+
+    expect(streaming).toMatchObject({
+      seriesId: 'p1:acc1',
+      payeeName: 'Streaming',
+      accountName: 'Checking',
+      categoryName: 'Entertainment',
+      occurrences: 3,
+      priceChanges: [{ date: '2024-03-15', from: -1599, to: -1799 }],
+      scheduleId: null,
+    });
+    // Schedule without an account matches on payee
+    expect(gym).toMatchObject({ seriesId: 'p2:acc1', categoryName: null, priceChanges: [], scheduleId: 's1' });
+  });
+
+  it('builds a recurring schedule from a series', () => {
+    const [, gym] = analyzer.analyze(series, accounts, payees, categories, []);
+
+    expect(analyzer.toSchedule(gym, '2024-03-29')).toEqual({
+      name: 'Gym (biweekly)',
+      posts_transaction: false,
+      payee: 'p2',
+      account: 'acc1',
+      amount: -2500,
+      amountOp: 'isapprox',
+      date: { frequency: 'weekly', interval: 2, start: '2024-03-29', endMode: 'never' },
+    });
+  });
+});
@@ -0,0 +1,82 @@
+// Enriches detected recurring series with names, price changes and matching schedules for detect-recurring tool
+import type { APIScheduleEntity } from '@actual-app/api/@types/loot-core/src/server/api-models.js';
+import type { RecurringCadence, RecurringSeries } from '../../core/recurring/recurring-detector.js';
+import type { Account, Category, Payee } from '../../core/types/domain.js';
+import type { RecurConfig } from '../../types.js';
+import type { DetectedRecurring, PriceChange } from './types.js';
+
+const SCHEDULE_RECURRENCE: Record<RecurringCadence, Pick<RecurConfig, 'frequency' | 'interval'>> = {
+  weekly: { frequency: 'weekly', interval: 1 },
+  biweekly: { frequency: 'weekly', interval: 2 },
+  monthly: { frequency: 'monthly', interval: 1 },
+  quarterly: { frequency: 'monthly', interval: 3 },
+  yearly: { frequency: 'yearly', interval: 1 },
+};
+
+export const toSeriesId = (series: Pick<RecurringSeries, 'payeeId' | 'accountId'>): string =>
+  `${series.payeeId}:${series.accountId}`;
+
+export class RecurringSeriesAnalyzer {
+  analyze(
+    series: RecurringSeries[],
+    accounts: Account[],
+    payees: Payee[],
+    categories: Category[],
+    schedules: APIScheduleEntity[]
+  ): DetectedRecurring[] {
+    const accountNames = new Map(accounts.map((a) => [a.id, a.name]));
+    const payeeNames = new Map(payees.map((p) => [p.id, p.name]));
+    const categoryNames = new Map(categories.map((c) => [c.id, c.name]));
+
+    return series.map((s) => ({
+      seriesId: toSeriesId(s),
+      payeeId: s.payeeId,
+      payeeName: payeeNames.get(s.payeeId) ?? s.payeeId,
+      accountId: s.accountId,
+      accountName: accountNames.get(s.accountId) ?? s.accountId,
+      categoryId: s.categoryId,
+      categoryName: s.categoryId ? (categoryNames.get(s.categoryId) ?? null) : null,
+      cadence: s.cadence,
+      occurrences: s.occurrences.length,
+      averageAmount: s.averageAmount,
+      lastAmount: s.lastAmount,
+      lastDate: s.lastDate,
+      nextDate: s.nextDate,
+      active: s.active,
+      priceChanges: this.priceChanges(s),
+      scheduleId: this.findSchedule(s, schedules)?.id ?? null,
+    }));
+  }
+
+  /**
+   * Build a recurring schedule for a series, starting on its first expected date on or after today
+   */
+  toSchedule(series: DetectedRecurring, firstDate: string): Omit<APIScheduleEntity, 'id'> {
+    return {
+      name: `${series.payeeName} (${series.cadence})`,
+      posts_transaction: false,
+      payee: series.payeeId,
+      account: series.accountId,
+      amount: series.lastAmount,
+      amountOp: 'isapprox',
+      date: { ...SCHEDULE_RECURRENCE[series.cadence], start: firstDate, endMode: 'never' },
+    };
+  }
+
+  private priceChanges(series: RecurringSeries): PriceChange[] {
+    return series.occurrences
+      .slice(1)
+      .map((occurrence, i) => ({ date: occurrence.date, from: series.occurrences[i].amount, to: occurrence.amount }))
+      .filter((change) => change.from !== change.to);
+  }
+
+  // A schedule without an account still matches on payee alone
+  private findSchedule(series: RecurringSeries, schedules: APIScheduleEntity[]): APIScheduleEntity | undefined {
+    return schedules.find(
+      (schedule) =>
+        !schedule.completed &&
+        schedule.payee === series.payeeId &&
+        (!schedule.account || schedule.account === series.accountId)
+    );
+  }
+}
@@ -0,0 +1,55 @@
+// Generates the markdown report for detect-recurring tool
+import { formatAmount, resolveAmountFormat, type AmountFormat } from '../../utils.js';
+import type { DetectedRecurring } from './types.js';
+
+export class DetectRecurringReportGenerator {
+  constructor(private readonly amountFormat: AmountFormat = resolveAmountFormat()) {}
+
+  generate(
+    series: DetectedRecurring[],
+    created: Array<{ seriesId: string; scheduleId: string }>,
+    period: { start: string; end: string }
+  ): string {
+    let markdown = `# Recurring Transactions\n\n`;
+    markdown += `Scanned: ${period.start} to ${period.end}\n\n`;
+
+    if (created.length > 0) {
+      markdown += `## Created Schedules\n\n`;
+      created.forEach((entry) => {
+        const match = series.find((s) => s.seriesId === entry.seriesId);
+        markdown += `- ${match ? `${match.payeeName} (${match.accountName})` : entry.seriesId}: schedule ${entry.scheduleId}\n`;
+      });
+      markdown += `\n`;
+    }
+
+    if (series.length === 0) {
+      markdown += `No recurring transactions found.\n`;
+      return markdown;
+    }
+
+    markdown += `| Payee | Account | Category | Cadence | Average | Last Amount | Last Date | Next Date | Schedule | Series ID |\n`;
+    markdown += `| ----- | ------- | -------- | ------- | ------- | ----------- | --------- | --------- | -------- | --------- |\n`;
+    series.forEach((s) => {
+      const next = s.active ? s.nextDate : `${s.nextDate} (missed)`;
+      const schedule = s.scheduleId ? 'Yes' : 'No';
+      markdown += `| ${s.payeeName} | ${s.accountName} | ${s.categoryName ?? '-'} | ${s.cadence} | ${formatAmount(s.averageAmount, this.amountFormat)} | ${formatAmount(s.lastAmount, this.amountFormat)} | ${s.lastDate} | ${next} | ${schedule} | ${s.seriesId} |\n`;
+    });
+
+    const changed = series.filter((s) => s.priceChanges.length > 0);
+    if (changed.length > 0) {
+      markdown += `\n## Price Changes\n\n`;
+      changed.forEach((s) => {
+        s.priceChanges.forEach((change) => {
+          markdown += `- ${s.payeeName}: ${formatAmount(change.from, this.amountFormat)} → ${formatAmount(change.to, this.amountFormat)} on ${change.date}\n`;
+        });
+      });
+    }
+
+    const unscheduled = series.filter((s) => s.active && !s.scheduleId).length;
+    if (unscheduled > 0) {
+      markdown += `\n${unscheduled} active series have no schedule. Pass their series IDs in createSchedules to add them.\n`;
+    }
+
+    return markdown;
+  }
+}
@@ -0,0 +1,29 @@
+// Types/interfaces for detect-recurring tool
+import type { RecurringCadence } from '../../core/recurring/recurring-detector.js';
+
+export interface PriceChange {
+  date: string;
+  from: number;
+  to: number;
+}
+
+export interface DetectedRecurring {
+  // Stable key of the payee/account pair, used to confirm a series for schedule creation
+  seriesId: string;
+  payeeId: string;
+  payeeName: string;
+  accountId: string;
+  accountName: string;
+  categoryId: string | null;
+  categoryName: string | null;
+  cadence: RecurringCadence;
+  occurrences: number;
+  averageAmount: number;
+  lastAmount: number;
+  lastDate: string;
+  nextDate: string;
+  active: boolean;
+  priceChanges: PriceChange[];
+  // Existing schedule for the same payee and account, if any
+  scheduleId: string | null;
+}
@@ -0,0 +1,28 @@
+// Fetches transactions and lookup tables for export-transactions tool
+import { fetchAllAccounts } from '../../core/data/fetch-accounts.js';
+import { fetchAllCategories } from '../../core/data/fetch-categories.js';
+import { fetchAllPayees } from '../../core/data/fetch-payees.js';
+import { fetchTransactionsForAccount } from '../../core/data/fetch-transactions.js';
+import type { Account, Category, Payee, Transaction } from '../../core/types/domain.js';
+
+export class ExportTransactionsDataFetcher {
+  async fetchAll(
+    accountId: string,
+    start: string,
+    end: string
+  ): Promise<{ account: Account; transactions: Transaction[]; categories: Category[]; payees: Payee[] }> {
+    const accounts = await fetchAllAccounts();
+    const account = accounts.find((a) => a.id === accountId);
+    if (!account) {
+      throw new Error(`Unknown account ID: ${accountId}`);
+    }
+
+    // # Reason: Split children only carry IDs, so names are resolved from the full lookup tables.
+    const [transactions, categories, payees] = await Promise.all([
+      fetchTransactionsForAccount(accountId, start, end),
+      fetchAllCategories(),
+      fetchAllPayees(),
+    ]);
+    return { account, transactions, categories, payees };
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { CsvExportFormatter } from './csv-formatter.js';
+import type { ExportedTransaction } from '../types.js';
+
+const record = (overrides: Partial<ExportedTransaction>): ExportedTransaction => ({
+  id: 't1',
+  parentId: null,
+  accountId: 'acc1',
+  accountName: 'Checking',
+  date: '2024-01-05',
+  amount: -1234,
+  payeeId: 'p1',
+  payee: 'Cafe',
+  categoryId: 'c1',
+  category: 'Food',
+  notes: null,
+  cleared: true,
+  importedId: null,
+  transferId: null,
+  subtransactions: [],
+  ...overrides,
+});
+
+describe('CsvExportFormatter', () => {
+  const formatter = new CsvExportFormatter();
+
+  it('writes a header and one row per transaction with raw integer amounts', () => {
+    const lines = formatter.format([record({})]).split('\n');
+
+    expect(lines[0]).toBe(
+      'id,parentId,date,accountId,accountName,payeeId,payee,categoryId,category,amount,notes,cleared,importedId,transferId'
+    );
+    expect(lines[1]).toBe('t1,,2024-01-05,acc1,Checking,p1,Cafe,c1,Food,-1234,,true,,');
+    expect(lines[2]).toBe('');
+  });
+
+  it('quotes cells containing commas, quotes and newlines', () => {
+    const csv = formatter.format([record({ payee: 'Smith, Jones & Co', notes: 'Said "thanks"\nsecond line' })]);
+
+    expect(csv).toContain(',"Smith, Jones & Co",');
+    expect(csv).toContain(',"Said ""thanks""\nsecond line",');
+  });
+
+  it('adds split children as rows after their parent', () => {
+    const child = record({ id: 't1-a', parentId: 't1', amount: -1000, category: 'Groceries' });
+    const lines = formatter
+      .format([record({ subtransactions: [child] })])
+      .trim()
+      .split('\n');
+
+    expect(lines.map((line) => line.split(',').slice(0, 2).join(','))).toEqual(['id,parentId', 't1,', 't1-a,t1']);
+  });
+});
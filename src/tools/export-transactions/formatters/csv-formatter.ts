@@ -0,0 +1,33 @@
+// Formats export records as CSV, one row per transaction and split child
+import type { ExportedTransaction } from '../types.js';
+
+const COLUMNS: Array<keyof Omit<ExportedTransaction, 'subtransactions'>> = [
+  'id',
+  'parentId',
+  'date',
+  'accountId',
+  'accountName',
+  'payeeId',
+  'payee',
+  'categoryId',
+  'category',
+  'amount',
+  'notes',
+  'cleared',
+  'importedId',
+  'transferId',
+];
+
+const escapeCell = (value: string | number | boolean | null): string => {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export class CsvExportFormatter {
+  format(records: ExportedTransaction[]): string {
+    const rows = records.flatMap((record) => [record, ...record.subtransactions]);
+    const lines = rows.map((row) => COLUMNS.map((column) => escapeCell(row[column])).join(','));
+    return [COLUMNS.join(','), ...lines].join('\n') + '\n';
+  }
+}
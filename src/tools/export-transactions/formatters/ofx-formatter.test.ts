@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { OfxExportFormatter } from './ofx-formatter.js';
+import type { ExportContext, ExportedTransaction } from '../types.js';
+
+const record = (overrides: Partial<ExportedTransaction>): ExportedTransaction => ({
+  id: 't1',
+  parentId: null,
+  accountId: 'acc1',
+  accountName: 'Checking',
+  date: '2024-01-05',
+  amount: -1234,
+  payeeId: 'p1',
+  payee: 'Cafe',
+  categoryId: 'c1',
+  category: 'Food',
+  notes: null,
+  cleared: true,
+  importedId: null,
+  transferId: null,
+  subtransactions: [],
+  ...overrides,
+});
+
+const context = (overrides: Partial<ExportContext> = {}): ExportContext => ({
+  accountId: 'acc1',
+  accountName: 'Checking',
+  startDate: '2024-01-01',
+  endDate: '2024-01-31',
+  amountFormat: { currency: 'USD', locale: 'en-US', decimalPlaces: 2 },
+  ...overrides,
+});
+
+describe('OfxExportFormatter', () => {
+  const formatter = new OfxExportFormatter();
+
+  it('formats dates as YYYYMMDD and amounts as decimals with the currency places', () => {
+    const ofx = formatter.format([record({}), record({ id: 't2', amount: 250000, date: '2024-01-20' })], context());
+
+    expect(ofx).toContain('<CURDEF>USD</CURDEF>');
+    expect(ofx).toContain('<DTSTART>20240101</DTSTART>');
+    expect(ofx).toContain('<DTEND>20240131</DTEND>');
+    expect(ofx).toContain('<TRNTYPE>DEBIT</TRNTYPE>\n<DTPOSTED>20240105</DTPOSTED>\n<TRNAMT>-12.34</TRNAMT>');
+    expect(ofx).toContain('<TRNTYPE>CREDIT</TRNTYPE>\n<DTPOSTED>20240120</DTPOSTED>\n<TRNAMT>2500.00</TRNAMT>');
+  });
+
+  it('writes amounts without decimals for 0-decimal currencies', () => {
+    const ofx = formatter.format(
+      [record({ amount: -1500 })],
+      context({ amountFormat: { currency: 'JPY', locale: 'ja-JP', decimalPlaces: 0 } })
+    );
+
+    expect(ofx).toContain('<CURDEF>JPY</CURDEF>');
+    expect(ofx).toContain('<TRNAMT>-1500</TRNAMT>');
+  });
+
+  it('escapes XML, prefers the imported ID and joins category and notes into the memo', () => {
+    const ofx = formatter.format(
+      [record({ payee: 'AT&T <Wireless>', importedId: 'BANK-1', notes: 'Phone "bill"' })],
+      context()
+    );
+
+    expect(ofx).toContain('<FITID>BANK-1</FITID>');
+    expect(ofx).toContain('<NAME>AT&amp;T &lt;Wireless&gt;</NAME>');
+    expect(ofx).toContain('<MEMO>Food - Phone &quot;bill&quot;</MEMO>');
+  });
+});
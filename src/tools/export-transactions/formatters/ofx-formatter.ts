@@ -0,0 +1,57 @@
+// Formats export records as an OFX 2 (XML) bank statement
+import { integerToAmount, type AmountFormat } from '../../../utils.js';
+import type { ExportContext, ExportedTransaction } from '../types.js';
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const element = (tag: string, value: string): string => `<${tag}>${escapeXml(value)}</${tag}>`;
+
+const toOfxDate = (date: string): string => date.replace(/-/g, '');
+
+// # Reason: OFX amounts are decimal strings, unlike the integer amounts used everywhere else.
+const toOfxAmount = (amount: number, format: AmountFormat): string =>
+  integerToAmount(amount, format).toFixed(format.decimalPlaces);
+
+export class OfxExportFormatter {
+  format(records: ExportedTransaction[], context: ExportContext): string {
+    // Split children are not representable in OFX; the parent carries the full amount
+    const transactions = records.map((record) => {
+      const memo = [record.category, record.notes].filter(Boolean).join(' - ');
+      return [
+        '<STMTTRN>',
+        element('TRNTYPE', record.amount < 0 ? 'DEBIT' : 'CREDIT'),
+        element('DTPOSTED', toOfxDate(record.date)),
+        element('TRNAMT', toOfxAmount(record.amount, context.amountFormat)),
+        element('FITID', record.importedId ?? record.id),
+        record.payee ? element('NAME', record.payee.slice(0, 32)) : null,
+        memo ? element('MEMO', memo) : null,
+        '</STMTTRN>',
+      ]
+        .filter(Boolean)
+        .join('\n');
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+      '<OFX>',
+      '<BANKMSGSRSV1>',
+      '<STMTTRNRS>',
+      element('TRNUID', '0'),
+      `<STATUS>${element('CODE', '0')}${element('SEVERITY', 'INFO')}</STATUS>`,
+      '<STMTRS>',
+      element('CURDEF', context.amountFormat.currency),
+      `<BANKACCTFROM>${element('BANKID', 'ACTUAL')}${element('ACCTID', context.accountId)}${element('ACCTTYPE', 'CHECKING')}</BANKACCTFROM>`,
+      '<BANKTRANLIST>',
+      element('DTSTART', toOfxDate(context.startDate)),
+      element('DTEND', toOfxDate(context.endDate)),
+      ...transactions,
+      '</BANKTRANLIST>',
+      '</STMTRS>',
+      '</STMTTRNRS>',
+      '</BANKMSGSRSV1>',
+      '</OFX>',
+    ].join('\n');
+  }
+}
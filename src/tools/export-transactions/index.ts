@@ -0,0 +1,69 @@
+// Orchestrator for export-transactions tool
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ExportTransactionsDataFetcher } from './data-fetcher.js';
+import { ExportTransactionsMapper } from './transaction-mapper.js';
+import { CsvExportFormatter } from './formatters/csv-formatter.js';
+import { OfxExportFormatter } from './formatters/ofx-formatter.js';
+import { GetTransactionsFilter } from '../get-transactions/transaction-filter.js';
+import { success, errorFromCatch } from '../../utils/response.js';
+import { getDateRange } from '../../utils.js';
+import {
+  ExportTransactionsArgsSchema,
+  ExportTransactionsOutputSchema,
+  type ExportTransactionsArgs,
+  type ToolInput,
+  type ToolOutput,
+} from '../../types.js';
+import { fetchAmountFormat } from '../../core/data/fetch-amount-format.js';
+
+export const schema = {
+  name: 'export-transactions',
+  description:
+    'Export transactions for an account as CSV, JSON or OFX with raw integer amounts, IDs, payee/category names and split children. Accepts the same filters as get-transactions.',
+  inputSchema: zodToJsonSchema(ExportTransactionsArgsSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(ExportTransactionsOutputSchema) as ToolOutput,
+};
+
+export async function handler(args: ExportTransactionsArgs): Promise<CallToolResult> {
+  try {
+    const input = ExportTransactionsArgsSchema.parse(args);
+    const { startDate, endDate } = getDateRange(input.startDate, input.endDate);
+
+    const { account, transactions, categories, payees } = await new ExportTransactionsDataFetcher().fetchAll(
+      input.accountId,
+      startDate,
+      endDate
+    );
+    const amountFormat = await fetchAmountFormat();
+    const filtered = new GetTransactionsFilter(amountFormat).filter(transactions, input);
+    const records = new ExportTransactionsMapper().map(filtered, account, categories, payees);
+    const structured = ExportTransactionsOutputSchema.parse({
+      accountId: account.id,
+      accountName: account.name,
+      startDate,
+      endDate,
+      transactions: records,
+    });
+
+    switch (input.format) {
+      case 'json':
+        return success(JSON.stringify(records, null, 2), structured);
+      case 'ofx':
+        return success(
+          new OfxExportFormatter().format(records, {
+            accountId: account.id,
+            accountName: account.name,
+            startDate,
+            endDate,
+            amountFormat,
+          }),
+          structured
+        );
+      case 'csv':
+        return success(new CsvExportFormatter().format(records), structured);
+    }
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
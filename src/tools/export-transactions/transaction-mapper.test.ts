@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { ExportTransactionsMapper } from './transaction-mapper.js';
+import { CsvExportFormatter } from './formatters/csv-formatter.js';
+import type { Transaction } from '../../core/types/domain.js';
+
+describe('ExportTransactionsMapper', () => {
+  const account = { id: 'acc1', name: 'Checking' };
+  const categories = [
+    { id: 'cat1', name: 'Groceries', group_id: 'g1' },
+    { id: 'cat2', name: 'Household', group_id: 'g1' },
+  ];
+  const payees = [{ id: 'p1', name: 'Costco' }];
+
+  const transactions: Transaction[] = [
+    {
+      id: 't1',
+      account: 'acc1',
+      date: '2024-01-05',
+      amount: -12000,
+      payee: 'p1',
+      payee_name: 'Costco',
+      notes: 'Monthly "bulk" run, part 1',
+      cleared: true,
+      is_parent: true,
+      subtransactions: [
+        { id: 't1a', account: 'acc1', date: '2024-01-05', amount: -8000, category: 'cat1', parent_id: 't1' },
+        { id: 't1b', account: 'acc1', date: '2024-01-05', amount: -4000, category: 'cat2', parent_id: 't1' },
+      ],
+    },
+  ];
+
+  it('should keep raw amounts and resolve names for split children', () => {
+    const [record] = new ExportTransactionsMapper().map(transactions, account, categories, payees);
+
+    expect(record).toMatchObject({ id: 't1', parentId: null, amount: -12000, payee: 'Costco', category: null });
+    expect(record.subtransactions).toEqual([
+      expect.objectContaining({ id: 't1a', parentId: 't1', amount: -8000, categoryId: 'cat1', category: 'Groceries' }),
+      expect.objectContaining({ id: 't1b', parentId: 't1', amount: -4000, categoryId: 'cat2', category: 'Household' }),
+    ]);
+  });
+
+  it('should flatten split children into CSV rows and escape cells', () => {
+    const records = new ExportTransactionsMapper().map(transactions, account, categories, payees);
+    const lines = new CsvExportFormatter().format(records).trim().split('\n');
+
+    expect(lines[0]).toBe(
+      'id,parentId,date,accountId,accountName,payeeId,payee,categoryId,category,amount,notes,cleared,importedId,transferId'
+    );
+    expect(lines[1]).toBe('t1,,2024-01-05,acc1,Checking,p1,Costco,,,-12000,"Monthly ""bulk"" run, part 1",true,,');
+    expect(lines[2]).toBe('t1a,t1,2024-01-05,acc1,Checking,,,cat1,Groceries,-8000,,false,,');
+    expect(lines).toHaveLength(4);
+  });
+});
@@ -0,0 +1,30 @@
+// Maps transactions (including split children) to export records for export-transactions tool
+import type { Account, Category, Payee, Transaction } from '../../core/types/domain.js';
+import type { ExportedTransaction } from './types.js';
+
+export class ExportTransactionsMapper {
+  map(transactions: Transaction[], account: Account, categories: Category[], payees: Payee[]): ExportedTransaction[] {
+    const categoryNames = new Map(categories.map((c) => [c.id, c.name]));
+    const payeeNames = new Map(payees.map((p) => [p.id, p.name]));
+
+    const toRecord = (t: Transaction, parentId: string | null): ExportedTransaction => ({
+      id: t.id,
+      parentId,
+      accountId: account.id,
+      accountName: account.name,
+      date: t.date,
+      amount: t.amount,
+      payeeId: t.payee ?? null,
+      payee: t.payee_name ?? (t.payee ? (payeeNames.get(t.payee) ?? null) : null),
+      categoryId: t.category ?? null,
+      category: t.category_name ?? (t.category ? (categoryNames.get(t.category) ?? null) : null),
+      notes: t.notes ?? null,
+      cleared: t.cleared ?? false,
+      importedId: t.imported_id ?? null,
+      transferId: t.transfer_id ?? null,
+      subtransactions: (t.subtransactions ?? []).map((child) => toRecord(child, t.id)),
+    });
+
+    return transactions.map((t) => toRecord(t, null));
+  }
+}
@@ -0,0 +1,28 @@
+// Types/interfaces for export-transactions tool
+import type { AmountFormat } from '../../utils.js';
+
+export interface ExportedTransaction {
+  id: string;
+  parentId: string | null;
+  accountId: string;
+  accountName: string;
+  date: string;
+  amount: number;
+  payeeId: string | null;
+  payee: string | null;
+  categoryId: string | null;
+  category: string | null;
+  notes: string | null;
+  cleared: boolean;
+  importedId: string | null;
+  transferId: string | null;
+  subtransactions: ExportedTransaction[];
+}
+
+export interface ExportContext {
+  accountId: string;
+  accountName: string;
+  startDate: string;
+  endDate: string;
+  amountFormat: AmountFormat;
+}
@@ -4,12 +4,13 @@
 
 import { successWithJson, errorFromCatch } from '../../utils/response.js';
 import { fetchAllAccounts } from '../../core/data/fetch-accounts.js';
+import { fetchAmountFormat } from '../../core/data/fetch-amount-format.js';
 import type { Account } from '../../core/types/domain.js';
 import { getAccountBalance } from '@actual-app/api';
 import { formatAmount } from '../../utils.js';
 import { z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
-import { type ToolInput } from '../../types.js';
+import { GetAccountsOutputSchema, type ToolInput, type ToolOutput } from '../../types.js';
 
 // Define an empty schema with zod
 const GetAccountsArgsSchema = z.object({});
@@ -18,11 +19,13 @@ export const schema = {
   name: 'get-accounts',
   description: 'Retrieve a list of all accounts with their current balance and ID.',
   inputSchema: zodToJsonSchema(GetAccountsArgsSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(GetAccountsOutputSchema) as ToolOutput,
 };
 
 export async function handler(): Promise<ReturnType<typeof successWithJson> | ReturnType<typeof errorFromCatch>> {
   try {
     const accounts: Account[] = await fetchAllAccounts();
+    const amountFormat = await fetchAmountFormat();
 
     for (const account of accounts) {
       account.balance = await getAccountBalance(account.id);
@@ -32,12 +35,24 @@ export async function handler(): Promise<ReturnType<typeof successWithJson> | Re
       id: account.id,
       name: account.name,
       type: account.type || 'Account',
-      balance: formatAmount(account.balance),
+      balance: formatAmount(account.balance, amountFormat),
       closed: account.closed,
       offBudget: account.offbudget,
     }));
 
-    return successWithJson(structured);
+    return successWithJson(
+      structured,
+      GetAccountsOutputSchema.parse({
+        accounts: accounts.map((account) => ({
+          id: account.id,
+          name: account.name,
+          type: account.type ?? null,
+          balance: account.balance,
+          closed: account.closed ?? false,
+          offBudget: account.offbudget ?? false,
+        })),
+      })
+    );
   } catch (err) {
     return errorFromCatch(err);
   }
@@ -0,0 +1,37 @@
+// Orchestrator for get-audit-log tool
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { auditLog } from '../../core/audit/audit-log.js';
+import { AuditLogReportGenerator } from './report-generator.js';
+import { success, errorFromCatch } from '../../utils/response.js';
+import {
+  GetAuditLogArgsSchema,
+  GetAuditLogOutputSchema,
+  type GetAuditLogArgs,
+  type ToolInput,
+  type ToolOutput,
+} from '../../types.js';
+import type { ToolScope } from '../../auth/scopes.js';
+
+export const schema = {
+  name: 'get-audit-log',
+  description:
+    'Query the audit log of write operations made through this server, newest first. Each entry has the time, client ID, tool, arguments, before/after snapshots of the changed entity and the result. Filter by date range, tool name, entity ID or client ID.',
+  inputSchema: zodToJsonSchema(GetAuditLogArgsSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(GetAuditLogOutputSchema) as ToolOutput,
+};
+
+// The log covers every client and budget of the server
+export const scope: ToolScope = 'admin';
+
+export async function handler(args: GetAuditLogArgs): Promise<CallToolResult> {
+  try {
+    const filter = GetAuditLogArgsSchema.parse(args ?? {});
+    const entries = await auditLog.query(filter);
+
+    const markdown = new AuditLogReportGenerator().generate(entries);
+    return success(markdown, GetAuditLogOutputSchema.parse({ entries }));
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
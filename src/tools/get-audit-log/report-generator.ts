@@ -0,0 +1,39 @@
+// Generates the markdown report for get-audit-log tool
+import type { AuditEntry } from '../../core/audit/audit-log.js';
+
+// Top-level fields whose value differs between the before and after snapshots
+export const changedFields = (before: unknown, after: unknown): string[] => {
+  if (!before || !after || typeof before !== 'object' || typeof after !== 'object') {
+    return [];
+  }
+  const b = before as Record<string, unknown>;
+  const a = after as Record<string, unknown>;
+  return [...new Set([...Object.keys(b), ...Object.keys(a)])].filter(
+    (key) => JSON.stringify(b[key]) !== JSON.stringify(a[key])
+  );
+};
+
+export class AuditLogReportGenerator {
+  generate(entries: AuditEntry[]): string {
+    let markdown = `# Audit Log\n\n`;
+
+    if (entries.length === 0) {
+      markdown += `No audit entries match these filters.\n`;
+      return markdown;
+    }
+
+    markdown += `| Time | Tool | Client | Entity | Changes | Result |\n`;
+    markdown += `| ---- | ---- | ------ | ------ | ------- | ------ |\n`;
+    entries.forEach((entry) => {
+      const entity = entry.entity ? `${entry.entity.type} ${entry.entity.id}` : '-';
+      let changes = changedFields(entry.before, entry.after).join(', ');
+      if (entry.entity && entry.before && !entry.after) changes = 'deleted';
+      if (entry.entity && !entry.before && entry.after) changes = 'created';
+      const result = entry.result.isError ? `Error: ${entry.result.text.split('\n')[0]}` : 'OK';
+      markdown += `| ${entry.timestamp} | ${entry.tool} | ${entry.clientId ?? '-'} | ${entity} | ${changes || '-'} | ${result} |\n`;
+    });
+
+    markdown += `\nFull arguments and before/after snapshots are in the structured content.\n`;
+    return markdown;
+  }
+}
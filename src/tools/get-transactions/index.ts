@@ -2,55 +2,52 @@
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { GetTransactionsInputParser } from './input-parser.js';
 import { GetTransactionsDataFetcher } from './data-fetcher.js';
+import { GetTransactionsFilter } from './transaction-filter.js';
 import { GetTransactionsMapper } from './transaction-mapper.js';
 import { GetTransactionsReportGenerator } from './report-generator.js';
 import { success, errorFromCatch } from '../../utils/response.js';
-import { getDateRange } from '../../utils.js';
-import { GetTransactionsArgsSchema, type GetTransactionsArgs, type ToolInput } from '../../types.js';
+import { amountToInteger, formatAmount, getDateRange } from '../../utils.js';
+import { TransactionMapper } from '../../core/mapping/transaction-mapper.js';
+import {
+  GetTransactionsArgsSchema,
+  GetTransactionsOutputSchema,
+  type GetTransactionsArgs,
+  type ToolInput,
+  type ToolOutput,
+} from '../../types.js';
 import { zodToJsonSchema } from 'zod-to-json-schema';
+import { fetchAmountFormat } from '../../core/data/fetch-amount-format.js';
 
 export const schema = {
   name: 'get-transactions',
   description: 'Get transactions for an account with optional filtering',
   inputSchema: zodToJsonSchema(GetTransactionsArgsSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(GetTransactionsOutputSchema) as ToolOutput,
 };
 
 export async function handler(args: GetTransactionsArgs): Promise<CallToolResult> {
   try {
     const input = new GetTransactionsInputParser().parse(args);
-    const { accountId, startDate, endDate, minAmount, maxAmount, categoryName, payeeName, limit } = input;
+    const { accountId, startDate, endDate, minAmount, maxAmount, categoryName, payeeName } = input;
     const { startDate: start, endDate: end } = getDateRange(startDate, endDate);
 
     // Fetch transactions
     const transactions = await new GetTransactionsDataFetcher().fetch(accountId, start, end);
-    let filtered = [...transactions];
-
-    if (minAmount !== undefined) {
-      filtered = filtered.filter((t) => t.amount >= minAmount * 100);
-    }
-    if (maxAmount !== undefined) {
-      filtered = filtered.filter((t) => t.amount <= maxAmount * 100);
-    }
-    if (categoryName) {
-      const lowerCategory = categoryName.toLowerCase();
-      filtered = filtered.filter((t) => (t.category_name || '').toLowerCase().includes(lowerCategory));
-    }
-    if (payeeName) {
-      const lowerPayee = payeeName.toLowerCase();
-      filtered = filtered.filter((t) => (t.payee_name || '').toLowerCase().includes(lowerPayee));
-    }
-    if (limit && filtered.length > limit) {
-      filtered = filtered.slice(0, limit);
-    }
+    const amountFormat = await fetchAmountFormat();
+    const filtered = new GetTransactionsFilter(amountFormat).filter(transactions, input);
 
     // Map transactions for output
-    const mapped = new GetTransactionsMapper().map(filtered);
+    const mapped = new GetTransactionsMapper(amountFormat).map(filtered);
 
     // Build filter description
     const filterDescription = [
       startDate || endDate ? `Date range: ${startDate} to ${endDate}` : null,
-      minAmount !== undefined ? `Min amount: $${minAmount.toFixed(2)}` : null,
-      maxAmount !== undefined ? `Max amount: $${maxAmount.toFixed(2)}` : null,
+      minAmount !== undefined
+        ? `Min amount: ${formatAmount(amountToInteger(minAmount, amountFormat), amountFormat)}`
+        : null,
+      maxAmount !== undefined
+        ? `Max amount: ${formatAmount(amountToInteger(maxAmount, amountFormat), amountFormat)}`
+        : null,
       categoryName ? `Category: ${categoryName}` : null,
       payeeName ? `Payee: ${payeeName}` : null,
     ]
@@ -63,7 +60,18 @@ export async function handler(args: GetTransactionsArgs): Promise<CallToolResult
       filtered.length,
       transactions.length
     );
-    return success(markdown);
+    const mapper = new TransactionMapper();
+    return success(
+      markdown,
+      GetTransactionsOutputSchema.parse({
+        accountId,
+        startDate: start,
+        endDate: end,
+        matchCount: filtered.length,
+        totalCount: transactions.length,
+        transactions: filtered.map((t) => mapper.toOutput(t)),
+      })
+    );
   } catch (err) {
     return errorFromCatch(err);
   }
@@ -0,0 +1,38 @@
+// Applies get-transactions filters (amount, category, payee, limit) to fetched transactions
+import type { GetTransactionsArgs } from '../../types.js';
+import type { Transaction } from '../../core/types/domain.js';
+import { amountToInteger, resolveAmountFormat, type AmountFormat } from '../../utils.js';
+
+export class GetTransactionsFilter {
+  constructor(private readonly amountFormat: AmountFormat = resolveAmountFormat()) {}
+
+  filter(
+    transactions: Transaction[],
+    input: Pick<GetTransactionsArgs, 'minAmount' | 'maxAmount' | 'categoryName' | 'payeeName' | 'limit'>
+  ): Transaction[] {
+    const { minAmount, maxAmount, categoryName, payeeName, limit } = input;
+    let filtered = [...transactions];
+
+    // minAmount/maxAmount are decimal amounts in the currency's major unit, e.g. 12.50
+    if (minAmount !== undefined) {
+      const min = amountToInteger(minAmount, this.amountFormat);
+      filtered = filtered.filter((t) => t.amount >= min);
+    }
+    if (maxAmount !== undefined) {
+      const max = amountToInteger(maxAmount, this.amountFormat);
+      filtered = filtered.filter((t) => t.amount <= max);
+    }
+    if (categoryName) {
+      const lowerCategory = categoryName.toLowerCase();
+      filtered = filtered.filter((t) => (t.category_name || '').toLowerCase().includes(lowerCategory));
+    }
+    if (payeeName) {
+      const lowerPayee = payeeName.toLowerCase();
+      filtered = filtered.filter((t) => (t.payee_name || '').toLowerCase().includes(lowerPayee));
+    }
+    if (limit && filtered.length > limit) {
+      filtered = filtered.slice(0, limit);
+    }
+    return filtered;
+  }
+}
@@ -1,8 +1,10 @@
 // Maps and formats transaction data for get-transactions tool
-import { formatAmount, formatDate } from '../../utils.js';
+import { formatAmount, formatDate, resolveAmountFormat, type AmountFormat } from '../../utils.js';
 import type { Transaction } from '../../types.js';
 
 export class GetTransactionsMapper {
+  constructor(private readonly amountFormat: AmountFormat = resolveAmountFormat()) {}
+
   map(transactions: Transaction[]): Array<{
     id: string;
     date: string;
@@ -17,7 +19,7 @@ export class GetTransactionsMapper {
       date: formatDate(t.date),
       payee: t.payee_name || t.payee || '(No payee)',
       category: t.category_name || t.category || '(Uncategorized)',
-      amount: formatAmount(t.amount),
+      amount: formatAmount(t.amount, this.amountFormat),
       notes: t.notes || '',
       cleared: t.cleared ?? false,
     }));
@@ -0,0 +1,65 @@
+// Orchestrator for import-transactions tool
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { CsvTransactionParser } from './parsers/csv-parser.js';
+import { OfxTransactionParser } from './parsers/ofx-parser.js';
+import { QifTransactionParser } from './parsers/qif-parser.js';
+import { ImportTransactionMapper } from './transaction-mapper.js';
+import { successWithJson, errorFromCatch } from '../../utils/response.js';
+import { importTransactions } from '../../actual-api.js';
+import { ImportTransactionsArgsSchema, type ImportTransactionsArgs, type ToolInput } from '../../types.js';
+import type { ImportSummary, ParsedTransaction } from './types.js';
+import { fetchAmountFormat } from '../../core/data/fetch-amount-format.js';
+
+export const schema = {
+  name: 'import-transactions',
+  description:
+    'Import transactions from a CSV, OFX/QFX or QIF bank export into an account. Uses imported IDs to skip transactions that were already imported, runs rules, and supports a dry run to preview the result.',
+  inputSchema: zodToJsonSchema(ImportTransactionsArgsSchema) as ToolInput,
+};
+
+export const argsSchema = ImportTransactionsArgsSchema;
+
+export async function handler(args: ImportTransactionsArgs): Promise<CallToolResult> {
+  try {
+    const input = ImportTransactionsArgsSchema.parse(args);
+
+    const amountFormat = await fetchAmountFormat();
+    let rows: ParsedTransaction[];
+    switch (input.format) {
+      case 'csv':
+        rows = new CsvTransactionParser(amountFormat).parse(input.content, {
+          delimiter: input.delimiter,
+          dateFormat: input.dateFormat ?? 'YYYY-MM-DD',
+          columnMapping: input.columnMapping,
+        });
+        break;
+      case 'ofx':
+      case 'qfx':
+        rows = new OfxTransactionParser(amountFormat).parse(input.content);
+        break;
+      case 'qif':
+        rows = new QifTransactionParser(amountFormat).parse(input.content, input.dateFormat ?? 'MM/DD/YYYY');
+        break;
+    }
+
+    if (rows.length === 0) {
+      throw new Error(`No transactions found in ${input.format.toUpperCase()} content`);
+    }
+
+    const transactions = new ImportTransactionMapper().map(rows);
+    const result = await importTransactions(input.accountId, transactions, { dryRun: input.dryRun });
+
+    const summary: ImportSummary = {
+      total: transactions.length,
+      added: result.added.length,
+      updated: result.updated.length,
+      skipped: Math.max(0, transactions.length - result.added.length - result.updated.length),
+      errors: result.errors.map((e) => e.message),
+    };
+
+    return successWithJson({ dryRun: input.dryRun, ...summary });
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { CsvTransactionParser } from './csv-parser.js';
+
+describe('CsvTransactionParser', () => {
+  const parser = new CsvTransactionParser();
+
+  it('should parse default headers with quoted fields', () => {
+    const content =
+      'Date,Description,Amount,Memo\n2024-01-05,"Coffee, Inc.",-4.50,"Said ""hi"""\n2024-01-06,Payroll,"1,200.00",\n';
+
+    expect(parser.parse(content, { delimiter: ',', dateFormat: 'YYYY-MM-DD' })).toEqual([
+      { date: '2024-01-05', amount: -450, payee: 'Coffee, Inc.', notes: 'Said "hi"', importedId: undefined },
+      { date: '2024-01-06', amount: 120000, payee: 'Payroll', notes: undefined, importedId: undefined },
+    ]);
+  });
+
+  it('should apply column mapping with inflow/outflow columns and custom delimiter', () => {
+    const content = 'Posted;Merchant;Credit;Debit;Ref\n05/01/2024;Grocer;;23.10;A1\n06/01/2024;Refund;5.00;;A2';
+
+    const rows = parser.parse(content, {
+      delimiter: ';',
+      dateFormat: 'DD/MM/YYYY',
+      columnMapping: { date: 'posted', payee: 'Merchant', inflow: 'Credit', outflow: 'Debit', importedId: 'Ref' },
+    });
+
+    expect(rows).toEqual([
+      { date: '2024-01-05', amount: -2310, payee: 'Grocer', notes: undefined, importedId: 'A1' },
+      { date: '2024-01-06', amount: 500, payee: 'Refund', notes: undefined, importedId: 'A2' },
+    ]);
+  });
+
+  it('should throw when a mapped column is missing', () => {
+    expect(() =>
+      parser.parse('Date,Amount\n2024-01-05,1.00', {
+        delimiter: ',',
+        dateFormat: 'YYYY-MM-DD',
+        columnMapping: { payee: 'Payee' },
+      })
+    ).toThrow('CSV column "Payee" for payee not found');
+  });
+
+  it('should report the line number of an invalid row', () => {
+    expect(() =>
+      parser.parse('Date,Amount\n2024-01-05,1.00\nnot-a-date,2.00', { delimiter: ',', dateFormat: 'YYYY-MM-DD' })
+    ).toThrow('CSV line 3: Invalid date: not-a-date');
+  });
+});
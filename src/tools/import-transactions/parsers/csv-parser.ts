@@ -0,0 +1,131 @@
+// Parses CSV bank exports for import-transactions tool
+import { parseAmountToInteger, resolveAmountFormat, type AmountFormat } from '../../../utils.js';
+import { parseImportDate } from './parse-date.js';
+import type { CsvColumnMapping, ImportDateFormat } from '../../../types.js';
+import type { ParsedTransaction } from '../types.js';
+
+const DEFAULT_HEADERS: Record<keyof CsvColumnMapping, string[]> = {
+  date: ['date', 'posted date', 'transaction date'],
+  amount: ['amount'],
+  inflow: [],
+  outflow: [],
+  payee: ['payee', 'description', 'name', 'merchant'],
+  notes: ['notes', 'memo'],
+  importedId: [],
+};
+
+export class CsvTransactionParser {
+  constructor(private readonly amountFormat: AmountFormat = resolveAmountFormat()) {}
+
+  parse(
+    content: string,
+    options: { delimiter: string; dateFormat: ImportDateFormat; columnMapping?: CsvColumnMapping }
+  ): ParsedTransaction[] {
+    const rows = this.splitRows(content, options.delimiter).filter((row) => row.some((cell) => cell.trim() !== ''));
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const [header, ...dataRows] = rows;
+    const columns = this.resolveColumns(header, options.columnMapping ?? {});
+
+    return dataRows.map((row, index) => {
+      const cell = (column: number | undefined): string => (column === undefined ? '' : (row[column] ?? '').trim());
+      const line = index + 2;
+
+      try {
+        return {
+          date: parseImportDate(cell(columns.date), options.dateFormat),
+          amount: this.rowAmount(cell(columns.amount), cell(columns.inflow), cell(columns.outflow)),
+          payee: cell(columns.payee) || undefined,
+          notes: cell(columns.notes) || undefined,
+          importedId: cell(columns.importedId) || undefined,
+        };
+      } catch (err) {
+        throw new Error(`CSV line ${line}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    });
+  }
+
+  private rowAmount(amount: string, inflow: string, outflow: string): number {
+    if (amount !== '') {
+      return parseAmountToInteger(amount, this.amountFormat);
+    }
+    if (inflow === '' && outflow === '') {
+      throw new Error('Missing amount');
+    }
+    const deposit = inflow !== '' ? Math.abs(parseAmountToInteger(inflow, this.amountFormat)) : 0;
+    const withdrawal = outflow !== '' ? Math.abs(parseAmountToInteger(outflow, this.amountFormat)) : 0;
+    return deposit - withdrawal;
+  }
+
+  private resolveColumns(header: string[], mapping: CsvColumnMapping): Partial<Record<keyof CsvColumnMapping, number>> {
+    const normalized = header.map((name) => name.trim().toLowerCase());
+    const columns: Partial<Record<keyof CsvColumnMapping, number>> = {};
+
+    (Object.keys(DEFAULT_HEADERS) as Array<keyof CsvColumnMapping>).forEach((field) => {
+      const mapped = mapping[field];
+      if (mapped) {
+        const index = normalized.indexOf(mapped.trim().toLowerCase());
+        if (index === -1) {
+          throw new Error(`CSV column "${mapped}" for ${field} not found in header: ${header.join(', ')}`);
+        }
+        columns[field] = index;
+        return;
+      }
+      const index = normalized.findIndex((name) => DEFAULT_HEADERS[field].includes(name));
+      if (index !== -1) {
+        columns[field] = index;
+      }
+    });
+
+    if (columns.date === undefined) {
+      throw new Error('CSV date column not found. Provide columnMapping.date');
+    }
+    if (columns.amount === undefined && columns.inflow === undefined && columns.outflow === undefined) {
+      throw new Error('CSV amount column not found. Provide columnMapping.amount or columnMapping.inflow/outflow');
+    }
+    return columns;
+  }
+
+  // Splits CSV text into rows of cells, honouring quoted fields with embedded delimiters, quotes and newlines
+  private splitRows(content: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+      if (inQuotes) {
+        if (char === '"' && content[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') i++;
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+
+    if (cell !== '' || row.length > 0) {
+      row.push(cell);
+      rows.push(row);
+    }
+    return rows;
+  }
+}
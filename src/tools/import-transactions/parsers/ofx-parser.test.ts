@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { OfxTransactionParser } from './ofx-parser.js';
+
+describe('OfxTransactionParser', () => {
+  const parser = new OfxTransactionParser();
+
+  it('should parse SGML statements without closing tags', () => {
+    const content = [
+      'OFXHEADER:100',
+      '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>',
+      '<STMTTRN>',
+      '<TRNTYPE>DEBIT',
+      '<DTPOSTED>20240105120000[-5:EST]',
+      '<TRNAMT>-12.34',
+      '<FITID>ABC123',
+      '<NAME>AT&amp;T',
+      '<MEMO>Phone bill',
+      '<STMTTRN>',
+      '<TRNTYPE>CREDIT',
+      '<DTPOSTED>20240110',
+      '<TRNAMT>500.00',
+      '<FITID>ABC124',
+      '<PAYEE>Employer',
+      '</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>',
+    ].join('\n');
+
+    expect(parser.parse(content)).toEqual([
+      { date: '2024-01-05', amount: -1234, payee: 'AT&T', notes: 'Phone bill', importedId: 'ABC123' },
+      { date: '2024-01-10', amount: 50000, payee: 'Employer', notes: undefined, importedId: 'ABC124' },
+    ]);
+  });
+
+  it('should parse XML statements', () => {
+    const content =
+      '<BANKTRANLIST><STMTTRN><DTPOSTED>20240201</DTPOSTED><TRNAMT>-3.50</TRNAMT><FITID>X1</FITID><NAME>Cafe</NAME></STMTTRN></BANKTRANLIST>';
+
+    expect(parser.parse(content)).toEqual([
+      { date: '2024-02-01', amount: -350, payee: 'Cafe', notes: undefined, importedId: 'X1' },
+    ]);
+  });
+
+  it('should throw when a transaction has no amount', () => {
+    expect(() => parser.parse('<STMTTRN><DTPOSTED>20240201</DTPOSTED></STMTTRN>')).toThrow(
+      'OFX transaction 1: missing DTPOSTED or TRNAMT'
+    );
+  });
+});
@@ -0,0 +1,44 @@
+// Parses OFX/QFX statements (SGML or XML flavour) for import-transactions tool
+import { parseAmountToInteger, resolveAmountFormat, type AmountFormat } from '../../../utils.js';
+import { parseImportDate } from './parse-date.js';
+import type { ParsedTransaction } from '../types.js';
+
+const decodeEntities = (value: string): string =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+export class OfxTransactionParser {
+  constructor(private readonly amountFormat: AmountFormat = resolveAmountFormat()) {}
+
+  parse(content: string): ParsedTransaction[] {
+    const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) ?? [];
+
+    return blocks.map((block, index) => {
+      // # Reason: SGML OFX omits closing tags, so a value runs until the next tag or line break.
+      const field = (tag: string): string | undefined => {
+        const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+        const value = match ? decodeEntities(match[1].trim()) : '';
+        return value !== '' ? value : undefined;
+      };
+
+      const posted = field('DTPOSTED');
+      const amount = field('TRNAMT');
+      if (!posted || !amount) {
+        throw new Error(`OFX transaction ${index + 1}: missing DTPOSTED or TRNAMT`);
+      }
+
+      return {
+        date: parseImportDate(posted, 'YYYYMMDD'),
+        // # Reason: OFX amounts use a dot as decimal separator regardless of the budget locale.
+        amount: parseAmountToInteger(amount, { ...this.amountFormat, locale: 'en-US' }),
+        payee: field('NAME') ?? field('PAYEE'),
+        notes: field('MEMO'),
+        importedId: field('FITID'),
+      };
+    });
+  }
+}
@@ -0,0 +1,39 @@
+// Normalizes dates from import files to YYYY-MM-DD
+import type { ImportDateFormat } from '../../../types.js';
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const toIsoDate = (year: number, month: number, day: number, raw: string): string => {
+  if (!year || month < 1 || month > 12 || day < 1 || day > 31) {
+    throw new Error(`Invalid date: ${raw}`);
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+// # Reason: QIF files commonly use two-digit years (and an apostrophe before years from 2000).
+const expandYear = (year: number): number => (year < 100 ? (year < 70 ? 2000 + year : 1900 + year) : year);
+
+export function parseImportDate(value: string, format: ImportDateFormat): string {
+  const raw = value.trim();
+
+  if (format === 'YYYYMMDD') {
+    const match = raw.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (!match) throw new Error(`Invalid date: ${value}`);
+    return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]), value);
+  }
+
+  if (format === 'YYYY-MM-DD') {
+    const match = raw.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+    if (!match) throw new Error(`Invalid date: ${value}`);
+    return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]), value);
+  }
+
+  const parts = raw.split(/[-/.']/).map((part) => part.trim());
+  if (parts.length !== 3 || parts.some((part) => !/^\d+$/.test(part))) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  const [first, second, year] = parts.map(Number);
+  return format === 'MM/DD/YYYY'
+    ? toIsoDate(expandYear(year), first, second, value)
+    : toIsoDate(expandYear(year), second, first, value);
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { QifTransactionParser } from './qif-parser.js';
+
+describe('QifTransactionParser', () => {
+  const parser = new QifTransactionParser();
+
+  it('should parse records with two-digit and apostrophe years', () => {
+    const content = [
+      '!Type:Bank',
+      "D1/5'24",
+      'T-1,234.56',
+      'PLandlord',
+      'MRent',
+      'N1042',
+      '^',
+      'D12/31/23',
+      'U20.00',
+      'PInterest',
+      '^',
+    ].join('\n');
+
+    expect(parser.parse(content, 'MM/DD/YYYY')).toEqual([
+      { date: '2024-01-05', amount: -123456, payee: 'Landlord', notes: 'Rent', importedId: 'check-1042' },
+      { date: '2023-12-31', amount: 2000, payee: 'Interest', notes: undefined, importedId: undefined },
+    ]);
+  });
+
+  it('should honour the requested date format', () => {
+    expect(parser.parse('D05/01/2024\nT-5.00\n^', 'DD/MM/YYYY')[0].date).toBe('2024-01-05');
+  });
+
+  it('should throw on a record without an amount', () => {
+    expect(() => parser.parse('D01/05/2024\nPNobody\n^', 'MM/DD/YYYY')).toThrow(
+      'QIF record 1: missing date (D) or amount (T)'
+    );
+  });
+});
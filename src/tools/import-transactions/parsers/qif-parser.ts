@@ -0,0 +1,47 @@
+// Parses QIF files for import-transactions tool
+import { parseAmountToInteger, resolveAmountFormat, type AmountFormat } from '../../../utils.js';
+import { parseImportDate } from './parse-date.js';
+import type { ImportDateFormat } from '../../../types.js';
+import type { ParsedTransaction } from '../types.js';
+
+export class QifTransactionParser {
+  constructor(private readonly amountFormat: AmountFormat = resolveAmountFormat()) {}
+
+  parse(content: string, dateFormat: ImportDateFormat): ParsedTransaction[] {
+    const transactions: ParsedTransaction[] = [];
+    let record: Record<string, string> = {};
+
+    const flush = (): void => {
+      if (Object.keys(record).length === 0) return;
+      if (!record.D || (record.T === undefined && record.U === undefined)) {
+        throw new Error(`QIF record ${transactions.length + 1}: missing date (D) or amount (T)`);
+      }
+      transactions.push({
+        date: parseImportDate(record.D, dateFormat),
+        amount: parseAmountToInteger(record.T ?? record.U, this.amountFormat),
+        payee: record.P || undefined,
+        notes: record.M || undefined,
+        // # Reason: Check numbers are the only stable identifier QIF offers.
+        importedId: record.N && /^\d+$/.test(record.N) ? `check-${record.N}` : undefined,
+      });
+      record = {};
+    };
+
+    content.split(/\r?\n/).forEach((rawLine) => {
+      const line = rawLine.trim();
+      if (line === '' || line.startsWith('!')) return;
+      if (line === '^') {
+        flush();
+        return;
+      }
+      const code = line[0];
+      // Only keep the first value per code; split lines (S/E/$) repeat and are not imported
+      if (!(code in record)) {
+        record[code] = line.slice(1).trim();
+      }
+    });
+    flush();
+
+    return transactions;
+  }
+}
@@ -0,0 +1,30 @@
+// Maps parsed file rows to Actual transaction data for import-transactions tool
+import { createHash } from 'node:crypto';
+import type { TransactionData } from '../../types.js';
+import type { ParsedTransaction } from './types.js';
+
+export class ImportTransactionMapper {
+  map(rows: ParsedTransaction[]): TransactionData[] {
+    const occurrences = new Map<string, number>();
+
+    return rows.map((row) => {
+      const key = `${row.date}|${row.amount}|${row.payee ?? ''}`;
+      const occurrence = occurrences.get(key) ?? 0;
+      occurrences.set(key, occurrence + 1);
+
+      return {
+        date: row.date,
+        amount: row.amount,
+        payee_name: row.payee,
+        imported_payee: row.payee,
+        notes: row.notes,
+        // # Reason: Files without bank IDs still need a stable imported_id so re-importing the same file does not duplicate.
+        imported_id: row.importedId ?? this.fingerprint(key, occurrence),
+      };
+    });
+  }
+
+  private fingerprint(key: string, occurrence: number): string {
+    return 'mcp-' + createHash('sha1').update(`${key}|${occurrence}`).digest('hex').slice(0, 16);
+  }
+}
@@ -0,0 +1,17 @@
+// Types/interfaces for import-transactions tool
+
+export interface ParsedTransaction {
+  date: string;
+  amount: number;
+  payee?: string;
+  notes?: string;
+  importedId?: string;
+}
+
+export interface ImportSummary {
+  total: number;
+  added: number;
+  updated: number;
+  skipped: number;
+  errors: string[];
+}
@@ -3,11 +3,35 @@
 // ----------------------------
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
-import { initActualApi, shutdownActualApi } from '../actual-api.js';
+import { CallToolRequestSchema, ListToolsRequestSchema, type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  getSessionStatus,
+  onDefaultBudgetChanged,
+  syncActualApi,
+  trackAccountChanges,
+  withBudget,
+} from '../actual-api.js';
+import { type AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { auditLog, compactAuditValue, type AuditEntity, type AuditEntry } from '../core/audit/audit-log.js';
+import { fetchEntitySnapshot } from '../core/audit/entity-snapshot.js';
+import { hasScope, resolvePrincipalScopes, type ToolScope, type WriteScope } from '../auth/scopes.js';
 import { error, errorFromCatch } from '../utils/response.js';
+import type { ToolInput } from '../types.js';
+import { accountsTouchedBy, auditEntityFor } from './audit-targets.js';
 
+import * as closeAccount from './accounts/close-account/index.js';
+import * as createAccount from './accounts/create-account/index.js';
+import * as deleteAccount from './accounts/delete-account/index.js';
+import * as reopenAccount from './accounts/reopen-account/index.js';
+import * as reconcileAccount from './reconcile-account/index.js';
+import * as updateAccount from './accounts/update-account/index.js';
 import * as balanceHistory from './balance-history/index.js';
+import * as budgetVariance from './budget-variance/index.js';
+import * as getBudgetMonth from './budget/get-budget-month/index.js';
+import * as listBudgets from './budget/list-budgets/index.js';
+import * as setBudgetAmount from './budget/set-budget-amount/index.js';
+import * as setBudgetCarryover from './budget/set-budget-carryover/index.js';
+import * as switchBudget from './budget/switch-budget/index.js';
 import * as createCategoryGroup from './categories/create-category-group/index.js';
 import * as createCategory from './categories/create-category/index.js';
 import * as deleteCategoryGroup from './categories/delete-category-group/index.js';
@@ -15,70 +39,204 @@ import * as deleteCategory from './categories/delete-category/index.js';
 import * as getGroupedCategories from './categories/get-grouped-categories/index.js';
 import * as updateCategoryGroup from './categories/update-category-group/index.js';
 import * as updateCategory from './categories/update-category/index.js';
+import * as exportTransactions from './export-transactions/index.js';
 import * as getAccounts from './get-accounts/index.js';
+import * as getAuditLog from './get-audit-log/index.js';
 import * as getTransactions from './get-transactions/index.js';
+import * as importTransactions from './import-transactions/index.js';
 import * as monthlySummary from './monthly-summary/index.js';
+import * as netWorth from './net-worth/index.js';
 import * as createPayee from './payees/create-payee/index.js';
 import * as deletePayee from './payees/delete-payee/index.js';
 import * as getPayees from './payees/get-payees/index.js';
+import * as mergePayees from './payees/merge-payees/index.js';
 import * as updatePayee from './payees/update-payee/index.js';
+import * as applyRules from './rules/apply-rules/index.js';
 import * as createRule from './rules/create-rule/index.js';
 import * as deleteRule from './rules/delete-rule/index.js';
 import * as getRules from './rules/get-rules/index.js';
+import * as previewRule from './rules/preview-rule/index.js';
 import * as updateRule from './rules/update-rule/index.js';
+import * as createSchedule from './schedules/create-schedule/index.js';
+import * as deleteSchedule from './schedules/delete-schedule/index.js';
+import * as getSchedules from './schedules/get-schedules/index.js';
+import * as updateSchedule from './schedules/update-schedule/index.js';
+import * as searchTransactions from './search-transactions/index.js';
 import * as spendingByCategory from './spending-by-category/index.js';
+import * as unusualTransactions from './unusual-transactions/index.js';
+import * as categoryTrends from './category-trends/index.js';
 import * as deleteTransaction from './delete-transaction/index.js';
+import * as upcomingBills from './upcoming-bills/index.js';
+import * as cashFlowForecast from './cash-flow-forecast/index.js';
+import * as detectRecurring from './detect-recurring/index.js';
 import * as updateTransaction from './update-transaction/index.js';
 import * as createTransaction from './create-transaction/index.js';
+import * as createTransfer from './create-transfer/index.js';
+import * as convertToTransfer from './convert-to-transfer/index.js';
+import * as bulkUpdateTransactions from './bulk-update-transactions/index.js';
 
 const readTools = [
+  listBudgets,
+  switchBudget,
   getTransactions,
+  searchTransactions,
+  exportTransactions,
   spendingByCategory,
+  categoryTrends,
+  unusualTransactions,
   monthlySummary,
   balanceHistory,
+  netWorth,
   getAccounts,
+  reconcileAccount,
   getGroupedCategories,
   getPayees,
   getRules,
+  previewRule,
+  getSchedules,
+  upcomingBills,
+  cashFlowForecast,
+  detectRecurring,
+  getBudgetMonth,
+  budgetVariance,
+  getAuditLog,
 ];
 
-const writeTools = [
-  createCategory,
-  updateCategory,
-  deleteCategory,
-  createCategoryGroup,
-  updateCategoryGroup,
-  deleteCategoryGroup,
-  createPayee,
-  updatePayee,
-  deletePayee,
-  createRule,
-  updateRule,
-  deleteRule,
-  updateTransaction,
-  deleteTransaction,
-  createTransaction,
-];
+// Write tools grouped by the scope a caller needs to use them
+const writeToolsByScope = {
+  'accounts:write': [createAccount, updateAccount, closeAccount, reopenAccount, deleteAccount],
+  'categories:write': [
+    createCategory,
+    updateCategory,
+    deleteCategory,
+    createCategoryGroup,
+    updateCategoryGroup,
+    deleteCategoryGroup,
+  ],
+  'payees:write': [createPayee, updatePayee, deletePayee, mergePayees],
+  'rules:write': [createRule, updateRule, deleteRule, applyRules],
+  'schedules:write': [createSchedule, updateSchedule, deleteSchedule],
+  'transactions:write': [
+    updateTransaction,
+    deleteTransaction,
+    createTransaction,
+    importTransactions,
+    createTransfer,
+    convertToTransfer,
+    bulkUpdateTransactions,
+  ],
+  'budget:write': [setBudgetAmount, setBudgetCarryover],
+} satisfies Record<WriteScope, unknown[]>;
+
+const writeTools = Object.values(writeToolsByScope).flat();
+
+// Every tool accepts an optional budgetId to run against a budget other than the default one
+const budgetIdProperty = {
+  type: 'string',
+  description: 'Optional. Sync ID, local ID or name of the budget to use for this call. Defaults to the current budget',
+};
+
+const withBudgetId = (inputSchema: ToolInput): ToolInput => ({
+  ...inputSchema,
+  properties: { budgetId: budgetIdProperty, ...inputSchema.properties },
+});
+
+type RegisteredTool = (typeof readTools)[number] | (typeof writeTools)[number];
+
+// Read tools can still modify the budget for some arguments (e.g. detect-recurring creating schedules)
+const isWriteCall = (tool: RegisteredTool, args: unknown): boolean =>
+  writeTools.some((t) => t.schema.name === tool.schema.name) ||
+  ('isWriteCall' in tool && (tool.isWriteCall as (args: unknown) => boolean)(args));
+
+/**
+ * Scope needed for a call: the write tool's group, the tool's writeScope for writing calls of read tools,
+ * a scope the tool declares itself, or budget:read
+ */
+const requiredScope = (tool: RegisteredTool, args: unknown): ToolScope => {
+  const writeScope = (Object.keys(writeToolsByScope) as WriteScope[]).find((scope) =>
+    writeToolsByScope[scope].some((t) => t.schema.name === tool.schema.name)
+  );
+  if (writeScope) {
+    return writeScope;
+  }
+  if ('writeScope' in tool && isWriteCall(tool, args)) {
+    return tool.writeScope;
+  }
+  return 'scope' in tool ? tool.scope : 'budget:read';
+};
+
+// Longest result text or string argument kept in an audit entry
+const AUDIT_RESULT_MAX_LENGTH = 2000;
+
+const snapshot = (entity: AuditEntity | null): Promise<unknown> =>
+  entity ? fetchEntitySnapshot(entity).catch(() => null) : Promise.resolve(null);
+
+/**
+ * Run a write call and record it in the audit log with before/after snapshots of the entity it targets.
+ * A failing audit write is logged but never fails the call itself.
+ */
+const runAudited = async (
+  tool: RegisteredTool,
+  args: Record<string, unknown>,
+  authInfo: AuthInfo | undefined,
+  run: () => Promise<CallToolResult>
+): Promise<{ result: CallToolResult; entry: AuditEntry }> => {
+  const name = tool.schema.name;
+  const { budgetId: _budgetId, ...rawArgs } = args;
+  // Tools validated with Zod log their parsed arguments (defaults applied); the others log what was sent
+  const parsed = 'argsSchema' in tool ? tool.argsSchema.safeParse(rawArgs) : null;
+  const toolArgs = (parsed?.success ? parsed.data : rawArgs) as Record<string, unknown>;
+  const entity = auditEntityFor(name, toolArgs);
+  const before = await snapshot(entity);
+  const result = await run();
+  const after = await snapshot(entity);
+
+  const budget = getSessionStatus().budget;
+  const text = result.content.find((item) => item.type === 'text')?.text ?? '';
+  const entry: AuditEntry = {
+    timestamp: new Date().toISOString(),
+    clientId: authInfo?.clientId ?? null,
+    tool: name,
+    budgetId: budget?.cloudFileId ?? budget?.id ?? null,
+    arguments: compactAuditValue(toolArgs, AUDIT_RESULT_MAX_LENGTH) as Record<string, unknown>,
+    entity,
+    before,
+    after,
+    result: { isError: result.isError === true, text: text.slice(0, AUDIT_RESULT_MAX_LENGTH) },
+  };
+  await auditLog.append(entry).catch((err) => console.error(`Audit log write for ${name} failed:`, err));
+  return { result, entry };
+};
 
 export const setupTools = (server: Server, enableWrite: boolean): void => {
   // Selecting available tools based on permissions
   const allTools = enableWrite ? [...readTools, ...writeTools] : readTools;
 
+  // Tool results depend on the default budget, so clients should refresh what they know about the tools
+  onDefaultBudgetChanged(() => {
+    server.sendToolListChanged().catch(() => undefined);
+  });
+
   /**
    * Handler for listing available tools
    */
-  server.setRequestHandler(ListToolsRequestSchema, () => {
+  server.setRequestHandler(ListToolsRequestSchema, (_request, extra) => {
+    const scopes = resolvePrincipalScopes(extra.authInfo);
     return {
-      tools: allTools.map((tool) => tool.schema),
+      tools: allTools
+        .filter((tool) => hasScope(scopes, requiredScope(tool, {})))
+        .map((tool) => ({
+          ...tool.schema,
+          inputSchema: withBudgetId(tool.schema.inputSchema as ToolInput),
+        })),
     };
   });
 
   /**
    * Handler for calling tools
    */
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     try {
-      await initActualApi();
       const { name, arguments: args } = request.params;
 
       const tool = allTools.find((t) => t.schema.name === name);
@@ -86,13 +244,38 @@ export const setupTools = (server: Server, enableWrite: boolean): void => {
         return error(`Unknown tool ${name}`);
       }
 
-      // @ts-expect-error: Argument type is handled by Zod schema validation
-      return tool.handler(args);
+      const scope = requiredScope(tool, args);
+      if (!hasScope(resolvePrincipalScopes(extra.authInfo), scope)) {
+        return error(`Insufficient scope: ${name} requires the ${scope} scope`);
+      }
+
+      const writeCall = isWriteCall(tool, args);
+      if (writeCall && !enableWrite) {
+        return error(`${name} with these arguments modifies the budget and requires write access (--enable-write)`);
+      }
+
+      const budgetId = typeof args?.budgetId === 'string' && args.budgetId !== '' ? args.budgetId : undefined;
+      return await withBudget(budgetId, async () => {
+        // @ts-expect-error: Argument type is handled by Zod schema validation
+        const call = (): Promise<CallToolResult> => tool.handler(args);
+        const result = writeCall
+          ? (
+              await trackAccountChanges(
+                () => runAudited(tool, args ?? {}, extra.authInfo, call),
+                ({ entry }) => accountsTouchedBy(entry)
+              )
+            ).result
+          : await call();
+
+        // Push changes to the server right away instead of waiting for the periodic sync
+        if (writeCall) {
+          await syncActualApi().catch((err) => console.error(`Sync after ${name} failed:`, err));
+        }
+        return result;
+      });
     } catch (err) {
       console.error(`Error executing tool ${request.params.name}:`, err);
       return errorFromCatch(err);
-    } finally {
-      await shutdownActualApi();
     }
   });
 };
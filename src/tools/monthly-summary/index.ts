@@ -9,12 +9,21 @@ import { MonthlySummaryReportDataBuilder } from './report-data-builder.js';
 import { MonthlySummaryReportGenerator } from './report-generator.js';
 import { successWithContent, errorFromCatch } from '../../utils/response.js';
 import { getDateRangeForMonths } from '../../utils.js';
-import { MonthlySummaryArgsSchema, type MonthlySummaryArgs, ToolInput } from '../../types.js';
+import {
+  MonthlySummaryArgsSchema,
+  MonthlySummaryOutputSchema,
+  type MonthlySummaryArgs,
+  ToolInput,
+  type ToolOutput,
+} from '../../types.js';
+import { fetchAmountFormat } from '../../core/data/fetch-amount-format.js';
+import { TransferClassifier } from '../../core/mapping/transfer-classifier.js';
 
 export const schema = {
   name: 'monthly-summary',
   description: 'Get monthly income, expenses, and savings',
   inputSchema: zodToJsonSchema(MonthlySummaryArgsSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(MonthlySummaryOutputSchema) as ToolOutput,
 };
 
 export async function handler(args: MonthlySummaryArgs): Promise<CallToolResult> {
@@ -33,7 +42,8 @@ export async function handler(args: MonthlySummaryArgs): Promise<CallToolResult>
     const sortedMonths = new MonthlySummaryTransactionAggregator().aggregate(
       transactions,
       incomeCategories,
-      investmentSavingsCategories
+      investmentSavingsCategories,
+      new TransferClassifier(accounts)
     );
     const averages = new MonthlySummaryCalculator().calculateAverages(sortedMonths);
     const reportData = new MonthlySummaryReportDataBuilder().build(
@@ -44,9 +54,10 @@ export async function handler(args: MonthlySummaryArgs): Promise<CallToolResult>
       sortedMonths,
       averages
     );
-    const markdown = new MonthlySummaryReportGenerator().generate(reportData);
+    const amountFormat = await fetchAmountFormat();
+    const markdown = new MonthlySummaryReportGenerator(amountFormat).generate(reportData);
 
-    return successWithContent({ type: 'text', text: markdown });
+    return successWithContent({ type: 'text', text: markdown }, MonthlySummaryOutputSchema.parse(reportData));
   } catch (err) {
     // Use the standardized error response
     // errorFromCatch is imported from ../../utils/response.js
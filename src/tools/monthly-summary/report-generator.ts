@@ -1,8 +1,10 @@
 import { MonthlySummaryReportData } from './types.js';
-import { formatAmount } from '../../utils.js';
+import { formatAmount, resolveAmountFormat, type AmountFormat } from '../../utils.js';
 import type { MonthData } from '../../types.js';
 
 export class MonthlySummaryReportGenerator {
+  constructor(private readonly amountFormat: AmountFormat = resolveAmountFormat()) {}
+
   generate(data: MonthlySummaryReportData): string {
     const {
       start,
@@ -35,15 +37,15 @@ export class MonthlySummaryReportGenerator {
 
     sortedMonths.forEach((month: MonthData) => {
       const monthName: string = new Date(month.year, month.month - 1, 1).toLocaleString('default', { month: 'long' });
-      const income: string = formatAmount(month.income);
-      const expenses: string = formatAmount(month.expenses);
-      const investments: string = formatAmount(month.investments);
+      const income: string = formatAmount(month.income, this.amountFormat);
+      const expenses: string = formatAmount(month.expenses, this.amountFormat);
+      const investments: string = formatAmount(month.investments, this.amountFormat);
 
       const traditionalSavings: number = month.income - month.expenses - month.investments;
       const totalSavings: number = traditionalSavings + month.investments;
 
-      const savingsFormatted: string = formatAmount(traditionalSavings);
-      const totalSavingsFormatted: string = formatAmount(totalSavings);
+      const savingsFormatted: string = formatAmount(traditionalSavings, this.amountFormat);
+      const totalSavingsFormatted: string = formatAmount(totalSavings, this.amountFormat);
 
       const savingsRate: string = month.income > 0 ? ((totalSavings / month.income) * 100).toFixed(1) + '%' : 'N/A';
 
@@ -52,11 +54,11 @@ export class MonthlySummaryReportGenerator {
 
     // Add averages
     markdown += `\n## Averages\n\n`;
-    markdown += `Average Monthly Income: ${formatAmount(avgIncome)}\n`;
-    markdown += `Average Monthly Regular Expenses: ${formatAmount(avgExpenses)}\n`;
-    markdown += `Average Monthly Investments: ${formatAmount(avgInvestments)}\n`;
-    markdown += `Average Monthly Traditional Savings: ${formatAmount(avgTraditionalSavings)}\n`;
-    markdown += `Average Monthly Total Savings: ${formatAmount(avgTotalSavings)}\n`;
+    markdown += `Average Monthly Income: ${formatAmount(avgIncome, this.amountFormat)}\n`;
+    markdown += `Average Monthly Regular Expenses: ${formatAmount(avgExpenses, this.amountFormat)}\n`;
+    markdown += `Average Monthly Investments: ${formatAmount(avgInvestments, this.amountFormat)}\n`;
+    markdown += `Average Monthly Traditional Savings: ${formatAmount(avgTraditionalSavings, this.amountFormat)}\n`;
+    markdown += `Average Monthly Total Savings: ${formatAmount(avgTotalSavings, this.amountFormat)}\n`;
     markdown += `Average Traditional Savings Rate: ${avgTraditionalSavingsRate.toFixed(1)}%\n`;
     markdown += `Average Total Savings Rate: ${avgTotalSavingsRate.toFixed(1)}%\n`;
 
@@ -1,17 +1,19 @@
 import { Transaction, MonthData } from '../../types.js';
+import { TransferClassifier } from '../../core/mapping/transfer-classifier.js';
 
 export class MonthlySummaryTransactionAggregator {
   aggregate(
     transactions: Transaction[],
     incomeCategories: Set<string>,
-    investmentSavingsCategories: Set<string>
+    investmentSavingsCategories: Set<string>,
+    transfers: TransferClassifier = new TransferClassifier([])
   ): MonthData[] {
     const monthlyData: Record<string, MonthData> = {};
 
     transactions.forEach((transaction) => {
-      if (transaction.transfer_id && !transaction.category) {
-        // # Reason: Transfers move funds between internal accounts and should not affect income, expenses, or counts.
-        // If the transfer moves between on-budget and off-budget accounts, we may handle it differently later.
+      if (transfers.isOnBudgetTransfer(transaction)) {
+        // # Reason: Transfers between on-budget accounts move funds inside the budget and should not affect income,
+        // expenses, or counts. Transfers to off-budget accounts keep their category and count like other spending.
         return;
       }
 
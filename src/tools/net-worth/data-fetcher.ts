@@ -0,0 +1,16 @@
+// Fetches every account with its current balance and transactions for net-worth tool
+import { fetchAllAccounts } from '../../core/data/fetch-accounts.js';
+import { fetchAllTransactions } from '../../core/data/fetch-transactions.js';
+import { getAccountBalance } from '../../actual-api.js';
+import type { Account, Transaction } from '../../core/types/domain.js';
+
+export class NetWorthDataFetcher {
+  async fetchAll(start: string, end: string): Promise<{ accounts: Account[]; transactions: Transaction[] }> {
+    const accounts = await fetchAllAccounts();
+    for (const account of accounts) {
+      account.balance = await getAccountBalance(account.id);
+    }
+    const transactions = await fetchAllTransactions(accounts, start, end);
+    return { accounts, transactions };
+  }
+}
@@ -0,0 +1,52 @@
+// Orchestrator for net-worth tool
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { NetWorthDataFetcher } from './data-fetcher.js';
+import { NetWorthCalculator } from './net-worth-calculator.js';
+import { NetWorthReportGenerator } from './report-generator.js';
+import { success, errorFromCatch } from '../../utils/response.js';
+import { formatDate } from '../../utils.js';
+import {
+  NetWorthArgsSchema,
+  NetWorthOutputSchema,
+  type NetWorthArgs,
+  type ToolInput,
+  type ToolOutput,
+} from '../../types.js';
+import { fetchAmountFormat } from '../../core/data/fetch-amount-format.js';
+
+export const schema = {
+  name: 'net-worth',
+  description:
+    'Net worth over time: month-end balances for every account (on- and off-budget, including closed accounts), split into assets and liabilities, with monthly totals and month-over-month change.',
+  inputSchema: zodToJsonSchema(NetWorthArgsSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(NetWorthOutputSchema) as ToolOutput,
+};
+
+export async function handler(args: NetWorthArgs): Promise<CallToolResult> {
+  try {
+    const { months } = NetWorthArgsSchema.parse(args ?? {});
+
+    const endDate = new Date();
+    const start = formatDate(new Date(Date.UTC(endDate.getFullYear(), endDate.getMonth() - months + 1, 1)));
+    const end = formatDate(endDate);
+
+    const { accounts, transactions } = await new NetWorthDataFetcher().fetchAll(start, end);
+
+    const calculator = new NetWorthCalculator();
+    const accountNetWorth = calculator.calculateAccounts(accounts, transactions, months, endDate);
+    const monthlyNetWorth = calculator.summarizeMonths(accountNetWorth, months, endDate);
+
+    const amountFormat = await fetchAmountFormat();
+    const markdown = new NetWorthReportGenerator(amountFormat).generate(monthlyNetWorth, accountNetWorth, {
+      start,
+      end,
+    });
+    return success(
+      markdown,
+      NetWorthOutputSchema.parse({ start, end, months: monthlyNetWorth, accounts: accountNetWorth })
+    );
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
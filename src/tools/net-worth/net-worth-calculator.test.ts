@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { NetWorthCalculator } from './net-worth-calculator.js';
+import type { Account, Transaction } from '../../core/types/domain.js';
+
+describe('NetWorthCalculator', () => {
+  const calculator = new NetWorthCalculator();
+  const endDate = new Date(2024, 2, 15);
+
+  const accounts: Account[] = [
+    { id: 'checking', name: 'Checking', balance: 300000 },
+    { id: 'card', name: 'Visa', balance: -50000 },
+    { id: 'brokerage', name: 'Brokerage', offbudget: true, balance: 1000000 },
+    { id: 'old', name: 'Old Savings', closed: true, balance: 0 },
+    { id: 'ancient', name: 'Ancient', closed: true, balance: 0 },
+  ];
+
+  const transactions: Transaction[] = [
+    { id: 't1', account: 'checking', date: '2024-03-05', amount: 100000 },
+    { id: 't2', account: 'checking', date: '2024-02-10', amount: -20000 },
+    { id: 't3', account: 'card', date: '2024-03-02', amount: -10000 },
+    { id: 't4', account: 'brokerage', date: '2024-02-28', amount: 50000 },
+    { id: 't5', account: 'old', date: '2024-02-01', amount: -80000 },
+  ];
+
+  it('should roll balances back per account and stop closed accounts at their last activity', () => {
+    const result = calculator.calculateAccounts(accounts, transactions, 3, endDate);
+
+    expect(result.map((a) => a.id)).toEqual(['checking', 'card', 'brokerage', 'old']);
+    expect(result[0].balances).toEqual({ '2024-03': 300000, '2024-02': 200000, '2024-01': 220000 });
+    expect(result[3].balances).toEqual({ '2024-02': 0, '2024-01': 80000 });
+  });
+
+  it('should classify negative-balance accounts as liabilities', () => {
+    const result = calculator.calculateAccounts(accounts, transactions, 3, endDate);
+
+    expect(result.find((a) => a.id === 'card')?.classification).toBe('liability');
+    expect(result.find((a) => a.id === 'old')?.classification).toBe('asset');
+    expect(
+      calculator.calculateAccounts([{ id: 'loan', name: 'Car', type: 'loan', balance: 0 }], [], 1, endDate)[0]
+        .classification
+    ).toBe('liability');
+  });
+
+  it('should total assets, liabilities and month-over-month change', () => {
+    const months = calculator.summarizeMonths(
+      calculator.calculateAccounts(accounts, transactions, 3, endDate),
+      3,
+      endDate
+    );
+
+    expect(months).toEqual([
+      { month: '2024-01', assets: 1250000, liabilities: -40000, netWorth: 1210000 },
+      { month: '2024-02', assets: 1200000, liabilities: -40000, netWorth: 1160000, change: -50000 },
+      { month: '2024-03', assets: 1300000, liabilities: -50000, netWorth: 1250000, change: 90000 },
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+// Calculates month-end balances per account and net worth totals for net-worth tool
+import { BalanceHistoryCalculator } from '../balance-history/balance-calculator.js';
+import { formatMonth } from '../../utils.js';
+import type { Account, Transaction } from '../../core/types/domain.js';
+import type { AccountClassification, AccountNetWorth, NetWorthMonth } from './types.js';
+
+const LIABILITY_TYPES = ['credit', 'debt', 'loan', 'mortgage', 'liability'];
+
+export class NetWorthCalculator {
+  private balanceCalculator = new BalanceHistoryCalculator();
+
+  calculateAccounts(
+    accounts: Account[],
+    transactions: Transaction[],
+    months: number,
+    endDate: Date
+  ): AccountNetWorth[] {
+    const transactionsByAccount = new Map<string, Transaction[]>();
+    transactions.forEach((t) => {
+      transactionsByAccount.set(t.account, [...(transactionsByAccount.get(t.account) ?? []), t]);
+    });
+
+    return accounts.flatMap((account) => {
+      const accountTransactions = transactionsByAccount.get(account.id) ?? [];
+      // Closed accounts only count up to their last activity, which stands in for the closing date
+      const lastActiveMonth = accountTransactions.reduce<string | undefined>((latest, t) => {
+        const month = t.date.slice(0, 7);
+        return !latest || month > latest ? month : latest;
+      }, undefined);
+      if (account.closed && !lastActiveMonth && !account.balance) {
+        return [];
+      }
+
+      const history = this.balanceCalculator.calculate(account, [account], accountTransactions, months, endDate);
+      const balances: Record<string, number> = {};
+      history.forEach(({ year, month, balance }) => {
+        const key = `${year}-${String(month).padStart(2, '0')}`;
+        if (!account.closed || !lastActiveMonth || key <= lastActiveMonth) {
+          balances[key] = balance;
+        }
+      });
+
+      return [
+        {
+          id: account.id,
+          name: account.name,
+          offbudget: !!account.offbudget,
+          closed: !!account.closed,
+          classification: this.classify(account, balances),
+          balances,
+        },
+      ];
+    });
+  }
+
+  summarizeMonths(accounts: AccountNetWorth[], months: number, endDate: Date): NetWorthMonth[] {
+    const monthKeys: string[] = [];
+    for (let i = months - 1; i >= 0; i--) {
+      monthKeys.push(formatMonth(new Date(endDate.getFullYear(), endDate.getMonth() - i, 1)));
+    }
+
+    let previous: number | undefined;
+    return monthKeys.map((month) => {
+      let assets = 0;
+      let liabilities = 0;
+      accounts.forEach((account) => {
+        const balance = account.balances[month] ?? 0;
+        if (account.classification === 'liability') {
+          liabilities += balance;
+        } else {
+          assets += balance;
+        }
+      });
+      const netWorth = assets + liabilities;
+      const summary: NetWorthMonth = { month, assets, liabilities, netWorth };
+      if (previous !== undefined) {
+        summary.change = netWorth - previous;
+      }
+      previous = netWorth;
+      return summary;
+    });
+  }
+
+  /**
+   * Accounts are liabilities when their type says so (credit card, loan, mortgage...).
+   * Without a type, an account whose most recent non-zero balance is negative counts as a liability.
+   */
+  private classify(account: Account, balances: Record<string, number>): AccountClassification {
+    if (account.type) {
+      const type = account.type.toLowerCase();
+      return LIABILITY_TYPES.some((liability) => type.includes(liability)) ? 'liability' : 'asset';
+    }
+    const latest = Object.keys(balances)
+      .sort()
+      .reverse()
+      .map((month) => balances[month])
+      .find((balance) => balance !== 0);
+    return latest !== undefined && latest < 0 ? 'liability' : 'asset';
+  }
+}
@@ -0,0 +1,44 @@
+// Generates the markdown report for net-worth tool
+import { formatAmount, resolveAmountFormat, type AmountFormat } from '../../utils.js';
+import type { AccountNetWorth, NetWorthMonth } from './types.js';
+
+export class NetWorthReportGenerator {
+  constructor(private readonly amountFormat: AmountFormat = resolveAmountFormat()) {}
+
+  generate(months: NetWorthMonth[], accounts: AccountNetWorth[], period: { start: string; end: string }): string {
+    let markdown = `# Net Worth\n\n`;
+    markdown += `Period: ${period.start} to ${period.end}\n\n`;
+
+    const latest = months[months.length - 1];
+    if (latest) {
+      markdown += `Current net worth: ${formatAmount(latest.netWorth, this.amountFormat)} (assets ${formatAmount(latest.assets, this.amountFormat)}, liabilities ${formatAmount(latest.liabilities, this.amountFormat)})\n\n`;
+    }
+
+    markdown += `## Monthly Net Worth\n\n`;
+    markdown += `| Month | Assets | Liabilities | Net Worth | Change |\n`;
+    markdown += `| ----- | ------ | ----------- | --------- | ------ |\n`;
+    months.forEach((month) => {
+      const change =
+        month.change === undefined
+          ? '-'
+          : `${month.change > 0 ? '↑' : month.change < 0 ? '↓' : ''} ${formatAmount(month.change, this.amountFormat)}`.trim();
+      markdown += `| ${month.month} | ${formatAmount(month.assets, this.amountFormat)} | ${formatAmount(month.liabilities, this.amountFormat)} | ${formatAmount(month.netWorth, this.amountFormat)} | ${change} |\n`;
+    });
+
+    const latestMonth = latest?.month;
+    (['asset', 'liability'] as const).forEach((classification) => {
+      const group = accounts.filter((account) => account.classification === classification);
+      if (group.length === 0) return;
+
+      markdown += `\n## ${classification === 'asset' ? 'Assets' : 'Liabilities'}\n\n`;
+      markdown += `| Account | Budget | Status | Balance |\n`;
+      markdown += `| ------- | ------ | ------ | ------- |\n`;
+      group.forEach((account) => {
+        const balance = latestMonth !== undefined ? account.balances[latestMonth] : undefined;
+        markdown += `| ${account.name} | ${account.offbudget ? 'Off budget' : 'On budget'} | ${account.closed ? 'Closed' : 'Open'} | ${balance !== undefined ? formatAmount(balance, this.amountFormat) : '-'} |\n`;
+      });
+    });
+
+    return markdown;
+  }
+}
@@ -0,0 +1,21 @@
+// Types/interfaces for net-worth tool
+
+export type AccountClassification = 'asset' | 'liability';
+
+export interface AccountNetWorth {
+  id: string;
+  name: string;
+  offbudget: boolean;
+  closed: boolean;
+  classification: AccountClassification;
+  // Month-end balance keyed by YYYY-MM; closed accounts have no entries after their last activity
+  balances: Record<string, number>;
+}
+
+export interface NetWorthMonth {
+  month: string;
+  assets: number;
+  liabilities: number;
+  netWorth: number;
+  change?: number;
+}
@@ -4,7 +4,8 @@
 
 import { successWithJson, errorFromCatch } from '../../../utils/response.js';
 import { fetchAllPayees } from '../../../core/data/fetch-payees.js';
-import type { Payee } from '../../../types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { GetPayeesOutputSchema, type Payee, type ToolOutput } from '../../../types.js';
 
 export const schema = {
   name: 'get-payees',
@@ -15,6 +16,7 @@ export const schema = {
     properties: {},
     additionalProperties: false,
   },
+  outputSchema: zodToJsonSchema(GetPayeesOutputSchema) as ToolOutput,
 };
 
 export async function handler(): Promise<ReturnType<typeof successWithJson> | ReturnType<typeof errorFromCatch>> {
@@ -27,7 +29,16 @@ export async function handler(): Promise<ReturnType<typeof successWithJson> | Re
       transfer_acct: payee.transfer_acct || '(not a transfer payee)',
     }));
 
-    return successWithJson(structured);
+    return successWithJson(
+      structured,
+      GetPayeesOutputSchema.parse({
+        payees: categories.map((payee) => ({
+          id: payee.id,
+          name: payee.name,
+          transfer_acct: payee.transfer_acct || null,
+        })),
+      })
+    );
   } catch (err) {
     return errorFromCatch(err);
   }
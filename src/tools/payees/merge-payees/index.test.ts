@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handler } from './index.js';
+import * as actualApi from '../../../actual-api.js';
+import { fetchAllPayees } from '../../../core/data/fetch-payees.js';
+import { fetchAllRules } from '../../../core/data/fetch-rules.js';
+import { RuleEntity } from '@actual-app/api/@types/loot-core/src/types/models/rule.js';
+
+vi.mock('../../../actual-api.js', () => ({
+  getTransactionIdsForPayees: vi.fn(),
+  mergePayees: vi.fn(),
+  updateRule: vi.fn(),
+}));
+
+vi.mock('../../../core/data/fetch-payees.js', () => ({ fetchAllPayees: vi.fn() }));
+vi.mock('../../../core/data/fetch-rules.js', () => ({ fetchAllRules: vi.fn() }));
+
+const rules = [
+  {
+    id: 'r1',
+    stage: null,
+    conditionsOp: 'and',
+    conditions: [{ field: 'payee', op: 'is', value: 'dup' }],
+    actions: [{ field: 'category', op: 'set', value: 'cat1' }],
+  },
+  {
+    id: 'r2',
+    stage: null,
+    conditionsOp: 'and',
+    conditions: [{ field: 'notes', op: 'contains', value: 'coffee' }],
+    actions: [{ field: 'payee', op: 'set', value: 'dup' }],
+  },
+] as unknown as RuleEntity[];
+
+const textOf = (result: Awaited<ReturnType<typeof handler>>): string => (result.content[0] as { text: string }).text;
+
+describe('merge-payees tool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fetchAllPayees).mockResolvedValue([
+      { id: 'target', name: 'Starbucks' },
+      { id: 'dup', name: 'STARBUCKS #123' },
+      { id: 'transfer', name: 'Savings', transfer_acct: 'savings' },
+    ]);
+    vi.mocked(fetchAllRules).mockResolvedValue(rules);
+    vi.mocked(actualApi.getTransactionIdsForPayees).mockResolvedValue(['t1', 't2']);
+  });
+
+  it('merges the payees before repointing the rules', async () => {
+    const result = await handler({ targetId: 'target', sourceIds: ['dup'] });
+
+    expect(result.isError).toBeUndefined();
+    expect(actualApi.mergePayees).toHaveBeenCalledWith('target', ['dup']);
+    expect(actualApi.updateRule).toHaveBeenCalledTimes(2);
+    const mergeOrder = vi.mocked(actualApi.mergePayees).mock.invocationCallOrder[0];
+    expect(Math.min(...vi.mocked(actualApi.updateRule).mock.invocationCallOrder)).toBeGreaterThan(mergeOrder);
+    expect(JSON.parse(textOf(result))).toMatchObject({
+      transactionsReassigned: 2,
+      rulesUpdated: ['r1', 'r2'],
+      rulesNotUpdated: [],
+    });
+  });
+
+  it('leaves the rules untouched when the merge fails', async () => {
+    vi.mocked(actualApi.mergePayees).mockRejectedValueOnce(new Error('merge failed'));
+
+    const result = await handler({ targetId: 'target', sourceIds: ['dup'] });
+
+    expect(result.isError).toBe(true);
+    expect(actualApi.updateRule).not.toHaveBeenCalled();
+  });
+
+  it('reports rules that could not be repointed after the merge', async () => {
+    vi.mocked(actualApi.updateRule).mockRejectedValueOnce(new Error('invalid rule'));
+
+    const result = await handler({ targetId: 'target', sourceIds: ['dup'] });
+
+    expect(JSON.parse(textOf(result))).toMatchObject({
+      rulesUpdated: ['r2'],
+      rulesNotUpdated: [{ id: 'r1', error: 'invalid rule' }],
+    });
+  });
+
+  it.each([
+    [{ targetId: 'target', sourceIds: ['missing'] }, 'Unknown payee ID(s): missing'],
+    [{ targetId: 'target', sourceIds: ['transfer'] }, 'Transfer payees cannot be merged: transfer'],
+    [{ targetId: 'target', sourceIds: ['target', 'dup'] }, 'targetId must not be one of the sourceIds'],
+  ])('rejects invalid merges without changing anything (%o)', async (args, message) => {
+    const result = await handler(args);
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain(message);
+    expect(actualApi.mergePayees).not.toHaveBeenCalled();
+    expect(actualApi.updateRule).not.toHaveBeenCalled();
+  });
+});
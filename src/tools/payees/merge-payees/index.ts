@@ -0,0 +1,70 @@
+// ----------------------------
+// MERGE PAYEES TOOL
+// ----------------------------
+
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { PayeeRuleRewriter } from './rule-rewriter.js';
+import { successWithJson, errorFromCatch } from '../../../utils/response.js';
+import { getTransactionIdsForPayees, mergePayees, updateRule } from '../../../actual-api.js';
+import { fetchAllPayees } from '../../../core/data/fetch-payees.js';
+import { fetchAllRules } from '../../../core/data/fetch-rules.js';
+import { MergePayeesArgsSchema, type MergePayeesArgs, type ToolInput, type UpdateRuleArgs } from '../../../types.js';
+
+export const schema = {
+  name: 'merge-payees',
+  description:
+    'Merge duplicate payees into a target payee. Transactions referencing the source payees are reassigned to the target and the source payees are deleted, then rule conditions/actions referencing them are repointed to the target (rules that fail to update are listed in the result). Transfer payees cannot be merged.',
+  inputSchema: zodToJsonSchema(MergePayeesArgsSchema) as ToolInput,
+};
+
+export const argsSchema = MergePayeesArgsSchema;
+
+export async function handler(args: MergePayeesArgs): Promise<CallToolResult> {
+  try {
+    const { targetId, sourceIds: rawSourceIds } = MergePayeesArgsSchema.parse(args);
+    const sourceIds = Array.from(new Set(rawSourceIds));
+    if (sourceIds.includes(targetId)) {
+      throw new Error('targetId must not be one of the sourceIds');
+    }
+
+    const payees = await fetchAllPayees();
+    const payeesById = new Map(payees.map((p) => [p.id, p]));
+    const unknownIds = [targetId, ...sourceIds].filter((id) => !payeesById.has(id));
+    if (unknownIds.length > 0) {
+      throw new Error(`Unknown payee ID(s): ${unknownIds.join(', ')}`);
+    }
+    // # Reason: Actual silently skips transfer payees when merging, which would leave the request half-done.
+    const transferPayees = [targetId, ...sourceIds].filter((id) => payeesById.get(id)?.transfer_acct);
+    if (transferPayees.length > 0) {
+      throw new Error(`Transfer payees cannot be merged: ${transferPayees.join(', ')}`);
+    }
+
+    const transactionIds = await getTransactionIdsForPayees(sourceIds);
+    const updatedRules = new PayeeRuleRewriter().rewrite(await fetchAllRules(), targetId, sourceIds);
+
+    // # Reason: Merging first means a failed merge leaves rules untouched; rule updates that fail afterwards are reported.
+    await mergePayees(targetId, sourceIds);
+    const rulesNotUpdated: Array<{ id: string; error: string }> = [];
+    for (const rule of updatedRules) {
+      try {
+        // RuleEntity values are runtime-compatible with the Zod-validated UpdateRuleArgs shape.
+        await updateRule(rule as unknown as UpdateRuleArgs);
+      } catch (err) {
+        rulesNotUpdated.push({ id: rule.id, error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+
+    return successWithJson({
+      target: { id: targetId, name: payeesById.get(targetId)?.name },
+      mergedPayees: sourceIds.map((id) => ({ id, name: payeesById.get(id)?.name })),
+      transactionsReassigned: transactionIds.length,
+      rulesUpdated: updatedRules
+        .filter((rule) => !rulesNotUpdated.some((r) => r.id === rule.id))
+        .map((rule) => rule.id),
+      rulesNotUpdated,
+    });
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { PayeeRuleRewriter } from './rule-rewriter.js';
+import { RuleEntity } from '@actual-app/api/@types/loot-core/src/types/models/rule.js';
+
+describe('PayeeRuleRewriter', () => {
+  const rewriter = new PayeeRuleRewriter();
+
+  const rules = [
+    {
+      id: 'r1',
+      stage: null,
+      conditionsOp: 'and',
+      conditions: [{ field: 'payee', op: 'is', value: 'dup1' }],
+      actions: [{ field: 'category', op: 'set', value: 'cat1' }],
+    },
+    {
+      id: 'r2',
+      stage: 'pre',
+      conditionsOp: 'or',
+      conditions: [{ field: 'payee', op: 'oneOf', value: ['target', 'dup1', 'dup2', 'other'] }],
+      actions: [{ field: 'notes', op: 'set', value: 'dup1' }],
+    },
+    {
+      id: 'r3',
+      stage: null,
+      conditionsOp: 'and',
+      conditions: [{ field: 'imported_payee', op: 'contains', value: 'AMZN' }],
+      actions: [{ field: 'payee', op: 'set', value: 'dup2' }],
+    },
+    {
+      id: 'r4',
+      stage: null,
+      conditionsOp: 'and',
+      conditions: [{ field: 'payee', op: 'is', value: 'other' }],
+      actions: [{ field: 'category', op: 'set', value: 'cat2' }],
+    },
+  ] as unknown as RuleEntity[];
+
+  it('should repoint payee conditions and actions and skip unaffected rules', () => {
+    const rewritten = rewriter.rewrite(rules, 'target', ['dup1', 'dup2']);
+
+    expect(rewritten.map((r) => r.id)).toEqual(['r1', 'r2', 'r3']);
+    expect(rewritten[0].conditions[0].value).toBe('target');
+    expect(rewritten[1].conditions[0].value).toEqual(['target', 'other']);
+    // Non-payee fields keep their values even if they match a source ID
+    expect(rewritten[1].actions[0].value).toBe('dup1');
+    expect(rewritten[2].actions[0].value).toBe('target');
+  });
+
+  it('should not mutate the input rules', () => {
+    rewriter.rewrite(rules, 'target', ['dup1']);
+
+    expect(rules[0].conditions[0].value).toBe('dup1');
+  });
+});
@@ -0,0 +1,48 @@
+// Rewrites rule conditions/actions that reference merged payees for merge-payees tool
+import { RuleEntity } from '@actual-app/api/@types/loot-core/src/types/models/rule.js';
+
+interface PayeeReference {
+  field?: string | null;
+  value?: unknown;
+}
+
+export class PayeeRuleRewriter {
+  /**
+   * Return copies of the rules that reference any source payee, with those references pointing at the target.
+   * Rules that do not reference a source payee are left out.
+   */
+  rewrite(rules: RuleEntity[], targetId: string, sourceIds: string[]): RuleEntity[] {
+    const sources = new Set(sourceIds);
+
+    const rewriteValue = (value: unknown): { value: unknown; changed: boolean } => {
+      if (typeof value === 'string' && sources.has(value)) {
+        return { value: targetId, changed: true };
+      }
+      if (Array.isArray(value) && value.some((v) => sources.has(v))) {
+        // # Reason: oneOf lists may already contain the target, so de-duplicate after replacing.
+        const replaced = value.map((v) => (sources.has(v) ? targetId : v));
+        return { value: Array.from(new Set(replaced)), changed: true };
+      }
+      return { value, changed: false };
+    };
+
+    const rewriteItems = <T extends PayeeReference>(items: T[]): { items: T[]; changed: boolean } => {
+      let changed = false;
+      const rewritten = items.map((item) => {
+        if (item.field !== 'payee') return item;
+        const result = rewriteValue(item.value);
+        changed = changed || result.changed;
+        return result.changed ? { ...item, value: result.value } : item;
+      });
+      return { items: rewritten, changed };
+    };
+
+    return rules.flatMap((rule) => {
+      const conditions = rewriteItems(rule.conditions);
+      const actions = rewriteItems(rule.actions);
+      return conditions.changed || actions.changed
+        ? [{ ...rule, conditions: conditions.items, actions: actions.items }]
+        : [];
+    });
+  }
+}
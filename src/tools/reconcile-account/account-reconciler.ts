@@ -0,0 +1,59 @@
+// Locks reconciled transactions and books the adjustment for reconcile-account tool, undoing the locks on failure
+import { createReconciliationAdjustment, setReconciliationState } from '../../actual-api.js';
+import type { Transaction } from '../../core/types/domain.js';
+
+export interface ReconciliationAdjustment {
+  date: string;
+  amount: number;
+  notes?: string;
+}
+
+export class AccountReconciler {
+  /**
+   * Mark the transactions cleared and reconciled, then create the adjustment if one is given.
+   * The API has no transactions, so when any step fails the flags already changed are put back
+   * before the error is rethrown, leaving the account as it was.
+   */
+  async reconcile(
+    accountId: string,
+    transactions: Transaction[],
+    adjustment?: ReconciliationAdjustment
+  ): Promise<{ transactionIds: string[]; adjustmentId: string | null }> {
+    const foreign = transactions.filter((t) => t.account !== accountId);
+    if (foreign.length > 0) {
+      throw new Error(`Transaction(s) not in this account: ${foreign.map((t) => t.id).join(', ')}`);
+    }
+    if (adjustment && (!Number.isInteger(adjustment.amount) || adjustment.amount === 0)) {
+      throw new Error(`Invalid adjustment amount: ${adjustment.amount}`);
+    }
+
+    const locked: Transaction[] = [];
+    try {
+      for (const transaction of transactions) {
+        await setReconciliationState(transaction.id, { cleared: true, reconciled: true });
+        locked.push(transaction);
+      }
+      const adjustmentId = adjustment ? await createReconciliationAdjustment(accountId, adjustment) : null;
+      return { transactionIds: locked.map((t) => t.id), adjustmentId };
+    } catch (err) {
+      const stillLocked: string[] = [];
+      for (const transaction of locked) {
+        try {
+          await setReconciliationState(transaction.id, {
+            cleared: Boolean(transaction.cleared),
+            reconciled: Boolean(transaction.reconciled),
+          });
+        } catch {
+          stillLocked.push(transaction.id);
+        }
+      }
+      const message = err instanceof Error ? err.message : String(err);
+      if (stillLocked.length > 0) {
+        throw new Error(
+          `Reconciliation failed (${message}) and these transactions could not be unlocked again: ${stillLocked.join(', ')}`
+        );
+      }
+      throw new Error(`Reconciliation failed, no changes were kept: ${message}`);
+    }
+  }
+}
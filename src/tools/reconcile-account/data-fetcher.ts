@@ -0,0 +1,18 @@
+// Fetches the account and its transactions up to the statement date for reconcile-account tool
+import { fetchAllAccounts } from '../../core/data/fetch-accounts.js';
+import { fetchTransactionsForAccount } from '../../core/data/fetch-transactions.js';
+import type { Account, Transaction } from '../../core/types/domain.js';
+
+// The cleared balance covers the account's whole history
+const HISTORY_START = '1970-01-01';
+
+export class ReconcileAccountDataFetcher {
+  async fetchAll(accountId: string, statementDate: string): Promise<{ account: Account; transactions: Transaction[] }> {
+    const account = (await fetchAllAccounts()).find((a) => a.id === accountId);
+    if (!account) {
+      throw new Error(`Unknown account ID: ${accountId}`);
+    }
+    const transactions = await fetchTransactionsForAccount(accountId, HISTORY_START, statementDate);
+    return { account, transactions };
+  }
+}
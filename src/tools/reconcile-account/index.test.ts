@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handler } from './index.js';
+import * as actualApi from '../../actual-api.js';
+import { fetchAllAccounts } from '../../core/data/fetch-accounts.js';
+import { fetchTransactionsForAccount } from '../../core/data/fetch-transactions.js';
+
+vi.mock('../../actual-api.js', () => ({
+  setReconciliationState: vi.fn(),
+  createReconciliationAdjustment: vi.fn(),
+}));
+
+vi.mock('../../core/data/fetch-accounts.js', () => ({ fetchAllAccounts: vi.fn() }));
+vi.mock('../../core/data/fetch-transactions.js', () => ({ fetchTransactionsForAccount: vi.fn() }));
+vi.mock('../../core/data/fetch-amount-format.js', () => ({ fetchAmountFormat: vi.fn() }));
+
+const textOf = (result: Awaited<ReturnType<typeof handler>>): string => (result.content[0] as { text: string }).text;
+
+describe('reconcile-account tool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fetchAllAccounts).mockResolvedValue([{ id: 'checking', name: 'Checking', offbudget: false }]);
+    vi.mocked(fetchTransactionsForAccount).mockResolvedValue([
+      { id: 'paycheck', account: 'checking', date: '2026-01-02', amount: 100000, cleared: true },
+      { id: 'rent', account: 'checking', date: '2026-01-03', amount: -50000 },
+    ]);
+    vi.mocked(actualApi.createReconciliationAdjustment).mockResolvedValue('adjustment');
+  });
+
+  it('locks the cleared transactions and books the adjustment in one call', async () => {
+    const result = await handler({
+      accountId: 'checking',
+      statementBalance: 49000,
+      statementDate: '2026-01-31',
+      markCleared: ['rent'],
+      confirm: true,
+      createAdjustment: true,
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(vi.mocked(actualApi.setReconciliationState).mock.calls).toEqual([
+      ['paycheck', { cleared: true, reconciled: true }],
+      ['rent', { cleared: true, reconciled: true }],
+    ]);
+    expect(actualApi.createReconciliationAdjustment).toHaveBeenCalledWith('checking', {
+      date: '2026-01-31',
+      amount: -1000,
+      notes: 'Reconciliation adjustment for statement ending 2026-01-31',
+    });
+    expect(result.structuredContent).toMatchObject({
+      reconciled: { transactionIds: ['paycheck', 'rent'], adjustmentId: 'adjustment' },
+    });
+  });
+
+  it('unlocks the transactions again when the adjustment cannot be created', async () => {
+    vi.mocked(actualApi.createReconciliationAdjustment).mockRejectedValue(new Error('insert failed'));
+
+    const result = await handler({
+      accountId: 'checking',
+      statementBalance: 49000,
+      statementDate: '2026-01-31',
+      markCleared: ['rent'],
+      confirm: true,
+      createAdjustment: true,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain('no changes were kept: insert failed');
+    expect(vi.mocked(actualApi.setReconciliationState).mock.calls.slice(2)).toEqual([
+      ['paycheck', { cleared: true, reconciled: false }],
+      ['rent', { cleared: false, reconciled: false }],
+    ]);
+  });
+
+  it('reports transactions that could not be unlocked', async () => {
+    vi.mocked(actualApi.createReconciliationAdjustment).mockRejectedValue(new Error('insert failed'));
+    vi.mocked(actualApi.setReconciliationState)
+      .mockResolvedValueOnce()
+      .mockResolvedValueOnce()
+      .mockRejectedValueOnce(new Error('offline'));
+
+    const result = await handler({
+      accountId: 'checking',
+      statementBalance: 49000,
+      statementDate: '2026-01-31',
+      markCleared: ['rent'],
+      confirm: true,
+      createAdjustment: true,
+    });
+
+    expect(textOf(result)).toContain('could not be unlocked again: paycheck');
+  });
+
+  it('changes nothing when the balances differ and no adjustment is requested', async () => {
+    const result = await handler({
+      accountId: 'checking',
+      statementBalance: 49000,
+      statementDate: '2026-01-31',
+      confirm: true,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain('createAdjustment');
+    expect(actualApi.setReconciliationState).not.toHaveBeenCalled();
+  });
+});
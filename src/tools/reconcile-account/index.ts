@@ -0,0 +1,96 @@
+// Orchestrator for reconcile-account tool
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ReconcileAccountDataFetcher } from './data-fetcher.js';
+import { ReconciliationCalculator } from './reconciliation-calculator.js';
+import { ReconcileAccountReportGenerator } from './report-generator.js';
+import { AccountReconciler } from './account-reconciler.js';
+import { success, errorFromCatch } from '../../utils/response.js';
+import { formatAmount } from '../../utils.js';
+import {
+  ReconcileAccountArgsSchema,
+  ReconcileAccountOutputSchema,
+  type ReconcileAccountArgs,
+  type ToolInput,
+  type ToolOutput,
+} from '../../types.js';
+import { fetchAmountFormat } from '../../core/data/fetch-amount-format.js';
+import type { WriteScope } from '../../auth/scopes.js';
+
+export const schema = {
+  name: 'reconcile-account',
+  description:
+    'Reconcile an account against a bank statement. Compares the statement ending balance with the cleared balance up to the statement date and lists uncleared transactions, including combinations that add up to the difference. With confirm, marks the cleared transactions as reconciled (locked) and can create an adjustment transaction for the remaining difference (requires write access).',
+  inputSchema: zodToJsonSchema(ReconcileAccountArgsSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(ReconcileAccountOutputSchema) as ToolOutput,
+};
+
+export const argsSchema = ReconcileAccountArgsSchema;
+
+/**
+ * Confirming locks transactions and may create one, so those calls count as writes
+ */
+export const isWriteCall = (args: ReconcileAccountArgs | undefined): boolean => args?.confirm === true;
+
+export const writeScope: WriteScope = 'transactions:write';
+
+export async function handler(args: ReconcileAccountArgs): Promise<CallToolResult> {
+  try {
+    const input = ReconcileAccountArgsSchema.parse(args);
+    const { account, transactions } = await new ReconcileAccountDataFetcher().fetchAll(
+      input.accountId,
+      input.statementDate
+    );
+
+    const calculator = new ReconciliationCalculator();
+    const summary = calculator.summarize(transactions, input.statementBalance, input.markCleared);
+    const candidates = calculator.findCandidates(summary.uncleared, summary.difference, input.maxCandidates);
+    const amountFormat = await fetchAmountFormat();
+
+    let reconciled: { transactionIds: string[]; adjustmentId: string | null } | null = null;
+    if (input.confirm) {
+      // Check before locking anything; a failure after that undoes the locks already set
+      if (summary.difference !== 0 && !input.createAdjustment) {
+        throw new Error(
+          `The cleared balance differs from the statement by ${formatAmount(summary.difference, amountFormat)}. Mark the missing transactions with markCleared, or pass createAdjustment to book the difference.`
+        );
+      }
+      reconciled = await new AccountReconciler().reconcile(
+        account.id,
+        transactions.filter((t) => summary.toReconcile.includes(t.id)),
+        summary.difference !== 0
+          ? {
+              date: input.statementDate,
+              amount: summary.difference,
+              notes: `Reconciliation adjustment for statement ending ${input.statementDate}`,
+            }
+          : undefined
+      );
+    }
+
+    const statement = { date: input.statementDate, balance: input.statementBalance };
+    const markdown = new ReconcileAccountReportGenerator(amountFormat).generate(
+      account.name,
+      statement,
+      summary,
+      candidates,
+      reconciled
+    );
+    return success(
+      markdown,
+      ReconcileAccountOutputSchema.parse({
+        accountId: account.id,
+        accountName: account.name,
+        statementDate: input.statementDate,
+        statementBalance: input.statementBalance,
+        clearedBalance: summary.clearedBalance,
+        difference: summary.difference,
+        unclearedTransactions: summary.uncleared,
+        candidates,
+        reconciled,
+      })
+    );
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
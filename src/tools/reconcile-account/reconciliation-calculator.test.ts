@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { ReconciliationCalculator } from './reconciliation-calculator.js';
+import type { Transaction } from '../../core/types/domain.js';
+
+const tx = (id: string, amount: number, overrides: Partial<Transaction> = {}): Transaction => ({
+  id,
+  account: 'checking',
+  date: '2026-01-10',
+  amount,
+  ...overrides,
+});
+
+const transactions: Transaction[] = [
+  tx('opening', 100000, { cleared: true, reconciled: true, date: '2026-01-01' }),
+  tx('rent', -50000, { cleared: true, date: '2026-01-03' }),
+  tx('coffee', -500, { date: '2026-01-05', payee_name: 'Cafe' }),
+  tx('groceries', -7500, { date: '2026-01-08' }),
+  tx('refund', 2000, { date: '2026-01-09' }),
+];
+
+describe('ReconciliationCalculator', () => {
+  const calculator = new ReconciliationCalculator();
+
+  it('sums cleared and reconciled transactions and lists the rest newest first', () => {
+    const summary = calculator.summarize(transactions, 50000);
+
+    expect(summary.clearedBalance).toBe(50000);
+    expect(summary.difference).toBe(0);
+    expect(summary.uncleared.map((t) => t.id)).toEqual(['refund', 'groceries', 'coffee']);
+    expect(summary.uncleared[2].payee).toBe('Cafe');
+    expect(summary.toReconcile).toEqual(['rent']);
+  });
+
+  it('counts markCleared transactions as cleared', () => {
+    const summary = calculator.summarize(transactions, 42500, ['groceries']);
+
+    expect(summary.clearedBalance).toBe(42500);
+    expect(summary.difference).toBe(0);
+    expect(summary.toReconcile).toEqual(['rent', 'groceries']);
+  });
+
+  it('rejects markCleared IDs outside the account', () => {
+    expect(() => calculator.summarize(transactions, 0, ['unknown'])).toThrow(/unknown/);
+  });
+
+  it('finds combinations of uncleared transactions matching the difference, smallest first', () => {
+    const summary = calculator.summarize(transactions, 44000);
+    const candidates = calculator.findCandidates(summary.uncleared, summary.difference, 5);
+
+    expect(summary.difference).toBe(-6000);
+    expect(candidates).toEqual([{ transactionIds: ['refund', 'groceries', 'coffee'], total: -6000 }]);
+    expect(calculator.findCandidates(summary.uncleared, -500, 5)[0].transactionIds).toEqual(['coffee']);
+    expect(calculator.findCandidates(summary.uncleared, 0, 5)).toEqual([]);
+  });
+});
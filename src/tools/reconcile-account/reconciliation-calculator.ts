@@ -0,0 +1,73 @@
+// Computes the cleared balance against a statement and finds uncleared transactions explaining the difference
+import type { Transaction } from '../../core/types/domain.js';
+import type { ReconciliationCandidate, ReconciliationSummary, UnclearedTransaction } from './types.js';
+
+// Subset search limits: combinations of up to 4 of the 40 most recent uncleared transactions
+const MAX_SUBSET_SIZE = 4;
+const MAX_CANDIDATE_POOL = 40;
+
+export class ReconciliationCalculator {
+  summarize(transactions: Transaction[], statementBalance: number, markCleared: string[] = []): ReconciliationSummary {
+    const unknownIds = markCleared.filter((id) => !transactions.some((t) => t.id === id));
+    if (unknownIds.length > 0) {
+      throw new Error(`Transaction(s) not in this account up to the statement date: ${unknownIds.join(', ')}`);
+    }
+
+    const marked = new Set(markCleared);
+    const isCleared = (t: Transaction): boolean => Boolean(t.cleared || t.reconciled || marked.has(t.id));
+
+    const cleared = transactions.filter(isCleared);
+    const clearedBalance = cleared.reduce((sum, t) => sum + t.amount, 0);
+    const uncleared: UnclearedTransaction[] = transactions
+      .filter((t) => !isCleared(t))
+      .map((t) => ({
+        id: t.id,
+        date: t.date,
+        payee: t.payee_name || t.payee || '(No payee)',
+        amount: t.amount,
+        notes: t.notes || null,
+      }))
+      .sort((a, b) => b.date.localeCompare(a.date));
+
+    return {
+      clearedBalance,
+      difference: statementBalance - clearedBalance,
+      uncleared,
+      toReconcile: cleared.filter((t) => !t.reconciled).map((t) => t.id),
+    };
+  }
+
+  /**
+   * Find sets of uncleared transactions whose amounts add up to the difference, smallest sets first.
+   * Only the most recent transactions are searched to keep the search bounded.
+   */
+  findCandidates(
+    uncleared: UnclearedTransaction[],
+    difference: number,
+    maxCandidates: number
+  ): ReconciliationCandidate[] {
+    if (difference === 0) {
+      return [];
+    }
+    const pool = uncleared.slice(0, MAX_CANDIDATE_POOL);
+    const candidates: ReconciliationCandidate[] = [];
+
+    const search = (start: number, size: number, chosen: UnclearedTransaction[], total: number): void => {
+      if (candidates.length >= maxCandidates) return;
+      if (chosen.length === size) {
+        if (total === difference) {
+          candidates.push({ transactionIds: chosen.map((t) => t.id), total });
+        }
+        return;
+      }
+      for (let i = start; i < pool.length; i++) {
+        search(i + 1, size, [...chosen, pool[i]], total + pool[i].amount);
+      }
+    };
+
+    for (let size = 1; size <= MAX_SUBSET_SIZE && candidates.length < maxCandidates; size++) {
+      search(0, size, [], 0);
+    }
+    return candidates;
+  }
+}
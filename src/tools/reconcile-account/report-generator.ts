@@ -0,0 +1,59 @@
+// Generates the markdown report for reconcile-account tool
+import { formatAmount, formatDate, resolveAmountFormat, type AmountFormat } from '../../utils.js';
+import type { ReconciliationCandidate, ReconciliationSummary } from './types.js';
+
+export class ReconcileAccountReportGenerator {
+  constructor(private readonly amountFormat: AmountFormat = resolveAmountFormat()) {}
+
+  generate(
+    accountName: string,
+    statement: { date: string; balance: number },
+    summary: ReconciliationSummary,
+    candidates: ReconciliationCandidate[],
+    reconciled: { transactionIds: string[]; adjustmentId: string | null } | null
+  ): string {
+    const format = (amount: number): string => formatAmount(amount, this.amountFormat);
+
+    let markdown = `# Reconciliation: ${accountName}\n\n`;
+    markdown += `Statement date: ${statement.date}\n`;
+    markdown += `Statement balance: ${format(statement.balance)}\n`;
+    markdown += `Cleared balance: ${format(summary.clearedBalance)}\n`;
+    markdown += `Difference: ${format(summary.difference)}\n\n`;
+
+    if (reconciled) {
+      markdown += `## Reconciled\n\n`;
+      markdown += `Marked ${reconciled.transactionIds.length} transaction(s) as reconciled.\n`;
+      if (reconciled.adjustmentId) {
+        markdown += `Created adjustment transaction ${reconciled.adjustmentId} for ${format(summary.difference)}.\n`;
+      }
+      return markdown;
+    }
+
+    if (summary.difference === 0) {
+      markdown += `The cleared balance matches the statement. Call again with confirm to mark ${summary.toReconcile.length} transaction(s) as reconciled.\n`;
+      return markdown;
+    }
+
+    if (candidates.length > 0) {
+      markdown += `## Possible Matches\n\n`;
+      markdown += `These uncleared transactions add up to the difference. Pass the right set as markCleared.\n\n`;
+      candidates.forEach((candidate, index) => {
+        markdown += `${index + 1}. ${candidate.transactionIds.join(', ')}\n`;
+      });
+      markdown += `\n`;
+    }
+
+    if (summary.uncleared.length === 0) {
+      markdown += `There are no uncleared transactions up to the statement date. The difference may come from a missing transaction; use createAdjustment with confirm to book it.\n`;
+      return markdown;
+    }
+
+    markdown += `## Uncleared Transactions\n\n`;
+    markdown += `| ID | Date | Payee | Amount | Notes |\n`;
+    markdown += `| -- | ---- | ----- | ------ | ----- |\n`;
+    summary.uncleared.forEach((t) => {
+      markdown += `| ${t.id} | ${formatDate(t.date)} | ${t.payee} | ${format(t.amount)} | ${t.notes ?? ''} |\n`;
+    });
+    return markdown;
+  }
+}
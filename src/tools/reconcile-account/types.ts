@@ -0,0 +1,23 @@
+// Types/interfaces for reconcile-account tool
+
+export interface UnclearedTransaction {
+  id: string;
+  date: string;
+  payee: string;
+  amount: number;
+  notes: string | null;
+}
+
+export interface ReconciliationCandidate {
+  transactionIds: string[];
+  total: number;
+}
+
+export interface ReconciliationSummary {
+  clearedBalance: number;
+  // Statement balance minus cleared balance; zero when the account matches the statement
+  difference: number;
+  uncleared: UnclearedTransaction[];
+  // Cleared transactions (including markCleared ones) not reconciled yet
+  toReconcile: string[];
+}
@@ -0,0 +1,84 @@
+// ----------------------------
+// APPLY RULES TOOL
+// ----------------------------
+
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { RuleRunDataFetcher } from '../rule-data-fetcher.js';
+import { RuleChangeFormatter } from '../rule-change-formatter.js';
+import { RuleEngine, type EvaluableRule } from '../../../core/rules/rule-engine.js';
+import { fetchAllRules } from '../../../core/data/fetch-rules.js';
+import { updateTransaction } from '../../../actual-api.js';
+import { successWithJson, errorFromCatch } from '../../../utils/response.js';
+import { getDateRange } from '../../../utils.js';
+import {
+  ApplyRulesArgsSchema,
+  type ApplyRulesArgs,
+  type ToolInput,
+  type UpdateTransactionData,
+} from '../../../types.js';
+
+export const schema = {
+  name: 'apply-rules',
+  description:
+    'Run existing rules (all, or selected by ID) retroactively over transactions in a date range and save the resulting changes. Use dryRun to see what would change first.',
+  inputSchema: zodToJsonSchema(ApplyRulesArgsSchema) as ToolInput,
+};
+
+export const argsSchema = ApplyRulesArgsSchema;
+
+export async function handler(args: ApplyRulesArgs): Promise<CallToolResult> {
+  try {
+    const { accountId, startDate, endDate, ruleIds, dryRun } = ApplyRulesArgsSchema.parse(args ?? {});
+    const { startDate: start, endDate: end } = getDateRange(startDate, endDate);
+
+    const allRules = await fetchAllRules();
+    if (ruleIds) {
+      const unknownIds = ruleIds.filter((id) => !allRules.some((rule) => rule.id === id));
+      if (unknownIds.length > 0) {
+        throw new Error(`Unknown rule ID(s): ${unknownIds.join(', ')}`);
+      }
+    }
+    // RuleEntity values are runtime-compatible with the Zod rule shape the engine evaluates.
+    const rules = (ruleIds
+      ? allRules.filter((rule) => ruleIds.includes(rule.id))
+      : allRules) as unknown as EvaluableRule[];
+
+    const data = await new RuleRunDataFetcher().fetchAll(accountId, start, end);
+    const engine = new RuleEngine(data.accounts);
+    const formatter = new RuleChangeFormatter(data);
+
+    const changed = data.transactions
+      .map((transaction) => ({ transaction, result: engine.run(rules, transaction) }))
+      .filter(({ result }) => Object.keys(result.changes).length > 0);
+
+    const errors: string[] = [];
+    if (!dryRun) {
+      for (const { transaction, result } of changed) {
+        try {
+          await updateTransaction(transaction.id, result.changes as UpdateTransactionData);
+        } catch (err) {
+          errors.push(`${transaction.id}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
+    }
+
+    return successWithJson({
+      dryRun,
+      period: { start, end },
+      rulesRun: rules.length,
+      transactionsEvaluated: data.transactions.length,
+      transactionsChanged: changed.length - errors.length,
+      changes: changed.map(({ transaction, result }) => ({
+        id: transaction.id,
+        date: transaction.date,
+        rules: result.matchedRuleIds,
+        changes: formatter.describeChanges(result.before, result.changes),
+      })),
+      skippedActions: Array.from(new Set(changed.flatMap(({ result }) => result.skippedActions))),
+      errors,
+    });
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
@@ -14,6 +14,8 @@ export const schema = {
   inputSchema: zodToJsonSchema(NewRuleArgsSchema) as ToolInput,
 };
 
+export const argsSchema = NewRuleArgsSchema;
+
 export async function handler(args: NewRuleArgs): Promise<CallToolResult> {
   try {
     const validatedArgs = NewRuleArgsSchema.parse(args);
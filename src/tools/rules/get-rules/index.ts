@@ -6,6 +6,8 @@ import { successWithJson, errorFromCatch } from '../../../utils/response.js';
 // import type { Rule } from '../../../types.js';
 import { fetchAllRules } from '../../../core/data/fetch-rules.js';
 import { RuleEntity } from '@actual-app/api/@types/loot-core/src/types/models/rule.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { GetRulesOutputSchema, type ToolOutput } from '../../../types.js';
 
 export const schema = {
   name: 'get-rules',
@@ -16,13 +18,14 @@ export const schema = {
     properties: {},
     additionalProperties: false,
   },
+  outputSchema: zodToJsonSchema(GetRulesOutputSchema) as ToolOutput,
 };
 
 export async function handler(): Promise<ReturnType<typeof successWithJson> | ReturnType<typeof errorFromCatch>> {
   try {
     const rules: RuleEntity[] = await fetchAllRules();
 
-    return successWithJson(rules);
+    return successWithJson(rules, GetRulesOutputSchema.parse({ rules }));
   } catch (err) {
     return errorFromCatch(err);
   }
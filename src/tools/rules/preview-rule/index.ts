@@ -0,0 +1,72 @@
+// ----------------------------
+// PREVIEW RULE TOOL
+// ----------------------------
+
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { RuleRunDataFetcher } from '../rule-data-fetcher.js';
+import { RuleChangeFormatter } from '../rule-change-formatter.js';
+import { PreviewRuleReportGenerator } from './report-generator.js';
+import { RuleEngine } from '../../../core/rules/rule-engine.js';
+import { success, errorFromCatch } from '../../../utils/response.js';
+import { getDateRange } from '../../../utils.js';
+import {
+  PreviewRuleArgsSchema,
+  PreviewRuleOutputSchema,
+  type PreviewRuleArgs,
+  type ToolInput,
+  type ToolOutput,
+} from '../../../types.js';
+
+export const schema = {
+  name: 'preview-rule',
+  description:
+    'Dry-run a rule (same payload as create-rule) against existing transactions in a date range and list the matches with before/after field values. Nothing is saved.',
+  inputSchema: zodToJsonSchema(PreviewRuleArgsSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(PreviewRuleOutputSchema) as ToolOutput,
+};
+
+export async function handler(args: PreviewRuleArgs): Promise<CallToolResult> {
+  try {
+    const { accountId, startDate, endDate, limit, ...rule } = PreviewRuleArgsSchema.parse(args);
+    const { startDate: start, endDate: end } = getDateRange(startDate, endDate);
+
+    const data = await new RuleRunDataFetcher().fetchAll(accountId, start, end);
+    const engine = new RuleEngine(data.accounts);
+    const matches = data.transactions
+      .map((transaction) => ({ transaction, result: engine.run([rule], transaction) }))
+      .filter(({ result }) => result.matchedRuleIds.length > 0)
+      .sort((a, b) => b.transaction.date.localeCompare(a.transaction.date));
+
+    const markdown = new PreviewRuleReportGenerator().generate(matches, new RuleChangeFormatter(data), {
+      start,
+      end,
+      evaluated: data.transactions.length,
+      limit,
+    });
+    return success(
+      markdown,
+      PreviewRuleOutputSchema.parse({
+        start,
+        end,
+        evaluated: data.transactions.length,
+        matchCount: matches.length,
+        matches: matches.slice(0, limit).map(({ transaction, result }) => ({
+          transactionId: transaction.id,
+          date: transaction.date,
+          accountId: transaction.account,
+          payeeId: transaction.payee ?? null,
+          amount: transaction.amount,
+          changes: Object.entries(result.changes).map(([field, after]) => ({
+            field,
+            before: result.before[field as keyof typeof result.before],
+            after,
+          })),
+          skippedActions: result.skippedActions,
+        })),
+      })
+    );
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
@@ -0,0 +1,56 @@
+// Generates the markdown report for preview-rule tool
+import type { Transaction } from '../../../core/types/domain.js';
+import type { RuleChangeFormatter } from '../rule-change-formatter.js';
+import type { RuleRunResult } from '../../../core/rules/rule-engine.js';
+
+export class PreviewRuleReportGenerator {
+  generate(
+    matches: Array<{ transaction: Transaction; result: RuleRunResult }>,
+    formatter: RuleChangeFormatter,
+    summary: { start: string; end: string; evaluated: number; limit: number }
+  ): string {
+    let markdown = `# Rule Preview\n\n`;
+    markdown += `Period: ${summary.start} to ${summary.end}\n`;
+    markdown += `Transactions evaluated: ${summary.evaluated}\n`;
+    markdown += `Matching transactions: ${matches.length}\n\n`;
+
+    if (matches.length === 0) {
+      markdown += `No transactions match this rule.\n`;
+      return markdown;
+    }
+
+    markdown += `| ID | Date | Account | Payee | Amount | Field | Before | After |\n`;
+    markdown += `| -- | ---- | ------- | ----- | ------ | ----- | ------ | ----- |\n`;
+    matches.slice(0, summary.limit).forEach(({ transaction, result }) => {
+      const prefix = [
+        transaction.id,
+        transaction.date,
+        formatter.describe('account', result.before.account),
+        formatter.describe('payee', result.before.payee),
+        formatter.describe('amount', transaction.amount),
+      ].join(' | ');
+      const changes = formatter.describeChanges(result.before, result.changes);
+      if (changes.length === 0) {
+        markdown += `| ${prefix} | - | (no change) | (no change) |\n`;
+        return;
+      }
+      changes.forEach((change) => {
+        markdown += `| ${prefix} | ${change.field} | ${change.before} | ${change.after} |\n`;
+      });
+    });
+
+    if (matches.length > summary.limit) {
+      markdown += `\nShowing ${summary.limit} of ${matches.length} matches. Increase limit to see more.\n`;
+    }
+
+    const skipped = Array.from(new Set(matches.flatMap(({ result }) => result.skippedActions)));
+    if (skipped.length > 0) {
+      markdown += `\n## Notes\n\n`;
+      skipped.forEach((note) => {
+        markdown += `- ${note}\n`;
+      });
+    }
+
+    return markdown;
+  }
+}
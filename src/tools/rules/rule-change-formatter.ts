@@ -0,0 +1,38 @@
+// Describes rule-driven field changes with readable names for the preview-rule and apply-rules tools
+import { formatAmount, type AmountFormat } from '../../utils.js';
+import type { RuleFields } from '../../core/rules/rule-engine.js';
+import type { RuleRunData } from './rule-data-fetcher.js';
+
+export class RuleChangeFormatter {
+  private names: Record<'account' | 'category' | 'payee', Map<string, string>>;
+  private amountFormat: AmountFormat;
+
+  constructor(data: Pick<RuleRunData, 'accounts' | 'categories' | 'payees' | 'amountFormat'>) {
+    this.amountFormat = data.amountFormat;
+    this.names = {
+      account: new Map(data.accounts.map((a) => [a.id, a.name])),
+      category: new Map(data.categories.map((c) => [c.id, c.name])),
+      payee: new Map(data.payees.map((p) => [p.id, p.name])),
+    };
+  }
+
+  describe(field: keyof RuleFields, value: RuleFields[keyof RuleFields]): string {
+    if (value === null || value === '') return '(none)';
+    if (field === 'amount' && typeof value === 'number') return formatAmount(value, this.amountFormat);
+    if (field === 'account' || field === 'category' || field === 'payee') {
+      return this.names[field].get(String(value)) ?? String(value);
+    }
+    return String(value);
+  }
+
+  describeChanges(
+    before: RuleFields,
+    changes: Partial<RuleFields>
+  ): Array<{ field: string; before: string; after: string }> {
+    return (Object.keys(changes) as Array<keyof RuleFields>).map((field) => ({
+      field,
+      before: this.describe(field, before[field]),
+      after: this.describe(field, changes[field] as RuleFields[keyof RuleFields]),
+    }));
+  }
+}
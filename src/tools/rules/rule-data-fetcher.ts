@@ -0,0 +1,35 @@
+// Fetches transactions and lookup tables for the preview-rule and apply-rules tools
+import { fetchAllAccounts } from '../../core/data/fetch-accounts.js';
+import { fetchAmountFormat } from '../../core/data/fetch-amount-format.js';
+import { fetchAllCategories } from '../../core/data/fetch-categories.js';
+import { fetchAllPayees } from '../../core/data/fetch-payees.js';
+import { fetchAllTransactions } from '../../core/data/fetch-transactions.js';
+import type { Account, Category, Payee, Transaction } from '../../core/types/domain.js';
+import type { AmountFormat } from '../../utils.js';
+
+export interface RuleRunData {
+  accounts: Account[];
+  categories: Category[];
+  payees: Payee[];
+  transactions: Transaction[];
+  amountFormat: AmountFormat;
+}
+
+export class RuleRunDataFetcher {
+  async fetchAll(accountId: string | undefined, start: string, end: string): Promise<RuleRunData> {
+    const accounts = await fetchAllAccounts();
+    if (accountId && !accounts.some((a) => a.id === accountId)) {
+      throw new Error(`Unknown account ID: ${accountId}`);
+    }
+    const selected = accountId ? accounts.filter((a) => a.id === accountId) : accounts.filter((a) => !a.closed);
+
+    const [categories, payees, amountFormat] = await Promise.all([
+      fetchAllCategories(),
+      fetchAllPayees(),
+      fetchAmountFormat(),
+    ]);
+    // # Reason: Rules run on whole transactions; split parents are skipped because their category lives on the children.
+    const transactions = (await fetchAllTransactions(selected, start, end)).filter((t) => !t.is_parent);
+    return { accounts, categories, payees, transactions, amountFormat };
+  }
+}
@@ -14,6 +14,8 @@ export const schema = {
   inputSchema: zodToJsonSchema(UpdateRuleArgsSchema) as ToolInput,
 };
 
+export const argsSchema = UpdateRuleArgsSchema;
+
 export async function handler(args: UpdateRuleArgs): Promise<CallToolResult> {
   try {
     const validatedArgs = UpdateRuleArgsSchema.parse(args);
@@ -0,0 +1,29 @@
+// ----------------------------
+// CREATE SCHEDULE TOOL
+// ----------------------------
+
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { successWithJson, errorFromCatch } from '../../../utils/response.js';
+import { createSchedule } from '../../../actual-api.js';
+import { CreateScheduleArgsSchema, type CreateScheduleArgs, type ToolInput } from '../../../types.js';
+
+export const schema = {
+  name: 'create-schedule',
+  description:
+    'Create a scheduled transaction for a one-off date or a recurring pattern (e.g. a monthly bill). Amount is a currency amount as an integer without decimal places, negative for bills',
+  inputSchema: zodToJsonSchema(CreateScheduleArgsSchema) as ToolInput,
+};
+
+export const argsSchema = CreateScheduleArgsSchema;
+
+export async function handler(args: CreateScheduleArgs): Promise<CallToolResult> {
+  try {
+    const validatedArgs = CreateScheduleArgsSchema.parse(args);
+    const id: string = await createSchedule(validatedArgs);
+
+    return successWithJson('Successfully created schedule ' + id);
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
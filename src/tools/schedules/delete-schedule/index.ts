@@ -0,0 +1,28 @@
+// ----------------------------
+// DELETE SCHEDULE TOOL
+// ----------------------------
+
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { successWithJson, errorFromCatch } from '../../../utils/response.js';
+import { deleteSchedule } from '../../../actual-api.js';
+import { ScheduleIdArgsSchema, type ScheduleIdArgs, type ToolInput } from '../../../types.js';
+
+export const schema = {
+  name: 'delete-schedule',
+  description: 'Delete a schedule. Transactions it already posted are kept',
+  inputSchema: zodToJsonSchema(ScheduleIdArgsSchema) as ToolInput,
+};
+
+export const argsSchema = ScheduleIdArgsSchema;
+
+export async function handler(args: ScheduleIdArgs): Promise<CallToolResult> {
+  try {
+    const { id } = ScheduleIdArgsSchema.parse(args);
+    await deleteSchedule(id);
+
+    return successWithJson('Successfully deleted schedule ' + id);
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
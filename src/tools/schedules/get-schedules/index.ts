@@ -0,0 +1,32 @@
+// ----------------------------
+// GET SCHEDULES TOOL
+// ----------------------------
+
+import { successWithJson, errorFromCatch } from '../../../utils/response.js';
+import { fetchAllSchedules } from '../../../core/data/fetch-schedules.js';
+import { APIScheduleEntity } from '@actual-app/api/@types/loot-core/src/server/api-models.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { GetSchedulesOutputSchema, type ToolOutput } from '../../../types.js';
+
+export const schema = {
+  name: 'get-schedules',
+  description:
+    'Retrieve a list of all scheduled transactions with their recurrence, next date, account, payee and amount. Amounts are currency amounts as integers without decimal places: positive for deposit, negative for payment',
+  inputSchema: {
+    type: 'object',
+    description: 'This tool does not accept any arguments.',
+    properties: {},
+    additionalProperties: false,
+  },
+  outputSchema: zodToJsonSchema(GetSchedulesOutputSchema) as ToolOutput,
+};
+
+export async function handler(): Promise<ReturnType<typeof successWithJson> | ReturnType<typeof errorFromCatch>> {
+  try {
+    const schedules: APIScheduleEntity[] = await fetchAllSchedules();
+
+    return successWithJson(schedules, GetSchedulesOutputSchema.parse({ schedules }));
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
@@ -0,0 +1,28 @@
+// ----------------------------
+// UPDATE SCHEDULE TOOL
+// ----------------------------
+
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { successWithJson, errorFromCatch } from '../../../utils/response.js';
+import { updateSchedule } from '../../../actual-api.js';
+import { UpdateScheduleArgsSchema, type UpdateScheduleArgs, type ToolInput } from '../../../types.js';
+
+export const schema = {
+  name: 'update-schedule',
+  description: 'Update the name, date or recurrence, amount, account, payee or auto-posting of a schedule',
+  inputSchema: zodToJsonSchema(UpdateScheduleArgsSchema) as ToolInput,
+};
+
+export const argsSchema = UpdateScheduleArgsSchema;
+
+export async function handler(args: UpdateScheduleArgs): Promise<CallToolResult> {
+  try {
+    const { id, resetNextDate, ...fields } = UpdateScheduleArgsSchema.parse(args);
+    await updateSchedule(id, fields, resetNextDate);
+
+    return successWithJson('Successfully updated schedule ' + id);
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
@@ -0,0 +1,33 @@
+// Fetches accounts and transactions across accounts for search-transactions tool
+import { fetchAllAccounts } from '../../core/data/fetch-accounts.js';
+import { fetchAllOnBudgetTransactions, fetchAllTransactions } from '../../core/data/fetch-transactions.js';
+import type { Account, Transaction } from '../../core/types/domain.js';
+
+export class SearchTransactionsDataFetcher {
+  /**
+   * Fetch transactions for the requested accounts. Without accountIds, every account
+   * is searched (or only open on-budget accounts when onBudgetOnly is set).
+   */
+  async fetchAll(
+    accountIds: string[] | undefined,
+    onBudgetOnly: boolean,
+    start: string,
+    end: string
+  ): Promise<{ accounts: Account[]; transactions: Transaction[] }> {
+    const accounts = await fetchAllAccounts();
+
+    if (accountIds && accountIds.length > 0) {
+      const unknownIds = accountIds.filter((id) => !accounts.some((a) => a.id === id));
+      if (unknownIds.length > 0) {
+        throw new Error(`Unknown account ID(s): ${unknownIds.join(', ')}`);
+      }
+      const selected = accounts.filter((a) => accountIds.includes(a.id));
+      return { accounts, transactions: await fetchAllTransactions(selected, start, end) };
+    }
+
+    const transactions = onBudgetOnly
+      ? await fetchAllOnBudgetTransactions(accounts, start, end)
+      : await fetchAllTransactions(accounts, start, end);
+    return { accounts, transactions };
+  }
+}
@@ -0,0 +1,84 @@
+// Orchestrator for search-transactions tool
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { SearchTransactionsDataFetcher } from './data-fetcher.js';
+import { TransactionSearchFilter } from './transaction-filter.js';
+import { SearchTransactionsReportGenerator } from './report-generator.js';
+import { success, errorFromCatch } from '../../utils/response.js';
+import { amountToInteger, formatAmount, getDateRange } from '../../utils.js';
+import { TransactionMapper } from '../../core/mapping/transaction-mapper.js';
+import {
+  SearchTransactionsArgsSchema,
+  SearchTransactionsOutputSchema,
+  type SearchTransactionsArgs,
+  type ToolInput,
+  type ToolOutput,
+} from '../../types.js';
+import { fetchAmountFormat } from '../../core/data/fetch-amount-format.js';
+
+export const schema = {
+  name: 'search-transactions',
+  description:
+    'Search transactions across all or selected accounts by payee, category, notes, amount range, cleared state and date range, with sorting and pagination. Results include transaction IDs for follow-up edits.',
+  inputSchema: zodToJsonSchema(SearchTransactionsArgsSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(SearchTransactionsOutputSchema) as ToolOutput,
+};
+
+export async function handler(args: SearchTransactionsArgs): Promise<CallToolResult> {
+  try {
+    const input = SearchTransactionsArgsSchema.parse(args ?? {});
+    const { startDate, endDate } = getDateRange(input.startDate, input.endDate);
+
+    const { accounts, transactions } = await new SearchTransactionsDataFetcher().fetchAll(
+      input.accountIds,
+      input.onBudgetOnly,
+      startDate,
+      endDate
+    );
+
+    const amountFormat = await fetchAmountFormat();
+    const searchFilter = new TransactionSearchFilter(amountFormat);
+    const matches = searchFilter.sort(searchFilter.filter(transactions, input), input);
+    const page = searchFilter.page(matches, input.offset, input.limit);
+
+    const filterDescription = [
+      `Date range: ${startDate} to ${endDate}`,
+      input.accountIds?.length ? `Accounts: ${input.accountIds.length} selected` : null,
+      input.payeeName ? `Payee: ${input.payeeName}` : null,
+      input.categoryName ? `Category: ${input.categoryName}` : null,
+      input.notes ? `Notes: ${input.notes}` : null,
+      input.minAmount !== undefined
+        ? `Min amount: ${formatAmount(amountToInteger(input.minAmount, amountFormat), amountFormat)}`
+        : null,
+      input.maxAmount !== undefined
+        ? `Max amount: ${formatAmount(amountToInteger(input.maxAmount, amountFormat), amountFormat)}`
+        : null,
+      input.cleared !== undefined ? `Cleared: ${input.cleared}` : null,
+      `Sort: ${input.sortBy} ${input.sortOrder}`,
+    ]
+      .filter(Boolean)
+      .join(', ');
+
+    const markdown = new SearchTransactionsReportGenerator(amountFormat).generate(page, accounts, filterDescription, {
+      offset: input.offset,
+      limit: input.limit,
+      matchCount: matches.length,
+      totalCount: transactions.length,
+    });
+    const mapper = new TransactionMapper();
+    return success(
+      markdown,
+      SearchTransactionsOutputSchema.parse({
+        startDate,
+        endDate,
+        matchCount: matches.length,
+        totalCount: transactions.length,
+        offset: input.offset,
+        limit: input.limit,
+        transactions: page.map((t) => mapper.toOutput(t)),
+      })
+    );
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
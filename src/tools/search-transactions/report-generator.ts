@@ -0,0 +1,41 @@
+// Generates the markdown report for search-transactions tool
+import { formatAmount, formatDate, resolveAmountFormat, type AmountFormat } from '../../utils.js';
+import type { Account, Transaction } from '../../core/types/domain.js';
+
+export class SearchTransactionsReportGenerator {
+  constructor(private readonly amountFormat: AmountFormat = resolveAmountFormat()) {}
+
+  generate(
+    page: Transaction[],
+    accounts: Account[],
+    filterDescription: string,
+    paging: { offset: number; limit: number; matchCount: number; totalCount: number }
+  ): string {
+    const accountNames = new Map(accounts.map((a) => [a.id, a.name]));
+    const { offset, limit, matchCount, totalCount } = paging;
+
+    let markdown = `# Transaction Search\n\n`;
+    markdown += `${filterDescription}\n`;
+    markdown += `Matching Transactions: ${matchCount}/${totalCount}\n`;
+
+    if (page.length === 0) {
+      markdown += `\nNo transactions on this page.\n`;
+      return markdown;
+    }
+
+    markdown += `Showing: ${offset + 1}-${offset + page.length}\n\n`;
+    markdown += `| ID | Date | Account | Payee | Category | Amount | Cleared | Notes |\n`;
+    markdown += `| -- | ---- | ------- | ----- | -------- | ------ | ------- | ----- |\n`;
+    page.forEach((t) => {
+      const account = accountNames.get(t.account) || t.account;
+      const payee = t.payee_name || t.payee || '(No payee)';
+      const category = t.category_name || t.category || '(Uncategorized)';
+      markdown += `| ${t.id} | ${formatDate(t.date)} | ${account} | ${payee} | ${category} | ${formatAmount(t.amount, this.amountFormat)} | ${t.cleared ?? false} | ${t.notes || ''} |\n`;
+    });
+
+    if (offset + page.length < matchCount) {
+      markdown += `\nMore results available. Use offset ${offset + limit} to see the next page.\n`;
+    }
+    return markdown;
+  }
+}
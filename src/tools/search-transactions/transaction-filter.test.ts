@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { TransactionSearchFilter } from './transaction-filter.js';
+import type { Transaction } from '../../core/types/domain.js';
+
+describe('TransactionSearchFilter', () => {
+  const searchFilter = new TransactionSearchFilter();
+
+  const transactions: Transaction[] = [
+    {
+      id: 't1',
+      account: 'acc1',
+      date: '2024-01-05',
+      amount: -2599,
+      payee_name: 'Amazon',
+      category_name: 'Shopping',
+      notes: 'Cables',
+      cleared: true,
+    },
+    {
+      id: 't2',
+      account: 'acc2',
+      date: '2024-02-10',
+      amount: -12000,
+      payee_name: 'AMAZON MARKETPLACE',
+      category_name: 'Household',
+      cleared: false,
+    },
+    {
+      id: 't3',
+      account: 'acc1',
+      date: '2024-01-20',
+      amount: 250000,
+      payee_name: 'Employer',
+      category_name: 'Salary',
+      notes: 'January payroll',
+      cleared: true,
+    },
+    { id: 't4', account: 'acc2', date: '2024-01-20', amount: -500, payee_name: 'Coffee Shop' },
+  ];
+
+  describe('filter', () => {
+    it('matches payee names case-insensitively across accounts', () => {
+      const result = searchFilter.filter(transactions, { payeeName: 'amazon' });
+
+      expect(result.map((t) => t.id)).toEqual(['t1', 't2']);
+    });
+
+    it('filters by notes and category text', () => {
+      expect(searchFilter.filter(transactions, { notes: 'payroll' }).map((t) => t.id)).toEqual(['t3']);
+      expect(searchFilter.filter(transactions, { categoryName: 'house' }).map((t) => t.id)).toEqual(['t2']);
+    });
+
+    it('filters by amount range given as decimals in the budget currency', () => {
+      const result = searchFilter.filter(transactions, { minAmount: -150, maxAmount: -10.5 });
+
+      expect(result.map((t) => t.id)).toEqual(['t1', 't2']);
+    });
+
+    it('converts the amount range with the currency decimal places', () => {
+      const yenFilter = new TransactionSearchFilter({ currency: 'JPY', locale: 'ja-JP', decimalPlaces: 0 });
+
+      expect(yenFilter.filter(transactions, { minAmount: -2600, maxAmount: -2599 }).map((t) => t.id)).toEqual(['t1']);
+    });
+
+    it('treats a missing cleared flag as uncleared', () => {
+      const result = searchFilter.filter(transactions, { cleared: false });
+
+      expect(result.map((t) => t.id)).toEqual(['t2', 't4']);
+    });
+  });
+
+  describe('sort', () => {
+    it('sorts by date descending with the ID as a stable tie-breaker', () => {
+      const result = searchFilter.sort(transactions, { sortBy: 'date', sortOrder: 'desc' });
+
+      expect(result.map((t) => t.id)).toEqual(['t2', 't3', 't4', 't1']);
+    });
+
+    it('sorts by amount ascending', () => {
+      const result = searchFilter.sort(transactions, { sortBy: 'amount', sortOrder: 'asc' });
+
+      expect(result.map((t) => t.id)).toEqual(['t2', 't1', 't4', 't3']);
+    });
+  });
+
+  describe('page', () => {
+    it('returns the requested slice', () => {
+      expect(searchFilter.page(transactions, 1, 2).map((t) => t.id)).toEqual(['t2', 't3']);
+      expect(searchFilter.page(transactions, 10, 2)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+// Filters, sorts and pages transactions for search-transactions tool
+import type { Transaction } from '../../core/types/domain.js';
+import { amountToInteger, resolveAmountFormat, type AmountFormat } from '../../utils.js';
+
+export interface TransactionSearchCriteria {
+  payeeName?: string;
+  categoryName?: string;
+  notes?: string;
+  // Decimal amounts in the currency's major unit, e.g. -50.25, like get-transactions
+  minAmount?: number;
+  maxAmount?: number;
+  cleared?: boolean;
+}
+
+export interface TransactionSortOptions {
+  sortBy: 'date' | 'amount' | 'payee';
+  sortOrder: 'asc' | 'desc';
+}
+
+const includesText = (value: string | undefined, search: string): boolean =>
+  (value || '').toLowerCase().includes(search.toLowerCase());
+
+export class TransactionSearchFilter {
+  constructor(private readonly amountFormat: AmountFormat = resolveAmountFormat()) {}
+
+  filter(transactions: Transaction[], criteria: TransactionSearchCriteria): Transaction[] {
+    const { payeeName, categoryName, notes, cleared } = criteria;
+    const minAmount =
+      criteria.minAmount !== undefined ? amountToInteger(criteria.minAmount, this.amountFormat) : undefined;
+    const maxAmount =
+      criteria.maxAmount !== undefined ? amountToInteger(criteria.maxAmount, this.amountFormat) : undefined;
+    return transactions.filter((t) => {
+      if (payeeName && !includesText(t.payee_name, payeeName)) return false;
+      if (categoryName && !includesText(t.category_name, categoryName)) return false;
+      if (notes && !includesText(t.notes, notes)) return false;
+      if (minAmount !== undefined && t.amount < minAmount) return false;
+      if (maxAmount !== undefined && t.amount > maxAmount) return false;
+      if (cleared !== undefined && (t.cleared ?? false) !== cleared) return false;
+      return true;
+    });
+  }
+
+  sort(transactions: Transaction[], options: TransactionSortOptions): Transaction[] {
+    const direction = options.sortOrder === 'asc' ? 1 : -1;
+    return [...transactions].sort((a, b) => {
+      let comparison = 0;
+      if (options.sortBy === 'amount') {
+        comparison = a.amount - b.amount;
+      } else if (options.sortBy === 'payee') {
+        comparison = (a.payee_name || '').localeCompare(b.payee_name || '');
+      } else {
+        comparison = a.date.localeCompare(b.date);
+      }
+      // # Reason: Fall back to the ID so paging stays stable across calls with equal sort keys.
+      return comparison !== 0 ? comparison * direction : a.id.localeCompare(b.id);
+    });
+  }
+
+  page(transactions: Transaction[], offset: number, limit: number): Transaction[] {
+    return transactions.slice(offset, offset + limit);
+  }
+}
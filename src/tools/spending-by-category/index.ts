@@ -3,18 +3,28 @@ import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { SpendingByCategoryInputParser } from './input-parser.js';
 import { SpendingByCategoryDataFetcher } from './data-fetcher.js';
 import { CategoryMapper } from '../../core/mapping/category-mapper.js';
+import { TransferClassifier } from '../../core/mapping/transfer-classifier.js';
 import { TransactionGrouper } from '../../core/aggregation/transaction-grouper.js';
 import { GroupAggregator } from '../../core/aggregation/group-by.js';
 import { SpendingByCategoryReportGenerator } from './report-generator.js';
 import { success, errorFromCatch } from '../../utils/response.js';
 import type { SpendingByCategoryInput } from './input-parser.js';
 import { zodToJsonSchema } from 'zod-to-json-schema';
-import { SpendingByCategoryArgsSchema, type SpendingByCategoryArgs, ToolInput, type Account } from '../../types.js';
+import {
+  SpendingByCategoryArgsSchema,
+  SpendingByCategoryOutputSchema,
+  type SpendingByCategoryArgs,
+  ToolInput,
+  type ToolOutput,
+  type Account,
+} from '../../types.js';
+import { fetchAmountFormat } from '../../core/data/fetch-amount-format.js';
 
 export const schema = {
   name: 'spending-by-category',
   description: 'Get spending breakdown by category for a specified date range',
   inputSchema: zodToJsonSchema(SpendingByCategoryArgsSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(SpendingByCategoryOutputSchema) as ToolOutput,
 };
 
 export async function handler(args: SpendingByCategoryArgs): Promise<CallToolResult> {
@@ -31,7 +41,8 @@ export async function handler(args: SpendingByCategoryArgs): Promise<CallToolRes
       transactions,
       (categoryId) => categoryMapper.getCategoryName(categoryId),
       (categoryId) => categoryMapper.getGroupInfo(categoryId),
-      includeIncome
+      includeIncome,
+      new TransferClassifier(accounts)
     );
     const sortedGroups = new GroupAggregator().aggregateAndSort(spendingByCategory);
 
@@ -41,13 +52,23 @@ export async function handler(args: SpendingByCategoryArgs): Promise<CallToolRes
       accountLabel = `Account: ${account ? account.name : accountId}`;
     }
 
-    const markdown = new SpendingByCategoryReportGenerator().generate(
+    const amountFormat = await fetchAmountFormat();
+    const markdown = new SpendingByCategoryReportGenerator(amountFormat).generate(
       sortedGroups,
       { start: startDate, end: endDate },
       accountLabel,
       includeIncome
     );
-    return success(markdown);
+    return success(
+      markdown,
+      SpendingByCategoryOutputSchema.parse({
+        startDate,
+        endDate,
+        accountId: accountId ?? null,
+        includeIncome,
+        groups: sortedGroups,
+      })
+    );
   } catch (err) {
     return errorFromCatch(err);
   }
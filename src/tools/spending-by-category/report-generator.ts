@@ -1,8 +1,10 @@
 // Generates the markdown report for spending-by-category tool
 import type { GroupSpending } from './types.js';
-import { formatAmount } from '../../utils.js';
+import { formatAmount, resolveAmountFormat, type AmountFormat } from '../../utils.js';
 
 export class SpendingByCategoryReportGenerator {
+  constructor(private readonly amountFormat: AmountFormat = resolveAmountFormat()) {}
+
   generate(
     sortedGroups: GroupSpending[],
     period: { start: string; end: string },
@@ -15,11 +17,11 @@ export class SpendingByCategoryReportGenerator {
     markdown += `Income categories: ${includeIncome ? 'Included' : 'Excluded'}\n\n`;
     sortedGroups.forEach((group) => {
       markdown += `## ${group.name}\n`;
-      markdown += `Total: ${formatAmount(group.total)}\n\n`;
+      markdown += `Total: ${formatAmount(group.total, this.amountFormat)}\n\n`;
       markdown += `| Category | Amount | Transactions |\n`;
       markdown += `| -------- | ------ | ------------ |\n`;
       group.categories.forEach((category) => {
-        markdown += `| ${category.name} | ${formatAmount(category.total)} | ${category.transactions} |\n`;
+        markdown += `| ${category.name} | ${formatAmount(category.total, this.amountFormat)} | ${category.transactions} |\n`;
       });
       markdown += `\n`;
     });
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { UnusualTransactionDetector } from './anomaly-detector.js';
+import { CategoryMapper } from '../../core/mapping/category-mapper.js';
+import type { Transaction } from '../../core/types/domain.js';
+
+describe('UnusualTransactionDetector', () => {
+  const detector = new UnusualTransactionDetector();
+  const lookups = {
+    categoryMapper: new CategoryMapper(
+      [
+        { id: 'food', name: 'Groceries', group_id: 'g1' },
+        { id: 'salary', name: 'Salary', group_id: 'g2', is_income: true },
+      ],
+      [
+        { id: 'g1', name: 'Living' },
+        { id: 'g2', name: 'Income' },
+      ]
+    ),
+    payeeNames: { grocer: 'Grocer', shop: 'New Shop', employer: 'Employer' },
+    accountNames: { acc1: 'Checking' },
+  };
+  const options = { threshold: 3, duplicateDays: 3, includeIncome: false };
+
+  const tx = (id: string, date: string, amount: number, overrides: Partial<Transaction> = {}): Transaction => ({
+    id,
+    account: 'acc1',
+    date,
+    amount,
+    payee: 'grocer',
+    category: 'food',
+    ...overrides,
+  });
+
+  const history = [
+    tx('h1', '2024-01-05', -5000),
+    tx('h2', '2024-01-12', -5200),
+    tx('h3', '2024-01-19', -4800),
+    tx('h4', '2024-02-02', -5100),
+    tx('h5', '2024-02-16', -4900),
+  ];
+
+  it('ranks large amounts, duplicates and first-time payees with reasons', () => {
+    const window = [
+      tx('w1', '2024-03-01', -5050),
+      tx('w2', '2024-03-03', -15000),
+      tx('w3', '2024-03-05', -2000, { payee: 'shop' }),
+      tx('w4', '2024-03-06', -2000, { payee: 'shop' }),
+    ];
+
+    const flagged = detector.detect(window, history, lookups, options);
+
+    expect(flagged.map((t) => [t.id, t.reasons.map((r) => r.type)])).toEqual([
+      ['w2', ['payee-amount', 'category-amount']],
+      ['w4', ['duplicate']],
+      ['w3', ['new-payee']],
+    ]);
+    expect(flagged[0]).toMatchObject({ payeeName: 'Grocer', categoryName: 'Groceries', accountName: 'Checking' });
+    expect(flagged[0].score).toBeCloseTo(26.67, 2);
+    expect(flagged[0].reasons[0].message).toContain('3.0x the usual');
+    expect(flagged[1].reasons[0].message).toBe('Same amount as the 2024-03-05 charge 1 day(s) earlier');
+  });
+
+  it('skips transfers and income unless requested', () => {
+    const window = [
+      tx('w1', '2024-03-01', 300000, { payee: 'employer', category: 'salary' }),
+      tx('w2', '2024-03-02', -90000, { payee: 'savings', category: undefined, transfer_id: 't1' }),
+    ];
+
+    expect(detector.detect(window, history, lookups, options)).toEqual([]);
+    expect(detector.detect(window, history, lookups, { ...options, includeIncome: true }).map((t) => t.id)).toEqual([
+      'w1',
+    ]);
+  });
+
+  it('does not flag amounts smaller than usual or new payees without history', () => {
+    expect(detector.detect([tx('w1', '2024-03-01', -500)], history, lookups, options)).toEqual([]);
+    expect(detector.detect([tx('w1', '2024-03-01', -500, { payee: 'shop' })], [], lookups, options)).toEqual([]);
+  });
+});
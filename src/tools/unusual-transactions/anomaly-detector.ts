@@ -0,0 +1,165 @@
+// Scores transactions against per-payee and per-category history for unusual-transactions tool
+import { TransactionGrouper } from '../../core/aggregation/transaction-grouper.js';
+import type { CategoryMapper } from '../../core/mapping/category-mapper.js';
+import type { Transaction } from '../../core/types/domain.js';
+import { formatAmount, resolveAmountFormat, type AmountFormat } from '../../utils.js';
+import type { UnusualDetectionOptions, UnusualReason, UnusualTransaction } from './types.js';
+
+// Fewer samples than this make the median meaningless
+const MIN_PAYEE_SAMPLES = 3;
+const MIN_CATEGORY_SAMPLES = 5;
+// Scales the median absolute deviation to a standard deviation for normally distributed amounts
+const MAD_SCALE = 1.4826;
+// Spread floor as a share of the median, so identical past amounts don't flag every small change
+const MIN_RELATIVE_SPREAD = 0.05;
+
+const NEW_PAYEE_WEIGHT = 1;
+const DUPLICATE_WEIGHT = 1.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysBetween = (from: string, to: string): number =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS);
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+interface AmountStats {
+  median: number;
+  spread: number;
+}
+
+export interface AnomalyLookups {
+  categoryMapper: CategoryMapper;
+  payeeNames: Record<string, string>;
+  accountNames: Record<string, string>;
+}
+
+export class UnusualTransactionDetector {
+  private grouper = new TransactionGrouper();
+
+  constructor(private readonly amountFormat: AmountFormat = resolveAmountFormat()) {}
+
+  /**
+   * Rank the window's transactions by how unusual they are compared to history; only flagged ones are returned
+   */
+  detect(
+    window: Transaction[],
+    history: Transaction[],
+    lookups: AnomalyLookups,
+    options: UnusualDetectionOptions
+  ): UnusualTransaction[] {
+    const eligible = (t: Transaction): boolean =>
+      !t.transfer_id &&
+      (options.includeIncome || !t.category || !lookups.categoryMapper.getGroupInfo(t.category)?.isIncome);
+    const candidates = window.filter(eligible);
+    const past = history.filter(eligible);
+
+    const payeeStats = this.statsByKey(
+      this.grouper.groupBy(past, (t) => t.payee),
+      MIN_PAYEE_SAMPLES
+    );
+    const categoryStats = this.statsByKey(
+      this.grouper.groupBy(past, (t) => t.category),
+      MIN_CATEGORY_SAMPLES
+    );
+    const knownPayees = new Set(past.map((t) => t.payee).filter(Boolean));
+    const byPayee = this.grouper.groupBy(
+      [...past, ...candidates].sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id)),
+      (t) => t.payee
+    );
+
+    const flagged: UnusualTransaction[] = [];
+    candidates.forEach((t) => {
+      const payeeName = t.payee ? (lookups.payeeNames[t.payee] ?? t.payee) : '(no payee)';
+      const categoryName = t.category ? lookups.categoryMapper.getCategoryName(t.category) : 'Uncategorized';
+      const reasons: Array<UnusualReason & { weight: number }> = [];
+
+      const payeeOutlier = t.payee ? this.outlier(t.amount, payeeStats[t.payee], options.threshold) : null;
+      if (payeeOutlier !== null) {
+        reasons.push({
+          type: 'payee-amount',
+          message: `${this.ratio(t.amount, payeeStats[t.payee!])} the usual ${formatAmount(payeeStats[t.payee!].median, this.amountFormat)} at ${payeeName}`,
+          weight: payeeOutlier,
+        });
+      }
+
+      const categoryOutlier = t.category ? this.outlier(t.amount, categoryStats[t.category], options.threshold) : null;
+      if (categoryOutlier !== null) {
+        reasons.push({
+          type: 'category-amount',
+          message: `${this.ratio(t.amount, categoryStats[t.category!])} the usual ${formatAmount(categoryStats[t.category!].median, this.amountFormat)} in ${categoryName}`,
+          weight: categoryOutlier,
+        });
+      }
+
+      // # Reason: With no history at all every payee would be new, which says nothing.
+      if (t.payee && past.length > 0 && !knownPayees.has(t.payee) && byPayee[t.payee][0].id === t.id) {
+        reasons.push({ type: 'new-payee', message: `First transaction with ${payeeName}`, weight: NEW_PAYEE_WEIGHT });
+      }
+
+      const original = t.payee ? this.findDuplicateOf(t, byPayee[t.payee], options.duplicateDays) : undefined;
+      if (original) {
+        const days = daysBetween(original.date, t.date);
+        reasons.push({
+          type: 'duplicate',
+          message: `Same amount as the ${original.date} charge ${days === 0 ? 'on the same day' : `${days} day(s) earlier`}`,
+          weight: DUPLICATE_WEIGHT,
+        });
+      }
+
+      if (reasons.length === 0) return;
+      flagged.push({
+        id: t.id,
+        date: t.date,
+        accountId: t.account,
+        accountName: lookups.accountNames[t.account] ?? t.account,
+        payeeId: t.payee ?? null,
+        payeeName,
+        categoryId: t.category ?? null,
+        categoryName,
+        amount: t.amount,
+        score: Math.round(reasons.reduce((sum, r) => sum + r.weight, 0) * 100) / 100,
+        reasons: reasons.map(({ type, message }) => ({ type, message })),
+      });
+    });
+
+    return flagged.sort((a, b) => b.score - a.score || Math.abs(b.amount) - Math.abs(a.amount));
+  }
+
+  private statsByKey(groups: Record<string, Transaction[]>, minSamples: number): Record<string, AmountStats> {
+    const stats: Record<string, AmountStats> = {};
+    Object.entries(groups).forEach(([key, transactions]) => {
+      if (transactions.length < minSamples) return;
+      const amounts = transactions.map((t) => t.amount);
+      const mid = median(amounts);
+      const mad = median(amounts.map((a) => Math.abs(a - mid)));
+      stats[key] = { median: mid, spread: Math.max(MAD_SCALE * mad, Math.abs(mid) * MIN_RELATIVE_SPREAD, 1) };
+    });
+    return stats;
+  }
+
+  // Only amounts larger than usual in the same direction count; returns the weight, or null when not an outlier
+  private outlier(amount: number, stats: AmountStats | undefined, threshold: number): number | null {
+    if (!stats || stats.median === 0 || Math.sign(amount) !== Math.sign(stats.median)) return null;
+    const distance = (Math.abs(amount) - Math.abs(stats.median)) / stats.spread;
+    return distance >= threshold ? distance / threshold : null;
+  }
+
+  private ratio(amount: number, stats: AmountStats): string {
+    return `${(Math.abs(amount) / Math.abs(stats.median)).toFixed(1)}x`;
+  }
+
+  private findDuplicateOf(t: Transaction, samePayee: Transaction[], duplicateDays: number): Transaction | undefined {
+    const index = samePayee.findIndex((other) => other.id === t.id);
+    return samePayee
+      .slice(0, index)
+      .reverse()
+      .find(
+        (other) =>
+          other.account === t.account && other.amount === t.amount && daysBetween(other.date, t.date) <= duplicateDays
+      );
+  }
+}
@@ -0,0 +1,36 @@
+// Fetches accounts, categories, groups, payees and transactions for unusual-transactions tool
+import { fetchAllAccounts } from '../../core/data/fetch-accounts.js';
+import { fetchAllCategories, fetchAllCategoryGroups } from '../../core/data/fetch-categories.js';
+import { fetchAllPayees } from '../../core/data/fetch-payees.js';
+import { fetchTransactionsForAccount, fetchAllOnBudgetTransactions } from '../../core/data/fetch-transactions.js';
+import type { Account, Category, CategoryGroup, Payee, Transaction } from '../../core/types/domain.js';
+
+export class UnusualTransactionsDataFetcher {
+  /**
+   * Fetch history and window transactions in one pass (start is the beginning of the history).
+   * If accountId is provided, only fetch transactions for that account.
+   */
+  async fetchAll(
+    accountId: string | undefined,
+    start: string,
+    end: string
+  ): Promise<{
+    accounts: Account[];
+    categories: Category[];
+    categoryGroups: CategoryGroup[];
+    payees: Payee[];
+    transactions: Transaction[];
+  }> {
+    const [accounts, categories, categoryGroups, payees] = await Promise.all([
+      fetchAllAccounts(),
+      fetchAllCategories(),
+      fetchAllCategoryGroups(),
+      fetchAllPayees(),
+    ]);
+
+    const transactions = accountId
+      ? await fetchTransactionsForAccount(accountId, start, end)
+      : await fetchAllOnBudgetTransactions(accounts, start, end);
+    return { accounts, categories, categoryGroups, payees, transactions };
+  }
+}
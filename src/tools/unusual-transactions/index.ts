@@ -0,0 +1,80 @@
+// Orchestrator for unusual-transactions tool
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { UnusualTransactionsDataFetcher } from './data-fetcher.js';
+import { UnusualTransactionDetector } from './anomaly-detector.js';
+import { UnusualTransactionsReportGenerator } from './report-generator.js';
+import { CategoryMapper } from '../../core/mapping/category-mapper.js';
+import { success, errorFromCatch } from '../../utils/response.js';
+import { formatDate } from '../../utils.js';
+import {
+  UnusualTransactionsArgsSchema,
+  UnusualTransactionsOutputSchema,
+  type UnusualTransactionsArgs,
+  type ToolInput,
+  type ToolOutput,
+} from '../../types.js';
+import { fetchAmountFormat } from '../../core/data/fetch-amount-format.js';
+
+export const schema = {
+  name: 'unusual-transactions',
+  description:
+    'Find odd charges in a date range (default: last 30 days) by comparing each transaction with the payee and category history before it: amounts far above the usual median, first-time payees and possible duplicate charges. Returns a ranked list with reasons.',
+  inputSchema: zodToJsonSchema(UnusualTransactionsArgsSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(UnusualTransactionsOutputSchema) as ToolOutput,
+};
+
+export async function handler(args: UnusualTransactionsArgs): Promise<CallToolResult> {
+  try {
+    const input = UnusualTransactionsArgsSchema.parse(args ?? {});
+    const today = new Date();
+    const defaultStart = new Date(today);
+    defaultStart.setDate(today.getDate() - 30);
+    const startDate = input.startDate ?? formatDate(defaultStart);
+    const endDate = input.endDate ?? formatDate(today);
+    if (startDate > endDate) {
+      throw new Error('startDate must be on or before endDate');
+    }
+    const historyStartDate = new Date(`${startDate}T00:00:00`);
+    historyStartDate.setMonth(historyStartDate.getMonth() - input.historyMonths);
+    const historyStart = formatDate(historyStartDate);
+
+    const { accounts, categories, categoryGroups, payees, transactions } =
+      await new UnusualTransactionsDataFetcher().fetchAll(input.accountId, historyStart, endDate);
+    const window = transactions.filter((t) => t.date >= startDate);
+    const history = transactions.filter((t) => t.date < startDate);
+
+    const amountFormat = await fetchAmountFormat();
+    const flagged = new UnusualTransactionDetector(amountFormat).detect(
+      window,
+      history,
+      {
+        categoryMapper: new CategoryMapper(categories, categoryGroups),
+        payeeNames: Object.fromEntries(payees.map((p) => [p.id, p.name])),
+        accountNames: Object.fromEntries(accounts.map((a) => [a.id, a.name])),
+      },
+      input
+    );
+    const shown = flagged.slice(0, input.limit);
+
+    let accountLabel = 'Accounts: All on-budget accounts';
+    if (input.accountId) {
+      const account = accounts.find((a) => a.id === input.accountId);
+      accountLabel = `Account: ${account ? account.name : input.accountId}`;
+    }
+
+    const period = { start: startDate, end: endDate, historyStart };
+    const markdown = new UnusualTransactionsReportGenerator(amountFormat).generate(
+      shown,
+      period,
+      accountLabel,
+      flagged.length
+    );
+    return success(
+      markdown,
+      UnusualTransactionsOutputSchema.parse({ startDate, endDate, historyStart, transactions: shown })
+    );
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
@@ -0,0 +1,37 @@
+// Generates the markdown report for unusual-transactions tool
+import { formatAmount, resolveAmountFormat, type AmountFormat } from '../../utils.js';
+import type { UnusualTransaction } from './types.js';
+
+export class UnusualTransactionsReportGenerator {
+  constructor(private readonly amountFormat: AmountFormat = resolveAmountFormat()) {}
+
+  generate(
+    transactions: UnusualTransaction[],
+    period: { start: string; end: string; historyStart: string },
+    accountLabel: string,
+    total: number
+  ): string {
+    let markdown = `# Unusual Transactions\n\n`;
+    markdown += `Period: ${period.start} to ${period.end}\n`;
+    markdown += `Compared against: ${period.historyStart} onwards\n`;
+    markdown += `${accountLabel}\n\n`;
+
+    if (transactions.length === 0) {
+      markdown += `No unusual transactions found.\n`;
+      return markdown;
+    }
+
+    if (total > transactions.length) {
+      markdown += `Showing the ${transactions.length} most unusual of ${total} flagged transactions.\n\n`;
+    }
+
+    markdown += `| Date | Payee | Category | Account | Amount | Score | Reasons |\n`;
+    markdown += `| ---- | ----- | -------- | ------- | ------ | ----- | ------- |\n`;
+    transactions.forEach((t) => {
+      const reasons = t.reasons.map((r) => r.message).join('; ');
+      markdown += `| ${t.date} | ${t.payeeName} | ${t.categoryName} | ${t.accountName} | ${formatAmount(t.amount, this.amountFormat)} | ${t.score.toFixed(2)} | ${reasons} |\n`;
+    });
+
+    return markdown;
+  }
+}
@@ -0,0 +1,29 @@
+// Types/interfaces for unusual-transactions tool
+
+export type UnusualReasonType = 'payee-amount' | 'category-amount' | 'new-payee' | 'duplicate';
+
+export interface UnusualReason {
+  type: UnusualReasonType;
+  message: string;
+}
+
+export interface UnusualTransaction {
+  id: string;
+  date: string;
+  accountId: string;
+  accountName: string;
+  payeeId: string | null;
+  payeeName: string;
+  categoryId: string | null;
+  categoryName: string;
+  amount: number;
+  // Sum of reason weights; higher is more unusual
+  score: number;
+  reasons: UnusualReason[];
+}
+
+export interface UnusualDetectionOptions {
+  threshold: number;
+  duplicateDays: number;
+  includeIncome: boolean;
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { UpcomingBillsCalculator } from './bills-calculator.js';
+import type { APIScheduleEntity } from '@actual-app/api/@types/loot-core/src/server/api-models.js';
+
+describe('UpcomingBillsCalculator', () => {
+  const calculator = new UpcomingBillsCalculator();
+  const accounts = [{ id: 'acc1', name: 'Checking' }];
+  const payees = [{ id: 'p1', name: 'Landlord' }];
+
+  const schedules: APIScheduleEntity[] = [
+    {
+      id: 's1',
+      name: 'Rent',
+      posts_transaction: false,
+      next_date: '2024-03-01',
+      completed: false,
+      payee: 'p1',
+      account: 'acc1',
+      amount: -150000,
+      amountOp: 'is',
+      date: { frequency: 'monthly', start: '2024-01-01' },
+    },
+    {
+      id: 's2',
+      name: 'Electric',
+      posts_transaction: true,
+      next_date: '2024-02-20',
+      completed: false,
+      account: 'acc1',
+      amount: { num1: -8000, num2: -12000 },
+      amountOp: 'isbetween',
+      date: { frequency: 'monthly', start: '2024-01-20' },
+    },
+    {
+      id: 's3',
+      name: 'Old loan',
+      posts_transaction: false,
+      completed: true,
+      account: 'acc1',
+      amount: -5000,
+      amountOp: 'is',
+      date: '2024-03-05',
+    },
+  ];
+
+  it('should expand schedules, flag overdue bills and skip completed schedules', () => {
+    const bills = calculator.calculate(schedules, accounts, payees, '2024-02-25', '2024-03-25');
+
+    expect(bills.map((b) => [b.date, b.name, b.amount, b.isOverdue])).toEqual([
+      ['2024-02-20', 'Electric', -10000, true],
+      ['2024-03-01', 'Rent', -150000, false],
+      ['2024-03-20', 'Electric', -10000, false],
+    ]);
+    expect(bills[1]).toMatchObject({ payee: 'Landlord', accountName: 'Checking', isApproximate: false });
+  });
+
+  it('should total expected amounts per account and project balances', () => {
+    const bills = calculator.calculate(schedules, accounts, payees, '2024-02-25', '2024-03-25');
+    const [needs] = calculator.summarizeByAccount(bills, { acc1: 100000 });
+
+    expect(needs).toEqual({
+      accountId: 'acc1',
+      accountName: 'Checking',
+      outflow: -170000,
+      inflow: 0,
+      net: -170000,
+      balance: 100000,
+      projectedBalance: -70000,
+    });
+  });
+});
@@ -0,0 +1,87 @@
+// Expands schedules into upcoming bills and per-account cash needs for upcoming-bills tool
+import { RecurrenceExpander } from './recurrence-expander.js';
+import type { APIScheduleEntity } from '@actual-app/api/@types/loot-core/src/server/api-models.js';
+import type { Account, Payee } from '../../core/types/domain.js';
+import type { AccountCashNeeds, UpcomingBill } from './types.js';
+
+export class UpcomingBillsCalculator {
+  private expander = new RecurrenceExpander();
+
+  calculate(
+    schedules: APIScheduleEntity[],
+    accounts: Account[],
+    payees: Payee[],
+    from: string,
+    to: string
+  ): UpcomingBill[] {
+    const accountNames = new Map(accounts.map((a) => [a.id, a.name]));
+    const payeeNames = new Map(payees.map((p) => [p.id, p.name]));
+    const bills: UpcomingBill[] = [];
+
+    schedules
+      .filter((schedule) => !schedule.completed)
+      .forEach((schedule) => {
+        const toBill = (date: string, isOverdue: boolean): UpcomingBill => ({
+          scheduleId: schedule.id,
+          name: schedule.name || '(Unnamed schedule)',
+          date,
+          payee: (schedule.payee && payeeNames.get(schedule.payee)) || '(No payee)',
+          accountId: schedule.account ?? null,
+          accountName: (schedule.account && accountNames.get(schedule.account)) || '(No account)',
+          amount: this.expectedAmount(schedule.amount),
+          isApproximate: schedule.amountOp !== 'is',
+          isOverdue,
+          postsTransaction: schedule.posts_transaction,
+        });
+
+        // # Reason: next_date is the first occurrence not yet matched to a transaction; earlier ones are settled.
+        const nextDate = schedule.next_date;
+        if (nextDate && nextDate < from) {
+          bills.push(toBill(nextDate, true));
+        }
+
+        this.expander
+          .occurrences(schedule.date, from, to)
+          .filter((date) => !nextDate || date >= nextDate)
+          .forEach((date) => bills.push(toBill(date, false)));
+      });
+
+    return bills.sort((a, b) => a.date.localeCompare(b.date) || a.name.localeCompare(b.name));
+  }
+
+  summarizeByAccount(bills: UpcomingBill[], balances: Record<string, number>): AccountCashNeeds[] {
+    const byAccount = new Map<string, AccountCashNeeds>();
+
+    bills.forEach((bill) => {
+      const key = bill.accountId ?? '';
+      const needs = byAccount.get(key) ?? {
+        accountId: bill.accountId,
+        accountName: bill.accountName,
+        outflow: 0,
+        inflow: 0,
+        net: 0,
+      };
+      if (bill.amount < 0) {
+        needs.outflow += bill.amount;
+      } else {
+        needs.inflow += bill.amount;
+      }
+      needs.net += bill.amount;
+      byAccount.set(key, needs);
+    });
+
+    return Array.from(byAccount.values())
+      .map((needs) => {
+        const balance = needs.accountId ? balances[needs.accountId] : undefined;
+        return balance === undefined ? needs : { ...needs, balance, projectedBalance: balance + needs.net };
+      })
+      .sort((a, b) => a.net - b.net);
+  }
+
+  // Range amounts (amountOp isbetween) are expected at their midpoint
+  private expectedAmount(amount: APIScheduleEntity['amount']): number {
+    if (amount === undefined || amount === null) return 0;
+    if (typeof amount === 'number') return amount;
+    return Math.round((amount.num1 + amount.num2) / 2);
+  }
+}
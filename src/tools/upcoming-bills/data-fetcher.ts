@@ -0,0 +1,26 @@
+// Fetches schedules, accounts, payees and balances for upcoming-bills tool
+import { fetchAllAccounts } from '../../core/data/fetch-accounts.js';
+import { fetchAllPayees } from '../../core/data/fetch-payees.js';
+import { fetchAllSchedules } from '../../core/data/fetch-schedules.js';
+import { getAccountBalance } from '../../actual-api.js';
+import type { APIScheduleEntity } from '@actual-app/api/@types/loot-core/src/server/api-models.js';
+import type { Account, Payee } from '../../core/types/domain.js';
+
+export class UpcomingBillsDataFetcher {
+  async fetchAll(): Promise<{ schedules: APIScheduleEntity[]; accounts: Account[]; payees: Payee[] }> {
+    const [schedules, accounts, payees] = await Promise.all([
+      fetchAllSchedules(),
+      fetchAllAccounts(),
+      fetchAllPayees(),
+    ]);
+    return { schedules, accounts, payees };
+  }
+
+  async fetchBalances(accountIds: string[]): Promise<Record<string, number>> {
+    const balances: Record<string, number> = {};
+    for (const id of accountIds) {
+      balances[id] = await getAccountBalance(id);
+    }
+    return balances;
+  }
+}
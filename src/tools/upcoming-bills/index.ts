@@ -0,0 +1,49 @@
+// Orchestrator for upcoming-bills tool
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { UpcomingBillsDataFetcher } from './data-fetcher.js';
+import { UpcomingBillsCalculator } from './bills-calculator.js';
+import { UpcomingBillsReportGenerator } from './report-generator.js';
+import { success, errorFromCatch } from '../../utils/response.js';
+import { formatDate } from '../../utils.js';
+import {
+  UpcomingBillsArgsSchema,
+  UpcomingBillsOutputSchema,
+  type UpcomingBillsArgs,
+  type ToolInput,
+  type ToolOutput,
+} from '../../types.js';
+import { fetchAmountFormat } from '../../core/data/fetch-amount-format.js';
+
+export const schema = {
+  name: 'upcoming-bills',
+  description:
+    'List scheduled transactions due in the next N days (default 30), expanding recurring schedules, with overdue bills, expected amounts per account and warnings for accounts projected to go negative.',
+  inputSchema: zodToJsonSchema(UpcomingBillsArgsSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(UpcomingBillsOutputSchema) as ToolOutput,
+};
+
+export async function handler(args: UpcomingBillsArgs): Promise<CallToolResult> {
+  try {
+    const input = UpcomingBillsArgsSchema.parse(args ?? {});
+    const today = new Date();
+    const end = new Date(today);
+    end.setDate(today.getDate() + input.days);
+    const period = { start: formatDate(today), end: formatDate(end) };
+
+    const fetcher = new UpcomingBillsDataFetcher();
+    const { schedules, accounts, payees } = await fetcher.fetchAll();
+    const selected = input.accountId ? schedules.filter((s) => s.account === input.accountId) : schedules;
+
+    const calculator = new UpcomingBillsCalculator();
+    const bills = calculator.calculate(selected, accounts, payees, period.start, period.end);
+    const accountIds = Array.from(new Set(bills.map((bill) => bill.accountId).filter((id): id is string => !!id)));
+    const cashNeeds = calculator.summarizeByAccount(bills, await fetcher.fetchBalances(accountIds));
+
+    const amountFormat = await fetchAmountFormat();
+    const markdown = new UpcomingBillsReportGenerator(amountFormat).generate(bills, cashNeeds, period);
+    return success(markdown, UpcomingBillsOutputSchema.parse({ ...period, bills, accounts: cashNeeds }));
+  } catch (err) {
+    return errorFromCatch(err);
+  }
+}
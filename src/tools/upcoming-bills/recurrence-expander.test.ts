@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { RecurrenceExpander } from './recurrence-expander.js';
+
+describe('RecurrenceExpander', () => {
+  const expander = new RecurrenceExpander();
+
+  it('should return a single date only when it falls within the window', () => {
+    expect(expander.occurrences('2024-03-10', '2024-03-01', '2024-03-31')).toEqual(['2024-03-10']);
+    expect(expander.occurrences('2024-04-10', '2024-03-01', '2024-03-31')).toEqual([]);
+  });
+
+  it('should expand monthly schedules and clamp to the end of short months', () => {
+    const config = { frequency: 'monthly' as const, start: '2024-01-31' };
+
+    expect(expander.occurrences(config, '2024-02-01', '2024-04-30')).toEqual([
+      '2024-02-29',
+      '2024-03-31',
+      '2024-04-30',
+    ]);
+  });
+
+  it('should expand weekly schedules with an interval', () => {
+    const config = { frequency: 'weekly' as const, interval: 2, start: '2024-01-01' };
+
+    expect(expander.occurrences(config, '2024-01-10', '2024-02-10')).toEqual(['2024-01-15', '2024-01-29']);
+  });
+
+  it('should support weekday and last-day patterns', () => {
+    const config = {
+      frequency: 'monthly' as const,
+      start: '2024-01-01',
+      patterns: [
+        { type: 'FR' as const, value: 1 },
+        { type: 'day' as const, value: -1 },
+      ],
+    };
+
+    expect(expander.occurrences(config, '2024-03-01', '2024-03-31')).toEqual(['2024-03-01', '2024-03-31']);
+  });
+
+  it('should move weekend occurrences when skipWeekend is set', () => {
+    const base = { frequency: 'monthly' as const, start: '2024-06-01', skipWeekend: true };
+
+    // 2024-06-01 is a Saturday
+    expect(expander.occurrences(base, '2024-05-01', '2024-06-30')).toEqual(['2024-06-03']);
+    expect(expander.occurrences({ ...base, weekendSolveMode: 'before' }, '2024-05-01', '2024-06-30')).toEqual([
+      '2024-05-31',
+    ]);
+  });
+
+  it('should honour end modes', () => {
+    const afterN = {
+      frequency: 'monthly' as const,
+      start: '2024-01-15',
+      endMode: 'after_n_occurrences' as const,
+      endOccurrences: 3,
+    };
+    const onDate = {
+      frequency: 'monthly' as const,
+      start: '2024-01-15',
+      endMode: 'on_date' as const,
+      endDate: '2024-02-20',
+    };
+
+    expect(expander.occurrences(afterN, '2024-02-01', '2024-12-31')).toEqual(['2024-02-15', '2024-03-15']);
+    expect(expander.occurrences(onDate, '2024-01-01', '2024-12-31')).toEqual(['2024-01-15', '2024-02-15']);
+  });
+});
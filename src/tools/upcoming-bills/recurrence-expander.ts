@@ -0,0 +1,115 @@
+// Expands schedule dates (single dates or recurrence configs) into occurrence dates
+import type { RecurConfig } from '../../types.js';
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+// Guards against runaway loops on malformed configs (e.g. a daily schedule started decades ago)
+const MAX_PERIODS = 50000;
+
+const toUtcDate = (date: string): Date => new Date(`${date}T00:00:00Z`);
+const toDateString = (date: Date): string => date.toISOString().slice(0, 10);
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+};
+
+export class RecurrenceExpander {
+  /**
+   * Return the occurrence dates (YYYY-MM-DD) of a schedule date that fall within [from, to].
+   * Days past the end of a month (e.g. the 31st) fall back to the last day of that month.
+   */
+  occurrences(date: RecurConfig | string, from: string, to: string): string[] {
+    if (typeof date === 'string') {
+      return date >= from && date <= to ? [date] : [];
+    }
+
+    const end = date.endMode === 'on_date' && date.endDate && date.endDate < to ? date.endDate : to;
+    const limit = date.endMode === 'after_n_occurrences' ? (date.endOccurrences ?? 1) : Infinity;
+    const interval = date.interval ?? 1;
+    const start = toUtcDate(date.start);
+    const results: string[] = [];
+    let count = 0;
+
+    for (let period = 0; period < MAX_PERIODS && count < limit; period++) {
+      const { floor, dates } = this.datesForPeriod(date, start, period * interval);
+      if (toDateString(floor) > end) break;
+
+      for (const raw of dates) {
+        if (count >= limit) break;
+        if (raw < start) continue;
+        count++;
+        const occurrence = toDateString(this.adjustForWeekend(raw, date));
+        if (occurrence >= from && occurrence <= end) {
+          results.push(occurrence);
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private datesForPeriod(config: RecurConfig, start: Date, offset: number): { floor: Date; dates: Date[] } {
+    switch (config.frequency) {
+      case 'daily': {
+        const date = addDays(start, offset);
+        return { floor: date, dates: [date] };
+      }
+      case 'weekly': {
+        const date = addDays(start, offset * 7);
+        return { floor: date, dates: [date] };
+      }
+      case 'yearly': {
+        const year = start.getUTCFullYear() + offset;
+        const month = start.getUTCMonth();
+        const date = new Date(Date.UTC(year, month, Math.min(start.getUTCDate(), daysInMonth(year, month))));
+        return { floor: date, dates: [date] };
+      }
+      case 'monthly': {
+        const monthIndex = start.getUTCMonth() + offset;
+        const year = start.getUTCFullYear() + Math.floor(monthIndex / 12);
+        const month = ((monthIndex % 12) + 12) % 12;
+        const floor = new Date(Date.UTC(year, month, 1));
+        const patterns = config.patterns?.length
+          ? config.patterns
+          : [{ type: 'day' as const, value: start.getUTCDate() }];
+        const dates = patterns
+          .map((pattern) => this.patternDate(year, month, pattern.type, pattern.value))
+          .filter((date): date is Date => date !== null)
+          .sort((a, b) => a.getTime() - b.getTime());
+        return { floor, dates };
+      }
+    }
+  }
+
+  private patternDate(year: number, month: number, type: string, value: number): Date | null {
+    const lastDay = daysInMonth(year, month);
+    if (type === 'day') {
+      const day = value < 0 ? lastDay + value + 1 : Math.min(value, lastDay);
+      return day >= 1 ? new Date(Date.UTC(year, month, day)) : null;
+    }
+
+    const weekday = WEEKDAYS.indexOf(type);
+    if (value < 0) {
+      const last = new Date(Date.UTC(year, month, lastDay));
+      const back = (last.getUTCDay() - weekday + 7) % 7;
+      const date = addDays(last, -back + (value + 1) * 7);
+      return date.getUTCMonth() === month ? date : null;
+    }
+    const first = new Date(Date.UTC(year, month, 1));
+    const day = 1 + ((weekday - first.getUTCDay() + 7) % 7) + (value - 1) * 7;
+    return day <= lastDay ? new Date(Date.UTC(year, month, day)) : null;
+  }
+
+  private adjustForWeekend(date: Date, config: RecurConfig): Date {
+    const day = date.getUTCDay();
+    if (!config.skipWeekend || (day !== 0 && day !== 6)) {
+      return date;
+    }
+    if (config.weekendSolveMode === 'before') {
+      return addDays(date, day === 6 ? -1 : -2);
+    }
+    return addDays(date, day === 6 ? 2 : 1);
+  }
+}
@@ -0,0 +1,45 @@
+// Generates the markdown report for upcoming-bills tool
+import { formatAmount, resolveAmountFormat, type AmountFormat } from '../../utils.js';
+import type { AccountCashNeeds, UpcomingBill } from './types.js';
+
+export class UpcomingBillsReportGenerator {
+  constructor(private readonly amountFormat: AmountFormat = resolveAmountFormat()) {}
+
+  generate(bills: UpcomingBill[], cashNeeds: AccountCashNeeds[], period: { start: string; end: string }): string {
+    let markdown = `# Upcoming Bills\n\n`;
+    markdown += `Period: ${period.start} to ${period.end}\n\n`;
+
+    if (bills.length === 0) {
+      markdown += `No scheduled transactions are due in this period.\n`;
+      return markdown;
+    }
+
+    markdown += `| Date | Schedule | Payee | Account | Amount | Auto-post |\n`;
+    markdown += `| ---- | -------- | ----- | ------- | ------ | --------- |\n`;
+    bills.forEach((bill) => {
+      const date = bill.isOverdue ? `${bill.date} (overdue)` : bill.date;
+      const amount = `${bill.isApproximate ? '~' : ''}${formatAmount(bill.amount, this.amountFormat)}`;
+      markdown += `| ${date} | ${bill.name} | ${bill.payee} | ${bill.accountName} | ${amount} | ${bill.postsTransaction ? 'Yes' : 'No'} |\n`;
+    });
+
+    markdown += `\n## Expected Amounts by Account\n\n`;
+    markdown += `| Account | Current Balance | Outflow | Inflow | Net | Projected Balance |\n`;
+    markdown += `| ------- | --------------- | ------- | ------ | --- | ----------------- |\n`;
+    cashNeeds.forEach((needs) => {
+      const balance = needs.balance !== undefined ? formatAmount(needs.balance, this.amountFormat) : '-';
+      const projected =
+        needs.projectedBalance !== undefined ? formatAmount(needs.projectedBalance, this.amountFormat) : '-';
+      markdown += `| ${needs.accountName} | ${balance} | ${formatAmount(needs.outflow, this.amountFormat)} | ${formatAmount(needs.inflow, this.amountFormat)} | ${formatAmount(needs.net, this.amountFormat)} | ${projected} |\n`;
+    });
+
+    const shortfalls = cashNeeds.filter((needs) => needs.projectedBalance !== undefined && needs.projectedBalance < 0);
+    if (shortfalls.length > 0) {
+      markdown += `\n## Warnings\n\n`;
+      shortfalls.forEach((needs) => {
+        markdown += `- ${needs.accountName} is projected to drop to ${formatAmount(needs.projectedBalance, this.amountFormat)} after these bills\n`;
+      });
+    }
+
+    return markdown;
+  }
+}
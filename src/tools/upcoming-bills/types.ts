@@ -0,0 +1,24 @@
+// Types/interfaces for upcoming-bills tool
+
+export interface UpcomingBill {
+  scheduleId: string;
+  name: string;
+  date: string;
+  payee: string;
+  accountId: string | null;
+  accountName: string;
+  amount: number;
+  isApproximate: boolean;
+  isOverdue: boolean;
+  postsTransaction: boolean;
+}
+
+export interface AccountCashNeeds {
+  accountId: string | null;
+  accountName: string;
+  outflow: number;
+  inflow: number;
+  net: number;
+  balance?: number;
+  projectedBalance?: number;
+}
@@ -11,6 +11,8 @@ export const schema = {
   inputSchema: zodToJsonSchema(UpdateTransactionArgsSchema) as ToolInput,
 };
 
+export const argsSchema = UpdateTransactionArgsSchema;
+
 export async function handler(args: UpdateTransactionArgs): Promise<CallToolResult> {
   try {
     const validatedArgs = UpdateTransactionArgsSchema.parse(args);
@@ -1,14 +1,27 @@
 // Type definitions for Actual Budget API
-export type { Account, Transaction, Category, CategoryGroup, Payee } from './core/types/domain.js';
+export type {
+  Account,
+  Transaction,
+  Category,
+  CategoryGroup,
+  Payee,
+  BudgetMonth,
+  BudgetMonthCategory,
+  BudgetMonthCategoryGroup,
+} from './core/types/domain.js';
 import { z } from 'zod';
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 
 export type ToolInput = Tool['inputSchema'];
+export type ToolOutput = NonNullable<Tool['outputSchema']>;
 
 export interface BudgetFile {
   id?: string;
   cloudFileId?: string;
   name: string;
+  state?: 'remote';
+  encryptKeyId?: string;
+  hasKey?: boolean;
 }
 
 // Type definitions for tool arguments
@@ -16,8 +29,8 @@ export const GetTransactionsArgsSchema = z.object({
   accountId: z.string(),
   startDate: z.string().optional(),
   endDate: z.string().optional(),
-  minAmount: z.number().optional(),
-  maxAmount: z.number().optional(),
+  minAmount: z.number().optional().describe('Minimum amount as a decimal in the budget currency (e.g. -50.25)'),
+  maxAmount: z.number().optional().describe('Maximum amount as a decimal in the budget currency (e.g. -50.25)'),
   categoryName: z.string().optional(),
   payeeName: z.string().optional(),
   limit: z.number().optional(),
@@ -25,6 +38,47 @@ export const GetTransactionsArgsSchema = z.object({
 
 export type GetTransactionsArgs = z.infer<typeof GetTransactionsArgsSchema>;
 
+export const SearchTransactionsArgsSchema = z.object({
+  accountIds: z
+    .array(z.string())
+    .optional()
+    .describe('IDs of the accounts to search. Defaults to all accounts (or all on-budget accounts with onBudgetOnly)'),
+  onBudgetOnly: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Only search open on-budget accounts when accountIds is not given'),
+  startDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'startDate must be in YYYY-MM-DD format')
+    .optional()
+    .describe('Start date in YYYY-MM-DD format. Defaults to 3 months ago'),
+  endDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'endDate must be in YYYY-MM-DD format')
+    .optional()
+    .describe('End date in YYYY-MM-DD format. Defaults to today'),
+  payeeName: z.string().optional().describe('Case-insensitive text the payee name must contain'),
+  categoryName: z.string().optional().describe('Case-insensitive text the category name must contain'),
+  notes: z.string().optional().describe('Case-insensitive text the notes must contain'),
+  minAmount: z
+    .number()
+    .optional()
+    .describe('Minimum amount as a decimal in the budget currency (e.g. -50.25). Outflows are negative'),
+  maxAmount: z
+    .number()
+    .optional()
+    .describe('Maximum amount as a decimal in the budget currency (e.g. -50.25). Outflows are negative'),
+  cleared: z.boolean().optional().describe('Only return cleared (true) or uncleared (false) transactions'),
+  sortBy: z.enum(['date', 'amount', 'payee']).optional().default('date').describe('Field to sort results by'),
+  sortOrder: z.enum(['asc', 'desc']).optional().default('desc').describe('Sort direction'),
+  limit: z.number().int().min(1).max(500).optional().default(50).describe('Maximum number of results to return'),
+  offset: z.number().int().min(0).optional().default(0).describe('Number of matching results to skip, for paging'),
+});
+
+export type SearchTransactionsArgs = z.input<typeof SearchTransactionsArgsSchema>;
+export type SearchTransactionsInput = z.infer<typeof SearchTransactionsArgsSchema>;
+
 export const SpendingByCategoryArgsSchema = z.object({
   startDate: z.string().optional(),
   endDate: z.string().optional(),
@@ -34,6 +88,66 @@ export const SpendingByCategoryArgsSchema = z.object({
 
 export type SpendingByCategoryArgs = z.infer<typeof SpendingByCategoryArgsSchema>;
 
+export const UnusualTransactionsArgsSchema = z.object({
+  startDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'startDate must be in YYYY-MM-DD format')
+    .optional()
+    .describe('Start of the window to check in YYYY-MM-DD format. Defaults to 30 days ago'),
+  endDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'endDate must be in YYYY-MM-DD format')
+    .optional()
+    .describe('End of the window to check in YYYY-MM-DD format. Defaults to today'),
+  historyMonths: z
+    .number()
+    .int()
+    .min(1)
+    .max(24)
+    .optional()
+    .default(6)
+    .describe('Months of history before the window to compare against. Defaults to 6'),
+  accountId: z.string().optional().describe('Only check this account. Defaults to all on-budget accounts'),
+  threshold: z
+    .number()
+    .min(1)
+    .optional()
+    .default(3)
+    .describe('How many spreads away from the usual amount a transaction must be to count as unusual. Defaults to 3'),
+  duplicateDays: z
+    .number()
+    .int()
+    .min(0)
+    .max(14)
+    .optional()
+    .default(3)
+    .describe('Flag equal charges from the same payee within this many days as possible duplicates. Defaults to 3'),
+  includeIncome: z.boolean().optional().default(false).describe('Also check income categories'),
+  limit: z.number().int().min(1).optional().default(20).describe('Maximum number of transactions to return'),
+});
+
+export type UnusualTransactionsArgs = z.input<typeof UnusualTransactionsArgsSchema>;
+
+export const CategoryTrendsArgsSchema = z.object({
+  months: z
+    .number()
+    .int()
+    .min(2)
+    .max(24)
+    .optional()
+    .default(6)
+    .describe('Number of months in the matrix. Defaults to 6'),
+  endMonth: z
+    .string()
+    .regex(/^\d{4}-\d{2}$/, 'endMonth must be in YYYY-MM format')
+    .optional()
+    .describe('Last month in YYYY-MM format (inclusive). Defaults to the last complete month'),
+  accountId: z.string().optional().describe('Only include this account. Defaults to all on-budget accounts'),
+  includeIncome: z.boolean().optional().default(false).describe('Also include income categories'),
+});
+
+export type CategoryTrendsArgs = z.input<typeof CategoryTrendsArgsSchema>;
+
 export const MonthlySummaryArgsSchema = z.object({
   months: z.number().optional().default(3),
   accountId: z.string().optional(),
@@ -49,6 +163,19 @@ export const BalanceHistoryArgsSchema = z.object({
 
 export type BalanceHistoryArgs = z.infer<typeof BalanceHistoryArgsSchema>;
 
+export const NetWorthArgsSchema = z.object({
+  months: z
+    .number()
+    .int()
+    .min(1)
+    .max(60)
+    .optional()
+    .default(12)
+    .describe('Number of months to include, ending with the current month. Defaults to 12'),
+});
+
+export type NetWorthArgs = z.input<typeof NetWorthArgsSchema>;
+
 export const FinancialInsightsArgsSchema = z.object({
   startDate: z.string().optional(),
   endDate: z.string().optional(),
@@ -164,7 +291,7 @@ export const CreateTransactionArgsSchema = z.object({
     .string()
     .optional()
     .describe(
-      'If a transfer, the id of the corresponding transaction in the other account. Only set this when importing'
+      'If a transfer, the id of the corresponding transaction in the other account. Only set this when importing; use create-transfer to move money between accounts'
     ),
   cleared: z.boolean().optional().describe('A flag indicating if the transaction has cleared or not'),
   subtransactions: z
@@ -181,6 +308,93 @@ export type CreateTransactionArgs = z.infer<typeof CreateTransactionArgsSchema>;
 export const TransactionDataSchema = CreateTransactionArgsSchema.omit({ account: true });
 export type TransactionData = z.infer<typeof TransactionDataSchema>;
 
+export const CreateTransferArgsSchema = z.object({
+  fromAccountId: z.string().describe('Required. The ID of the account the money leaves'),
+  toAccountId: z.string().describe('Required. The ID of the account the money goes to'),
+  amount: z
+    .number()
+    .int()
+    .positive()
+    .describe(
+      'Required. Amount moved as a positive integer without decimal places. For example, USD amount of $120.30 would be 12030'
+    ),
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'date must be in YYYY-MM-DD format')
+    .describe('Required. Transfer date in YYYY-MM-DD format'),
+  notes: z.string().optional().describe('Notes for both transactions'),
+  category: z
+    .string()
+    .optional()
+    .describe(
+      'Category of the on-budget side. Only allowed when exactly one account is off-budget; transfers between two on-budget accounts are never categorized'
+    ),
+  cleared: z.boolean().optional().describe('Whether the transaction in the source account has cleared'),
+});
+
+export type CreateTransferArgs = z.infer<typeof CreateTransferArgsSchema>;
+
+export const ConvertToTransferArgsSchema = z.object({
+  transactionId: z.string().describe('Required. The ID of one existing transaction (e.g. the withdrawal)'),
+  otherTransactionId: z
+    .string()
+    .describe('Required. The ID of the matching transaction in another account, with the opposite amount'),
+});
+
+export type ConvertToTransferArgs = z.infer<typeof ConvertToTransferArgsSchema>;
+
+export const BulkTransactionFilterSchema = z.object({
+  accountId: z.string().optional().describe('Only match transactions in this account. Defaults to all open accounts'),
+  payeeName: z.string().optional().describe('Case-insensitive text the payee name must contain'),
+  startDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'startDate must be in YYYY-MM-DD format')
+    .optional()
+    .describe('Start date in YYYY-MM-DD format. Defaults to 3 months ago'),
+  endDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'endDate must be in YYYY-MM-DD format')
+    .optional()
+    .describe('End date in YYYY-MM-DD format. Defaults to today'),
+  uncategorized: z
+    .boolean()
+    .optional()
+    .describe(
+      'Only match on-budget transactions without a category. Transfers between on-budget accounts and split parents are never matched'
+    ),
+});
+
+export type BulkTransactionFilter = z.infer<typeof BulkTransactionFilterSchema>;
+
+// The fields of a single-transaction update that make sense to set on many transactions at once
+export const BulkTransactionPatchSchema = UpdateTransactionDataSchema.pick({
+  category: true,
+  payee: true,
+  payee_name: true,
+  notes: true,
+  cleared: true,
+}).extend({
+  tags: z
+    .array(z.string().regex(/^[^\s#]+$/, 'tags must not contain spaces or #'))
+    .optional()
+    .describe('Tags to add to the notes as #tag. Tags already in the notes are not repeated'),
+});
+
+export type BulkTransactionPatch = z.infer<typeof BulkTransactionPatchSchema>;
+
+export const BulkUpdateTransactionsArgsSchema = z.object({
+  ids: z.array(z.string()).optional().describe('IDs of the transactions to update. Use either ids or filter'),
+  filter: BulkTransactionFilterSchema.optional().describe('Criteria selecting the transactions to update'),
+  patch: BulkTransactionPatchSchema.describe('Required. Fields to set on every selected transaction'),
+  dryRun: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('If true, report which transactions would change without saving anything'),
+});
+
+export type BulkUpdateTransactionsArgs = z.input<typeof BulkUpdateTransactionsArgsSchema>;
+
 // Additional types used in implementation
 export interface CategoryGroupInfo {
   id: string;
@@ -312,3 +526,987 @@ export const UpdateRuleArgsSchema = NewRuleArgsSchema.extend({
 });
 
 export type UpdateRuleArgs = z.infer<typeof UpdateRuleArgsSchema>;
+
+const RuleRunRangeSchema = z.object({
+  accountId: z.string().optional().describe('Only evaluate transactions in this account. Defaults to all accounts'),
+  startDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'startDate must be in YYYY-MM-DD format')
+    .optional()
+    .describe('Start date in YYYY-MM-DD format. Defaults to 3 months ago'),
+  endDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'endDate must be in YYYY-MM-DD format')
+    .optional()
+    .describe('End date in YYYY-MM-DD format. Defaults to today'),
+});
+
+export const PreviewRuleArgsSchema = NewRuleArgsSchema.merge(RuleRunRangeSchema).extend({
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(500)
+    .optional()
+    .default(50)
+    .describe('Maximum number of matching transactions to list. Defaults to 50'),
+});
+
+export type PreviewRuleArgs = z.input<typeof PreviewRuleArgsSchema>;
+
+export const ApplyRulesArgsSchema = RuleRunRangeSchema.extend({
+  ruleIds: z
+    .array(z.string())
+    .optional()
+    .describe('IDs of the rules to run. Defaults to all rules, in stage order (pre, default, post)'),
+  dryRun: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('If true, report which transactions would change without saving anything'),
+});
+
+export type ApplyRulesArgs = z.input<typeof ApplyRulesArgsSchema>;
+
+// ----------------------------
+// PAYEE SCHEMAS
+// ----------------------------
+
+export const MergePayeesArgsSchema = z.object({
+  targetId: z.string().describe('Required. ID of the payee to keep'),
+  sourceIds: z
+    .array(z.string())
+    .min(1)
+    .describe('Required. IDs of the duplicate payees to merge into the target. They are deleted afterwards'),
+});
+
+export type MergePayeesArgs = z.infer<typeof MergePayeesArgsSchema>;
+
+// ----------------------------
+// SCHEDULE SCHEMAS
+// ----------------------------
+
+const ScheduleDateStringSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'date must be in YYYY-MM-DD format');
+
+export const RecurPatternSchema = z.object({
+  value: z.number().int().describe('Day of month (1-31, -1 for last day) or week occurrence (1-5, -1 for last)'),
+  type: z
+    .enum(['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'day'])
+    .describe('"day" for a day of month, or a weekday code for e.g. the 2nd Tuesday'),
+});
+
+export const RecurConfigSchema = z.object({
+  frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']).describe('How often the schedule repeats'),
+  interval: z.number().int().min(1).optional().describe('Repeat every N periods. Defaults to 1'),
+  patterns: z.array(RecurPatternSchema).optional().describe('Specific days within each month (monthly only)'),
+  skipWeekend: z.boolean().optional().describe('Move occurrences that fall on a weekend'),
+  weekendSolveMode: z
+    .enum(['before', 'after'])
+    .optional()
+    .describe('Move weekend occurrences to the Friday before or the Monday after'),
+  start: ScheduleDateStringSchema.describe('First occurrence in YYYY-MM-DD format'),
+  endMode: z.enum(['never', 'after_n_occurrences', 'on_date']).optional().describe('When the schedule ends'),
+  endOccurrences: z.number().int().min(1).optional().describe('Number of occurrences with after_n_occurrences'),
+  endDate: ScheduleDateStringSchema.optional().describe('Last possible date with on_date'),
+});
+
+export type RecurConfig = z.infer<typeof RecurConfigSchema>;
+
+export const ScheduleAmountSchema = z
+  .union([z.number().int(), z.object({ num1: z.number().int(), num2: z.number().int() })])
+  .describe(
+    'Amount as an integer without decimal places (negative for bills), or {num1, num2} as a range with amountOp isbetween'
+  );
+
+export const CreateScheduleArgsSchema = z.object({
+  name: z.string().optional().describe('Unique name of the schedule'),
+  date: z
+    .union([ScheduleDateStringSchema, RecurConfigSchema])
+    .describe('Required. A single YYYY-MM-DD date, or a recurrence config for repeating schedules'),
+  amount: ScheduleAmountSchema.optional(),
+  amountOp: z
+    .enum(['is', 'isapprox', 'isbetween'])
+    .optional()
+    .default('isapprox')
+    .describe('How transactions are matched against the amount'),
+  account: z.string().optional().describe('ID of the account the schedule posts to'),
+  payee: z.string().optional().describe('ID of the payee'),
+  posts_transaction: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('If true, Actual automatically adds the transaction when it is due'),
+});
+
+export type CreateScheduleArgs = z.input<typeof CreateScheduleArgsSchema>;
+
+export const UpdateScheduleArgsSchema = CreateScheduleArgsSchema.partial().extend({
+  id: z.string().describe('Required. ID of the schedule to update'),
+  amountOp: z.enum(['is', 'isapprox', 'isbetween']).optional().describe('How transactions are matched'),
+  posts_transaction: z.boolean().optional().describe('If true, Actual automatically adds due transactions'),
+  resetNextDate: z.boolean().optional().describe('Recalculate the next occurrence after changing the date'),
+});
+
+export type UpdateScheduleArgs = z.infer<typeof UpdateScheduleArgsSchema>;
+
+export const ScheduleIdArgsSchema = z.object({
+  id: z.string().describe('Required. ID of the schedule'),
+});
+
+export type ScheduleIdArgs = z.infer<typeof ScheduleIdArgsSchema>;
+
+export const UpcomingBillsArgsSchema = z.object({
+  days: z
+    .number()
+    .int()
+    .min(1)
+    .max(366)
+    .optional()
+    .default(30)
+    .describe('Number of days ahead to look for scheduled transactions. Defaults to 30'),
+  accountId: z.string().optional().describe('Only include schedules for this account'),
+});
+
+export type UpcomingBillsArgs = z.input<typeof UpcomingBillsArgsSchema>;
+
+// ----------------------------
+// FORECAST SCHEMAS
+// ----------------------------
+
+export const CashFlowForecastArgsSchema = z.object({
+  days: z
+    .number()
+    .int()
+    .min(30)
+    .max(180)
+    .optional()
+    .default(90)
+    .describe('Number of days to project forward (30-180). Defaults to 90'),
+  accountId: z.string().optional().describe('Only forecast this account. Defaults to all open accounts'),
+  includeRecurring: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Also project recurring transactions detected in history that have no schedule. Defaults to true'),
+  historyMonths: z
+    .number()
+    .int()
+    .min(2)
+    .max(24)
+    .optional()
+    .default(6)
+    .describe('Months of history scanned for recurring transactions. Defaults to 6'),
+});
+
+export type CashFlowForecastArgs = z.input<typeof CashFlowForecastArgsSchema>;
+
+export const DetectRecurringArgsSchema = z.object({
+  months: z
+    .number()
+    .int()
+    .min(2)
+    .max(36)
+    .optional()
+    .default(12)
+    .describe('Months of transaction history to scan. Defaults to 12'),
+  accountId: z.string().optional().describe('Only scan this account. Defaults to all open accounts'),
+  minOccurrences: z
+    .number()
+    .int()
+    .min(2)
+    .optional()
+    .default(3)
+    .describe('Minimum number of transactions for a payee to count as recurring. Defaults to 3'),
+  includeInactive: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Also list series whose next expected transaction has not arrived (e.g. cancelled subscriptions)'),
+  createSchedules: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Series IDs from a previous call to create recurring schedules for, once the user has confirmed them. Requires write access'
+    ),
+});
+
+export type DetectRecurringArgs = z.input<typeof DetectRecurringArgsSchema>;
+
+// ----------------------------
+// BUDGET SCHEMAS
+// ----------------------------
+
+const BudgetMonthStringSchema = z.string().regex(/^\d{4}-\d{2}$/, 'month must be in YYYY-MM format');
+
+export const SwitchBudgetArgsSchema = z.object({
+  budgetId: z.string().describe('Required. Sync ID, local ID or name of the budget to use by default'),
+});
+
+export type SwitchBudgetArgs = z.infer<typeof SwitchBudgetArgsSchema>;
+
+export const GetBudgetMonthArgsSchema = z.object({
+  month: BudgetMonthStringSchema.optional().describe('Budget month in YYYY-MM format. Defaults to the current month'),
+});
+
+export type GetBudgetMonthArgs = z.infer<typeof GetBudgetMonthArgsSchema>;
+
+export const SetBudgetAmountArgsSchema = z.object({
+  month: BudgetMonthStringSchema.describe('Required. Budget month in YYYY-MM format'),
+  categoryId: z.string().describe('Required. The ID of the category to budget'),
+  amount: z
+    .number()
+    .int()
+    .describe(
+      'Required. Budgeted amount as an integer representing the value without decimal places. For example, USD amount of $120.30 would be 12030'
+    ),
+});
+
+export type SetBudgetAmountArgs = z.infer<typeof SetBudgetAmountArgsSchema>;
+
+export const SetBudgetCarryoverArgsSchema = z.object({
+  month: BudgetMonthStringSchema.describe('Required. First budget month in YYYY-MM format the flag applies to'),
+  categoryId: z.string().describe('Required. The ID of the expense category'),
+  flag: z
+    .boolean()
+    .describe(
+      'Required. When true, a negative balance in this category rolls over into the next month instead of reducing "To Budget". Applies to this and all following months'
+    ),
+});
+
+export type SetBudgetCarryoverArgs = z.infer<typeof SetBudgetCarryoverArgsSchema>;
+
+export const BudgetVarianceArgsSchema = z.object({
+  startMonth: BudgetMonthStringSchema.optional().describe(
+    'First budget month in YYYY-MM format. Defaults to the current month'
+  ),
+  endMonth: BudgetMonthStringSchema.optional().describe(
+    'Last budget month in YYYY-MM format (inclusive). Defaults to startMonth'
+  ),
+});
+
+export type BudgetVarianceArgs = z.infer<typeof BudgetVarianceArgsSchema>;
+
+// ----------------------------
+// ACCOUNT SCHEMAS
+// ----------------------------
+
+export const CreateAccountArgsSchema = z.object({
+  name: z.string().min(1).describe('Required. Name of the account'),
+  offbudget: z
+    .boolean()
+    .optional()
+    .describe('If true, the account is tracked off-budget (e.g. investments, mortgages). Defaults to on-budget'),
+  initialBalance: z
+    .number()
+    .int()
+    .optional()
+    .describe(
+      'Starting balance as an integer representing the value without decimal places. For example, USD amount of $120.30 would be 12030. Use a negative value for credit cards and loans'
+    ),
+});
+
+export type CreateAccountArgs = z.infer<typeof CreateAccountArgsSchema>;
+
+export const UpdateAccountArgsSchema = z.object({
+  id: z.string().describe('Required. The ID of the account to update'),
+  name: z.string().min(1).optional().describe('New name for the account'),
+  offbudget: z.boolean().optional().describe('Move the account on-budget (false) or off-budget (true)'),
+});
+
+export type UpdateAccountArgs = z.infer<typeof UpdateAccountArgsSchema>;
+
+// Schema for update data passed to the API (without id, which is passed separately)
+export const UpdateAccountDataSchema = UpdateAccountArgsSchema.omit({ id: true });
+export type UpdateAccountData = z.infer<typeof UpdateAccountDataSchema>;
+
+export const CloseAccountArgsSchema = z.object({
+  id: z.string().describe('Required. The ID of the account to close'),
+  transferAccountId: z
+    .string()
+    .optional()
+    .describe(
+      'The ID of the account to transfer the remaining balance to. Required if the account has a non-zero balance'
+    ),
+  transferCategoryId: z
+    .string()
+    .optional()
+    .describe(
+      'The ID of the category to assign the balance transfer to. Required when moving the balance from an on-budget to an off-budget account'
+    ),
+});
+
+export type CloseAccountArgs = z.infer<typeof CloseAccountArgsSchema>;
+
+export const AccountIdArgsSchema = z.object({
+  id: z.string().describe('Required. The ID of the account'),
+});
+
+export type AccountIdArgs = z.infer<typeof AccountIdArgsSchema>;
+
+export const ReconcileAccountArgsSchema = z.object({
+  accountId: z.string().describe('Required. The ID of the account to reconcile'),
+  statementBalance: z
+    .number()
+    .int()
+    .describe(
+      'Required. Ending balance on the statement as an integer without decimal places. For example, USD amount of $1,120.30 would be 112030'
+    ),
+  statementDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'statementDate must be in YYYY-MM-DD format')
+    .describe('Required. Statement end date in YYYY-MM-DD format. Transactions after it are left out'),
+  markCleared: z
+    .array(z.string())
+    .optional()
+    .describe('IDs of uncleared transactions that appear on the statement; they count as cleared'),
+  confirm: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      'If true, mark every cleared transaction up to the statement date as reconciled (locked). Requires write access'
+    ),
+  createAdjustment: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('With confirm, create a reconciled adjustment transaction for any remaining difference'),
+  maxCandidates: z
+    .number()
+    .int()
+    .min(1)
+    .max(20)
+    .optional()
+    .default(5)
+    .describe('Maximum number of uncleared transaction combinations suggested to explain the difference'),
+});
+
+export type ReconcileAccountArgs = z.input<typeof ReconcileAccountArgsSchema>;
+
+// ----------------------------
+// IMPORT SCHEMAS
+// ----------------------------
+
+export const ImportDateFormatSchema = z
+  .enum(['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'YYYYMMDD'])
+  .describe('Date format used in the file. OFX/QFX dates are always read as YYYYMMDD');
+
+export type ImportDateFormat = z.infer<typeof ImportDateFormatSchema>;
+
+export const CsvColumnMappingSchema = z
+  .object({
+    date: z.string().optional().describe('Header of the date column. Defaults to "Date"'),
+    amount: z
+      .string()
+      .optional()
+      .describe('Header of a signed amount column. Defaults to "Amount". Use inflow/outflow for split columns'),
+    inflow: z.string().optional().describe('Header of a deposits column (positive amounts)'),
+    outflow: z.string().optional().describe('Header of a withdrawals column (amounts are made negative)'),
+    payee: z
+      .string()
+      .optional()
+      .describe('Header of the payee/description column. Defaults to "Payee" or "Description"'),
+    notes: z.string().optional().describe('Header of the notes/memo column. Defaults to "Notes" or "Memo"'),
+    importedId: z
+      .string()
+      .optional()
+      .describe('Header of a unique bank transaction ID column, used to avoid duplicate imports'),
+  })
+  .describe('Maps transaction fields to CSV header names (matched case-insensitively)');
+
+export type CsvColumnMapping = z.infer<typeof CsvColumnMappingSchema>;
+
+export const ImportTransactionsArgsSchema = z.object({
+  accountId: z.string().describe('Required. The ID of the account to import transactions into'),
+  format: z.enum(['csv', 'ofx', 'qfx', 'qif']).describe('Required. Format of the file content'),
+  content: z.string().min(1).describe('Required. The raw text content of the file'),
+  dateFormat: ImportDateFormatSchema.optional().describe(
+    'Date format used by CSV and QIF files. Defaults to YYYY-MM-DD for CSV and MM/DD/YYYY for QIF'
+  ),
+  columnMapping: CsvColumnMappingSchema.optional(),
+  delimiter: z.string().length(1).optional().default(',').describe('CSV field delimiter'),
+  dryRun: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('If true, report what would be added or updated without saving anything'),
+});
+
+export type ImportTransactionsArgs = z.input<typeof ImportTransactionsArgsSchema>;
+
+// ----------------------------
+// EXPORT SCHEMAS
+// ----------------------------
+
+export const ExportTransactionsArgsSchema = GetTransactionsArgsSchema.extend({
+  format: z
+    .enum(['csv', 'json', 'ofx'])
+    .optional()
+    .default('csv')
+    .describe('Output format. Amounts are integers without decimal places in CSV and JSON, decimals in OFX'),
+});
+
+export type ExportTransactionsArgs = z.input<typeof ExportTransactionsArgsSchema>;
+
+// ----------------------------
+// AUDIT LOG SCHEMAS
+// ----------------------------
+
+export const GetAuditLogArgsSchema = z.object({
+  startDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'startDate must be in YYYY-MM-DD format')
+    .optional()
+    .describe('Only entries on or after this date (YYYY-MM-DD, UTC)'),
+  endDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'endDate must be in YYYY-MM-DD format')
+    .optional()
+    .describe('Only entries on or before this date (YYYY-MM-DD, UTC)'),
+  tool: z.string().optional().describe('Only entries for this tool name (e.g. update-transaction)'),
+  entityId: z
+    .string()
+    .optional()
+    .describe('Only entries that target or mention this ID (transaction, account, category, payee, rule, schedule)'),
+  clientId: z.string().optional().describe('Only entries made by this OAuth client ID'),
+  limit: z.number().int().min(1).max(500).optional().default(50).describe('Maximum number of entries, newest first'),
+});
+
+export type GetAuditLogArgs = z.input<typeof GetAuditLogArgsSchema>;
+
+// ----------------------------
+// OUTPUT SCHEMAS
+// ----------------------------
+
+// Structured content returned by read tools next to their text output. Amounts are raw integers.
+const AmountSchema = z.number().int();
+
+const RuleFieldValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+export const ListBudgetsOutputSchema = z.object({
+  budgets: z.array(
+    z.object({
+      name: z.string(),
+      syncId: z.string().nullable(),
+      localId: z.string().nullable(),
+      encrypted: z.boolean(),
+      downloaded: z.boolean(),
+      loaded: z.boolean(),
+      default: z.boolean(),
+    })
+  ),
+});
+
+export const SwitchBudgetOutputSchema = z.object({
+  budget: z.object({
+    name: z.string(),
+    syncId: z.string().nullable(),
+    localId: z.string().nullable(),
+  }),
+});
+
+export const TransactionOutputSchema = z.object({
+  id: z.string(),
+  accountId: z.string(),
+  date: z.string(),
+  amount: AmountSchema,
+  payeeId: z.string().nullable(),
+  payee: z.string().nullable(),
+  categoryId: z.string().nullable(),
+  category: z.string().nullable(),
+  notes: z.string().nullable(),
+  cleared: z.boolean(),
+  transferId: z.string().nullable(),
+});
+
+export type TransactionOutput = z.infer<typeof TransactionOutputSchema>;
+
+export const GetTransactionsOutputSchema = z.object({
+  accountId: z.string(),
+  startDate: z.string(),
+  endDate: z.string(),
+  matchCount: z.number().int(),
+  totalCount: z.number().int(),
+  transactions: z.array(TransactionOutputSchema),
+});
+
+export const SearchTransactionsOutputSchema = z.object({
+  startDate: z.string(),
+  endDate: z.string(),
+  matchCount: z.number().int(),
+  totalCount: z.number().int(),
+  offset: z.number().int(),
+  limit: z.number().int(),
+  transactions: z.array(TransactionOutputSchema),
+});
+
+const ExportedTransactionOutputSchema = z.object({
+  id: z.string(),
+  parentId: z.string().nullable(),
+  accountId: z.string(),
+  accountName: z.string(),
+  date: z.string(),
+  amount: AmountSchema,
+  payeeId: z.string().nullable(),
+  payee: z.string().nullable(),
+  categoryId: z.string().nullable(),
+  category: z.string().nullable(),
+  notes: z.string().nullable(),
+  cleared: z.boolean(),
+  importedId: z.string().nullable(),
+  transferId: z.string().nullable(),
+});
+
+export const ExportTransactionsOutputSchema = z.object({
+  accountId: z.string(),
+  accountName: z.string(),
+  startDate: z.string(),
+  endDate: z.string(),
+  transactions: z.array(
+    ExportedTransactionOutputSchema.extend({ subtransactions: z.array(ExportedTransactionOutputSchema) })
+  ),
+});
+
+const CategorySpendingOutputSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  group: z.string(),
+  isIncome: z.boolean(),
+  total: AmountSchema,
+  transactions: z.number().int(),
+});
+
+export const SpendingByCategoryOutputSchema = z.object({
+  startDate: z.string(),
+  endDate: z.string(),
+  accountId: z.string().nullable(),
+  includeIncome: z.boolean(),
+  groups: z.array(
+    z.object({
+      name: z.string(),
+      total: AmountSchema,
+      categories: z.array(CategorySpendingOutputSchema),
+    })
+  ),
+});
+
+const TrendStatsSchema = z.object({
+  // Totals per month, aligned with months
+  monthly: z.array(AmountSchema),
+  total: AmountSchema,
+  previousTotal: AmountSchema,
+  changePercent: z.number().nullable(),
+});
+
+export const CategoryTrendsOutputSchema = z.object({
+  startMonth: z.string(),
+  endMonth: z.string(),
+  months: z.array(z.string()),
+  accountId: z.string().nullable(),
+  includeIncome: z.boolean(),
+  groups: z.array(
+    TrendStatsSchema.extend({
+      name: z.string(),
+      categories: z.array(
+        TrendStatsSchema.extend({
+          id: z.string(),
+          name: z.string(),
+          group: z.string(),
+          isIncome: z.boolean(),
+          transactions: z.number().int(),
+          average: AmountSchema,
+          min: AmountSchema,
+          max: AmountSchema,
+          trend: z.enum(['up', 'down', 'flat']),
+          slope: AmountSchema,
+        })
+      ),
+    })
+  ),
+  // The same matrix as CSV-style rows, one per category
+  table: z.object({
+    columns: z.array(z.string()),
+    rows: z.array(z.array(z.union([z.string(), z.number(), z.null()]))),
+  }),
+});
+
+export const UnusualTransactionsOutputSchema = z.object({
+  startDate: z.string(),
+  endDate: z.string(),
+  historyStart: z.string(),
+  transactions: z.array(
+    z.object({
+      id: z.string(),
+      date: z.string(),
+      accountId: z.string(),
+      accountName: z.string(),
+      payeeId: z.string().nullable(),
+      payeeName: z.string(),
+      categoryId: z.string().nullable(),
+      categoryName: z.string(),
+      amount: AmountSchema,
+      score: z.number(),
+      reasons: z.array(
+        z.object({
+          type: z.enum(['payee-amount', 'category-amount', 'new-payee', 'duplicate']),
+          message: z.string(),
+        })
+      ),
+    })
+  ),
+});
+
+export const MonthlySummaryOutputSchema = z.object({
+  start: z.string(),
+  end: z.string(),
+  accountId: z.string().optional(),
+  accountName: z.string().optional(),
+  sortedMonths: z.array(
+    z.object({
+      year: z.number().int(),
+      month: z.number().int(),
+      income: AmountSchema,
+      expenses: AmountSchema,
+      investments: AmountSchema,
+      transactions: z.number().int(),
+    })
+  ),
+  // Averages are not rounded, so they may have decimals
+  avgIncome: z.number(),
+  avgExpenses: z.number(),
+  avgInvestments: z.number(),
+  avgTraditionalSavings: z.number(),
+  avgTotalSavings: z.number(),
+  avgTraditionalSavingsRate: z.number().describe('Percentage of income'),
+  avgTotalSavingsRate: z.number().describe('Percentage of income'),
+});
+
+export const BalanceHistoryOutputSchema = z.object({
+  accountId: z.string(),
+  accountName: z.string().nullable(),
+  start: z.string(),
+  end: z.string(),
+  months: z.array(
+    z.object({
+      account: z.string().optional(),
+      year: z.number().int(),
+      month: z.number().int(),
+      balance: AmountSchema,
+      transactions: z.number().int(),
+      change: AmountSchema.optional(),
+    })
+  ),
+});
+
+export const NetWorthOutputSchema = z.object({
+  start: z.string(),
+  end: z.string(),
+  months: z.array(
+    z.object({
+      month: z.string(),
+      assets: AmountSchema,
+      liabilities: AmountSchema,
+      netWorth: AmountSchema,
+      change: AmountSchema.optional(),
+    })
+  ),
+  accounts: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      offbudget: z.boolean(),
+      closed: z.boolean(),
+      classification: z.enum(['asset', 'liability']),
+      balances: z.record(AmountSchema).describe('Month-end balance keyed by YYYY-MM'),
+    })
+  ),
+});
+
+export const GetAccountsOutputSchema = z.object({
+  accounts: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      type: z.string().nullable(),
+      balance: AmountSchema,
+      closed: z.boolean(),
+      offBudget: z.boolean(),
+    })
+  ),
+});
+
+const CategoryOutputSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  group_id: z.string(),
+  is_income: z.boolean().optional(),
+  hidden: z.boolean().optional(),
+});
+
+export const GetGroupedCategoriesOutputSchema = z.object({
+  categoryGroups: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      is_income: z.boolean().optional(),
+      hidden: z.boolean().optional(),
+      categories: z.array(CategoryOutputSchema).optional(),
+    })
+  ),
+});
+
+export const GetPayeesOutputSchema = z.object({
+  payees: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      transfer_acct: z.string().nullable().describe('Account ID when this is a transfer payee'),
+    })
+  ),
+});
+
+// Rules and schedules mirror the Actual API entities, so unknown fields are passed through
+export const GetRulesOutputSchema = z.object({
+  rules: z.array(
+    z
+      .object({
+        id: z.string(),
+        stage: z.string().nullable().optional(),
+        conditionsOp: z.string(),
+        conditions: z.array(z.record(z.unknown())),
+        actions: z.array(z.record(z.unknown())),
+      })
+      .passthrough()
+  ),
+});
+
+export const PreviewRuleOutputSchema = z.object({
+  start: z.string(),
+  end: z.string(),
+  evaluated: z.number().int(),
+  matchCount: z.number().int(),
+  matches: z.array(
+    z.object({
+      transactionId: z.string(),
+      date: z.string(),
+      accountId: z.string(),
+      payeeId: z.string().nullable(),
+      amount: AmountSchema,
+      changes: z.array(z.object({ field: z.string(), before: RuleFieldValueSchema, after: RuleFieldValueSchema })),
+      skippedActions: z.array(z.string()),
+    })
+  ),
+});
+
+export const GetSchedulesOutputSchema = z.object({
+  schedules: z.array(
+    z
+      .object({
+        id: z.string(),
+        name: z.string().nullable().optional(),
+        next_date: z.string().nullable().optional(),
+        completed: z.boolean().optional(),
+        posts_transaction: z.boolean(),
+      })
+      .passthrough()
+  ),
+});
+
+export const UpcomingBillsOutputSchema = z.object({
+  start: z.string(),
+  end: z.string(),
+  bills: z.array(
+    z.object({
+      scheduleId: z.string(),
+      name: z.string(),
+      date: z.string(),
+      payee: z.string(),
+      accountId: z.string().nullable(),
+      accountName: z.string(),
+      amount: AmountSchema,
+      isApproximate: z.boolean(),
+      isOverdue: z.boolean(),
+      postsTransaction: z.boolean(),
+    })
+  ),
+  accounts: z.array(
+    z.object({
+      accountId: z.string().nullable(),
+      accountName: z.string(),
+      outflow: AmountSchema,
+      inflow: AmountSchema,
+      net: AmountSchema,
+      balance: AmountSchema.optional(),
+      projectedBalance: AmountSchema.optional(),
+    })
+  ),
+});
+
+const BudgetMonthAmountsSchema = z.object({
+  budgeted: AmountSchema.optional(),
+  spent: AmountSchema.optional(),
+  balance: AmountSchema.optional(),
+  received: AmountSchema.optional(),
+});
+
+export const BudgetMonthOutputSchema = z.object({
+  month: z.string(),
+  incomeAvailable: AmountSchema,
+  lastMonthOverspent: AmountSchema,
+  forNextMonth: AmountSchema,
+  totalBudgeted: AmountSchema,
+  toBudget: AmountSchema,
+  fromLastMonth: AmountSchema,
+  totalIncome: AmountSchema,
+  totalSpent: AmountSchema,
+  totalBalance: AmountSchema,
+  categoryGroups: z.array(
+    BudgetMonthAmountsSchema.extend({
+      id: z.string(),
+      name: z.string(),
+      is_income: z.boolean().optional(),
+      hidden: z.boolean().optional(),
+      categories: z.array(
+        BudgetMonthAmountsSchema.extend({
+          id: z.string(),
+          name: z.string(),
+          group_id: z.string(),
+          is_income: z.boolean().optional(),
+          hidden: z.boolean().optional(),
+          carryover: z.boolean().optional(),
+        })
+      ),
+    })
+  ),
+});
+
+const VarianceOutputSchema = z.object({
+  budgeted: AmountSchema,
+  remaining: AmountSchema,
+  overspent: z.boolean(),
+});
+
+export const BudgetVarianceOutputSchema = z.object({
+  startMonth: z.string(),
+  endMonth: z.string(),
+  groups: z.array(
+    VarianceOutputSchema.extend({
+      name: z.string(),
+      total: AmountSchema,
+      categories: z.array(CategorySpendingOutputSchema.merge(VarianceOutputSchema)),
+    })
+  ),
+});
+
+export const CashFlowForecastOutputSchema = z.object({
+  start: z.string(),
+  end: z.string(),
+  accounts: z.array(
+    z.object({
+      accountId: z.string(),
+      accountName: z.string(),
+      startingBalance: AmountSchema,
+      endingBalance: AmountSchema,
+      lowestBalance: AmountSchema,
+      lowestDate: z.string(),
+      negativePeriods: z.array(z.object({ from: z.string(), to: z.string() })),
+      // End-of-day balance on each day with expected activity
+      balances: z.array(z.object({ date: z.string(), balance: AmountSchema })),
+    })
+  ),
+  events: z.array(
+    z.object({
+      date: z.string(),
+      accountId: z.string(),
+      accountName: z.string(),
+      description: z.string(),
+      amount: AmountSchema,
+      source: z.enum(['schedule', 'recurring', 'transaction']),
+      sourceId: z.string(),
+      isOverdue: z.boolean(),
+    })
+  ),
+});
+
+export const DetectRecurringOutputSchema = z.object({
+  start: z.string(),
+  end: z.string(),
+  series: z.array(
+    z.object({
+      seriesId: z.string(),
+      payeeId: z.string(),
+      payeeName: z.string(),
+      accountId: z.string(),
+      accountName: z.string(),
+      categoryId: z.string().nullable(),
+      categoryName: z.string().nullable(),
+      cadence: z.enum(['weekly', 'biweekly', 'monthly', 'quarterly', 'yearly']),
+      occurrences: z.number(),
+      averageAmount: AmountSchema,
+      lastAmount: AmountSchema,
+      lastDate: z.string(),
+      nextDate: z.string(),
+      active: z.boolean(),
+      priceChanges: z.array(z.object({ date: z.string(), from: AmountSchema, to: AmountSchema })),
+      scheduleId: z.string().nullable(),
+    })
+  ),
+  created: z.array(z.object({ seriesId: z.string(), scheduleId: z.string() })),
+});
+
+export const GetAuditLogOutputSchema = z.object({
+  entries: z.array(
+    z.object({
+      timestamp: z.string(),
+      clientId: z.string().nullable(),
+      tool: z.string(),
+      budgetId: z.string().nullable(),
+      arguments: z.record(z.unknown()),
+      entity: z
+        .object({
+          type: z.enum([
+            'transaction',
+            'account',
+            'category',
+            'category-group',
+            'payee',
+            'rule',
+            'schedule',
+            'budget-category',
+          ]),
+          id: z.string(),
+          month: z.string().optional(),
+        })
+        .nullable(),
+      before: z.unknown(),
+      after: z.unknown(),
+      result: z.object({ isError: z.boolean(), text: z.string() }),
+    })
+  ),
+});
+
+export const ReconcileAccountOutputSchema = z.object({
+  accountId: z.string(),
+  accountName: z.string(),
+  statementDate: z.string(),
+  statementBalance: AmountSchema,
+  clearedBalance: AmountSchema,
+  difference: AmountSchema,
+  unclearedTransactions: z.array(
+    z.object({
+      id: z.string(),
+      date: z.string(),
+      payee: z.string(),
+      amount: AmountSchema,
+      notes: z.string().nullable(),
+    })
+  ),
+  // Sets of uncleared transactions whose amounts add up to the difference
+  candidates: z.array(z.object({ transactionIds: z.array(z.string()), total: AmountSchema })),
+  reconciled: z
+    .object({
+      transactionIds: z.array(z.string()),
+      adjustmentId: z.string().nullable(),
+    })
+    .nullable(),
+});
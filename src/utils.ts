@@ -23,18 +23,110 @@ export function formatDate(date: Date | string | undefined | null): string {
   return d.toISOString().split('T')[0];
 }
 
+/**
+ * Format a date as a YYYY-MM budget month
+ */
+export function formatMonth(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Currency, locale and number of decimal places used to display and parse amounts.
+ * Actual stores amounts as integers scaled by the currency's decimal places.
+ */
+export interface AmountFormat {
+  currency: string;
+  locale: string;
+  decimalPlaces: number;
+}
+
+/**
+ * Get the default number of decimal places of an ISO 4217 currency (e.g. 2 for USD, 0 for JPY)
+ */
+export function getCurrencyDecimalPlaces(currency: string): number {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    throw new Error(`Invalid currency code: ${currency}`);
+  }
+}
+
+/**
+ * Build the amount format from ACTUAL_CURRENCY_CODE, ACTUAL_LOCALE and ACTUAL_CURRENCY_DECIMALS,
+ * falling back to the given budget settings and then to en-US / USD
+ */
+export function resolveAmountFormat(
+  budgetFormat: Partial<AmountFormat> = {},
+  env: NodeJS.ProcessEnv = process.env
+): AmountFormat {
+  const currency = (env.ACTUAL_CURRENCY_CODE || budgetFormat.currency || 'USD').toUpperCase();
+  const locale = env.ACTUAL_LOCALE || budgetFormat.locale || 'en-US';
+
+  const envDecimals = env.ACTUAL_CURRENCY_DECIMALS;
+  let decimalPlaces: number;
+  if (envDecimals !== undefined && envDecimals !== '') {
+    decimalPlaces = Number(envDecimals);
+    if (!Number.isInteger(decimalPlaces) || decimalPlaces < 0 || decimalPlaces > 4) {
+      throw new Error(`ACTUAL_CURRENCY_DECIMALS must be an integer between 0 and 4, got: ${envDecimals}`);
+    }
+  } else if (budgetFormat.decimalPlaces !== undefined && !env.ACTUAL_CURRENCY_CODE) {
+    decimalPlaces = budgetFormat.decimalPlaces;
+  } else {
+    decimalPlaces = getCurrencyDecimalPlaces(currency);
+  }
+
+  return { currency, locale, decimalPlaces };
+}
+
 /**
  * Format currency amounts for display
  */
-export function formatAmount(amount: number | undefined | null): string {
+export function formatAmount(amount: number | undefined | null, format: AmountFormat = resolveAmountFormat()): string {
   if (amount === undefined || amount === null) return 'N/A';
 
-  // Convert from cents to dollars
-  const dollars = amount / 100;
-  return new Intl.NumberFormat('en-US', {
+  // Convert from the stored integer to the currency's major unit
+  return new Intl.NumberFormat(format.locale, {
     style: 'currency',
-    currency: 'USD',
-  }).format(dollars);
+    currency: format.currency,
+    minimumFractionDigits: format.decimalPlaces,
+    maximumFractionDigits: format.decimalPlaces,
+  }).format(integerToAmount(amount, format));
+}
+
+/**
+ * Convert a decimal amount in the currency's major unit (e.g. 12.30) into an integer without decimal places
+ */
+export function amountToInteger(amount: number, format: AmountFormat = resolveAmountFormat()): number {
+  return Math.round(amount * 10 ** format.decimalPlaces);
+}
+
+/**
+ * Convert an integer amount without decimal places into a decimal amount in the currency's major unit
+ */
+export function integerToAmount(amount: number, format: AmountFormat = resolveAmountFormat()): number {
+  return amount / 10 ** format.decimalPlaces;
+}
+
+/**
+ * Parse a decimal amount string (e.g. "-1,234.56", "$12.30", "(45.00)") into an integer without decimal places.
+ * The decimal separator follows the locale of the amount format (e.g. "1.234,56" for de-DE).
+ */
+export function parseAmountToInteger(value: string, format: AmountFormat = resolveAmountFormat()): number {
+  const trimmed = value.trim();
+  // # Reason: Accounting formats wrap negative amounts in parentheses instead of using a minus sign.
+  const isParenthesized = /^\(.*\)$/.test(trimmed);
+  const decimalSeparator =
+    new Intl.NumberFormat(format.locale).formatToParts(1.1).find((part) => part.type === 'decimal')?.value ?? '.';
+  const cleaned = [...trimmed]
+    .filter((char) => /[0-9-]/.test(char) || char === decimalSeparator)
+    .join('')
+    .replace(decimalSeparator, '.');
+  const parsed = parseFloat(cleaned);
+  if (cleaned === '' || isNaN(parsed)) {
+    throw new Error(`Invalid amount: ${value}`);
+  }
+  const amount = amountToInteger(parsed, format);
+  return isParenthesized ? -Math.abs(amount) : amount;
 }
 
 // Helper to calculate start/end date strings for the N most recent months
@@ -50,3 +142,39 @@ export function getDateRangeForMonths(months: number): {
     end: end.toISOString().slice(0, 10),
   };
 }
+
+// Helper to list the YYYY-MM budget months between two months (inclusive)
+export function getMonthsInRange(startMonth: string, endMonth: string): string[] {
+  const [startYear, startMonthNumber] = startMonth.split('-').map(Number);
+  const [endYear, endMonthNumber] = endMonth.split('-').map(Number);
+  const months: string[] = [];
+
+  let year = startYear;
+  let month = startMonthNumber;
+  while (year < endYear || (year === endYear && month <= endMonthNumber)) {
+    months.push(`${year}-${String(month).padStart(2, '0')}`);
+    month += 1;
+    if (month > 12) {
+      month = 1;
+      year += 1;
+    }
+  }
+
+  return months;
+}
+
+// Helper to calculate start/end date strings covering whole YYYY-MM budget months
+export function getDateRangeForMonthRange(
+  startMonth: string,
+  endMonth: string
+): {
+  start: string;
+  end: string;
+} {
+  const [endYear, endMonthNumber] = endMonth.split('-').map(Number);
+  const end = new Date(Date.UTC(endYear, endMonthNumber, 0)); // last day of end month
+  return {
+    start: `${startMonth}-01`,
+    end: end.toISOString().slice(0, 10),
+  };
+}
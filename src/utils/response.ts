@@ -19,34 +19,44 @@ export type TextContentItem = TextContent;
  */
 export type Response = CallToolResult;
 
+/**
+ * Machine-readable data returned next to the text content; must match the tool's outputSchema
+ */
+export type StructuredContent = Record<string, unknown>;
+
 /**
  * Create a successful plain text response
  * @param text - The text message
+ * @param structuredContent - Optional data matching the tool's outputSchema
  * @returns A success response object with text content
  */
-export function success(text: string): CallToolResult {
+export function success(text: string, structuredContent?: StructuredContent): CallToolResult {
   return {
     content: [{ type: 'text', text }],
+    ...(structuredContent && { structuredContent }),
   };
 }
 
 /**
  * Create a success response with structured content
  * @param content - Array of content items
+ * @param structuredContent - Optional data matching the tool's outputSchema
  * @returns A success response object with provided content
  */
-export function successWithContent(content: ContentItem): CallToolResult {
+export function successWithContent(content: ContentItem, structuredContent?: StructuredContent): CallToolResult {
   return {
     content: [content],
+    ...(structuredContent && { structuredContent }),
   };
 }
 
 /**
  * Create a success response with JSON data
  * @param data - Any data object that can be JSON-stringified
+ * @param structuredContent - Optional data matching the tool's outputSchema
  * @returns A success response with JSON data wrapped as a resource
  */
-export function successWithJson<T>(data: T): CallToolResult {
+export function successWithJson<T>(data: T, structuredContent?: StructuredContent): CallToolResult {
   return {
     content: [
       {
@@ -54,6 +64,7 @@ export function successWithJson<T>(data: T): CallToolResult {
         text: JSON.stringify(data),
       },
     ],
+    ...(structuredContent && { structuredContent }),
   };
 }
 